@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  // Configuration options here
+  experimental: {
+    // pdfkit loads its font metrics from disk at runtime; resvg is a native addon
+    serverComponentsExternalPackages: ['pdfkit', '@resvg/resvg-js']
+  }
 }
 
 module.exports = nextConfig
\ No newline at end of file
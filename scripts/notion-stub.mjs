@@ -0,0 +1,172 @@
+// Local stand-in for the Notion API, for exercising the Notion integration
+// without a real workspace. Run `npm run notion:stub` and set
+// NOTION_API_URL=http://localhost:4010 (plus any NOTION_CLIENT_ID and
+// NOTION_CLIENT_SECRET). Created pages can be inspected at GET /__stub/pages.
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+
+const PORT = parseInt(process.env.NOTION_STUB_PORT || '4010', 10);
+const ACCESS_TOKEN = 'stub-access-token';
+
+// Mirrors the limits the real API enforces
+const MAX_BLOCKS_PER_REQUEST = 100;
+const MAX_TEXT_LENGTH = 2000;
+
+const parents = [
+  {
+    object: 'page',
+    id: '11111111-1111-1111-1111-111111111111',
+    url: `http://localhost:${PORT}/stub/Board-Reports`,
+    properties: { title: { id: 'title', type: 'title', title: [{ plain_text: 'Board Reports' }] } }
+  },
+  {
+    object: 'database',
+    id: '22222222-2222-2222-2222-222222222222',
+    url: `http://localhost:${PORT}/stub/Report-Library`,
+    title: [{ plain_text: 'Report Library' }],
+    properties: { Name: { id: 'title', type: 'title', title: {} }, Status: { id: 'status', type: 'select', select: {} } }
+  }
+];
+
+const pages = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const error = (res, status, code, message) => send(res, status, { object: 'error', status, code, message });
+
+const readBody = req => new Promise(resolve => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data ? JSON.parse(data) : {}));
+});
+
+// Returns a validation message for the first block breaking an API limit
+const validateBlocks = blocks => {
+  if (!Array.isArray(blocks)) return 'body.children should be an array';
+  if (blocks.length > MAX_BLOCKS_PER_REQUEST) return `body.children.length should be ≤ ${MAX_BLOCKS_PER_REQUEST}`;
+
+  for (const block of blocks) {
+    const content = block[block.type];
+    if (!content) return `block of type ${block.type} is missing its content`;
+
+    const texts = [...(content.rich_text || []), ...(content.cells || []).flat()];
+    if (texts.some(text => (text.text?.content || '').length > MAX_TEXT_LENGTH)) {
+      return `rich_text content length should be ≤ ${MAX_TEXT_LENGTH}`;
+    }
+    if (content.children) {
+      const nested = validateBlocks(content.children);
+      if (nested) return nested;
+    }
+  }
+  return null;
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname;
+  console.log(req.method, path);
+
+  // Consent is granted immediately
+  if (req.method === 'GET' && path === '/v1/oauth/authorize') {
+    const redirect = new URL(url.searchParams.get('redirect_uri'));
+    redirect.searchParams.set('code', 'stub-code');
+    redirect.searchParams.set('state', url.searchParams.get('state') || '');
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && path === '/v1/oauth/token') {
+    const body = await readBody(req);
+    if (!req.headers.authorization?.startsWith('Basic ') || body.code !== 'stub-code') {
+      return error(res, 400, 'invalid_grant', 'Invalid code.');
+    }
+    return send(res, 200, {
+      access_token: ACCESS_TOKEN,
+      token_type: 'bearer',
+      bot_id: 'stub-bot',
+      workspace_id: 'stub-workspace',
+      workspace_name: 'Stub Workspace',
+      workspace_icon: null
+    });
+  }
+
+  if (path === '/__stub/pages') {
+    return send(res, 200, Array.from(pages.values()));
+  }
+
+  if (req.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+    return error(res, 401, 'unauthorized', 'API token is invalid.');
+  }
+  if (!req.headers['notion-version']) {
+    return error(res, 400, 'missing_version', 'Notion-Version header failed validation.');
+  }
+
+  if (req.method === 'POST' && path === '/v1/search') {
+    const { query = '' } = await readBody(req);
+    const title = item => (item.object === 'database' ? item.title : item.properties.title.title)[0].plain_text;
+    return send(res, 200, {
+      object: 'list',
+      results: parents.filter(item => title(item).toLowerCase().includes(query.toLowerCase())),
+      has_more: false,
+      next_cursor: null
+    });
+  }
+
+  const lookup = path.match(/^\/v1\/(pages|databases)\/([\w-]+)$/);
+  if (req.method === 'GET' && lookup) {
+    const item = parents.find(parent => parent.id === lookup[2] && parent.object === lookup[1].slice(0, -1)) || pages.get(lookup[2]);
+    return item ? send(res, 200, item) : error(res, 404, 'object_not_found', `Could not find ${lookup[1].slice(0, -1)} with ID: ${lookup[2]}.`);
+  }
+
+  if (req.method === 'POST' && path === '/v1/pages') {
+    const body = await readBody(req);
+    const parentId = body.parent?.page_id || body.parent?.database_id;
+    const parent = parents.find(item => item.id === parentId);
+    if (!parent) return error(res, 404, 'object_not_found', `Could not find parent with ID: ${parentId}.`);
+
+    const titleProperty = parent.object === 'database'
+      ? Object.keys(parent.properties).find(key => parent.properties[key].type === 'title')
+      : 'title';
+    if (!body.properties?.[titleProperty]?.title) {
+      return error(res, 400, 'validation_error', `${titleProperty} is expected to be title.`);
+    }
+
+    const invalid = validateBlocks(body.children || []);
+    if (invalid) return error(res, 400, 'validation_error', invalid);
+
+    const id = randomUUID();
+    const page = {
+      object: 'page',
+      id,
+      url: `http://localhost:${PORT}/stub/${id}`,
+      parent: body.parent,
+      properties: body.properties,
+      icon: body.icon,
+      children: body.children || []
+    };
+    pages.set(id, page);
+    return send(res, 200, page);
+  }
+
+  const append = path.match(/^\/v1\/blocks\/([\w-]+)\/children$/);
+  if (req.method === 'PATCH' && append) {
+    const page = pages.get(append[1]);
+    if (!page) return error(res, 404, 'object_not_found', `Could not find block with ID: ${append[1]}.`);
+
+    const body = await readBody(req);
+    const invalid = validateBlocks(body.children);
+    if (invalid) return error(res, 400, 'validation_error', invalid);
+
+    page.children.push(...body.children);
+    return send(res, 200, { object: 'list', results: body.children });
+  }
+
+  error(res, 404, 'invalid_request_url', 'Invalid request URL.');
+});
+
+server.listen(PORT, () => {
+  console.log(`Notion API stub listening on http://localhost:${PORT}`);
+});
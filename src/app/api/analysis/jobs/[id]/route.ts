@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest } from '@/lib/auth';
+import AnalysisJobService from '@/lib/analysis-jobs';
+import { ApiResponse, AnalysisResponse } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Get job and verify user ownership
+    const { data: job, error } = await supabase
+      .from(TABLES.ANALYSIS_JOBS)
+      .select(`
+        *,
+        files(
+          file_size,
+          file_type
+        )
+      `)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !job) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Analysis job not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<AnalysisResponse>>({
+      success: true,
+      data: AnalysisJobService.toResponse(job, job.files),
+      message: 'Analysis job status retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get analysis job error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
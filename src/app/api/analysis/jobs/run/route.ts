@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import AnalysisJobService from '@/lib/analysis-jobs';
+import { ApiResponse } from '@/types';
+
+// Drains the analysis queue; called by a scheduler (cron) on deployments where
+// the in-process worker does not outlive the request that queued the job
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.JOB_RUNNER_SECRET;
+    const authHeader = request.headers.get('authorization');
+
+    if (!secret || authHeader !== `Bearer ${secret}`) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const processed = await AnalysisJobService.processQueue();
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { processed },
+      message: `Processed ${processed} analysis job${processed === 1 ? '' : 's'}`
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Run analysis jobs error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
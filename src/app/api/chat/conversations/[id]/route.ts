@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest } from '@/lib/auth';
+import ConversationService, { MAX_CONVERSATION_TITLE_CHARS } from '@/lib/conversations';
+import { ApiResponse } from '@/types';
+
+// Conversation with its messages, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const conversation = await ConversationService.get(authResult.user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Conversation not found'
+      }, { status: 404 });
+    }
+
+    const messages = await ConversationService.getMessages(conversation.id);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { conversation, messages },
+      message: 'Conversation retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+
+    if (!title) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Title is required'
+      }, { status: 400 });
+    }
+
+    if (title.length > MAX_CONVERSATION_TITLE_CHARS) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Title must be at most ${MAX_CONVERSATION_TITLE_CHARS} characters`
+      }, { status: 400 });
+    }
+
+    const { data: conversation, error } = await supabase
+      .from(TABLES.CONVERSATIONS)
+      .update({ title })
+      .eq('id', params.id)
+      .eq('user_id', authResult.user.id)
+      .select()
+      .single();
+
+    if (error || !conversation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Conversation not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: ConversationService.toConversation(conversation),
+      message: 'Conversation renamed successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Rename conversation error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const conversation = await ConversationService.get(authResult.user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Conversation not found'
+      }, { status: 404 });
+    }
+
+    // Messages are removed with it by ON DELETE CASCADE
+    const { error } = await supabase
+      .from(TABLES.CONVERSATIONS)
+      .delete()
+      .eq('id', conversation.id);
+
+    if (error) {
+      console.error('Conversation deletion error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to delete conversation'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Conversation deleted successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
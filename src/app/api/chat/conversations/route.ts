@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import ChatService from '@/lib/chat';
+import ConversationService, { MAX_CONVERSATION_TITLE_CHARS } from '@/lib/conversations';
+import { ApiResponse, Conversation, PaginatedResponse } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const { searchParams } = new URL(request.url);
+
+    // Parse query parameters
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50);
+    const analysisId = searchParams.get('analysisId');
+
+    const { conversations, total } = await ConversationService.list(user.id, { page, limit, analysisId });
+
+    const response: PaginatedResponse<Conversation> = {
+      success: true,
+      data: conversations,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+// Threads are also started implicitly by the first message sent without a conversationId
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+
+    const requested = ChatService.parseAnalysisIds(body);
+    if ('error' in requested) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: requested.error
+      }, { status: 400 });
+    }
+
+    if (title.length > MAX_CONVERSATION_TITLE_CHARS) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Title must be at most ${MAX_CONVERSATION_TITLE_CHARS} characters`
+      }, { status: 400 });
+    }
+
+    const conversation = await ConversationService.create(authResult.user.id, {
+      title: title || 'New conversation',
+      analysisIds: requested.analysisIds
+    });
+
+    return NextResponse.json<ApiResponse<Conversation>>({
+      success: true,
+      data: conversation,
+      message: 'Conversation created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
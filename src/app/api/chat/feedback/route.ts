@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, requireAdmin } from '@/lib/auth';
+import { CHAT_PROMPT_VERSION } from '@/lib/gemini';
+import ChatFeedbackService from '@/lib/chat-feedback';
+import { ApiResponse } from '@/types';
+
+// Answer feedback across all users for the last `days` days, grouped by
+// prompt version and model, with recent thumbs-down answers (filtered by
+// `promptVersion` and `model` when given). Admins only.
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    if (!requireAdmin(authResult.user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Admin access required'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 365);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [summary, recentNegative] = await Promise.all([
+      ChatFeedbackService.summarize(since),
+      ChatFeedbackService.recentNegative(since, {
+        limit,
+        promptVersion: searchParams.get('promptVersion'),
+        model: searchParams.get('model')
+      })
+    ]);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        since,
+        currentPromptVersion: CHAT_PROMPT_VERSION,
+        summary,
+        recentNegative
+      },
+      message: 'Chat feedback retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Chat feedback summary error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import ChatFeedbackService from '@/lib/chat-feedback';
+import { ApiResponse } from '@/types';
+
+// Rate one of the user's chat answers: {rating: "up" | "down", correction?},
+// or {rating: null} to withdraw the rating
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const parsed = ChatFeedbackService.parse(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const found = await ChatFeedbackService.record(authResult.user.id, params.id, parsed.feedback);
+    if (!found) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Message not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { feedback: parsed.feedback },
+      message: parsed.feedback ? 'Feedback saved successfully' : 'Feedback removed successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Chat feedback error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
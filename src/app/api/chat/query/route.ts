@@ -1,19 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, TABLES } from '@/lib/supabase';
 import { authenticateRequest, checkSubscriptionTier, checkRateLimit } from '@/lib/auth';
-import { geminiService } from '@/lib/gemini';
-import { ApiResponse } from '@/types';
-import { v4 as uuidv4 } from 'uuid';
+import { CHAT_PROMPT_VERSION, GeminiAnalysisService } from '@/lib/gemini';
+import { getLLMProviderForUser } from '@/lib/llm-provider';
+import ChatService from '@/lib/chat';
+import ConversationService from '@/lib/conversations';
+import DocumentRetrievalService from '@/lib/document-retrieval';
+import ChatSuggestionService from '@/lib/chat-suggestions';
+import { ApiResponse, ChatCitation, ChatToolCall } from '@/types';
 
 interface ChatQueryRequest {
   message: string;
   analysisId?: string;
+  analysisIds?: string[]; // compare several analyses; takes precedence over analysisId
   conversationId?: string;
 }
 
 interface ChatQueryResponse {
+  id?: string; // stored message, for feedback
   response: string;
-  conversationId: string;
+  conversationId?: string;
+  citations: ChatCitation[]; // report passages the response cites
+  toolCalls: ChatToolCall[]; // calculations run for the response
+  followUps: string[]; // suggested next questions
   timestamp: Date;
   analysisContext?: boolean;
 }
@@ -49,107 +58,79 @@ export async function POST(request: NextRequest) {
     }
 
     const body: ChatQueryRequest = await request.json();
-    const { message, analysisId, conversationId } = body;
+    const { message, conversationId } = body;
 
-    if (!message || message.trim().length === 0) {
+    const validationError = ChatService.validateMessage(message);
+    if (validationError) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Message is required'
+        error: validationError
       }, { status: 400 });
     }
 
-    if (message.length > 1000) {
+    const requested = ChatService.parseAnalysisIds(body);
+    if ('error' in requested) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Message too long. Maximum 1000 characters allowed.'
+        error: requested.error
       }, { status: 400 });
     }
 
-    let analysisContext = null;
-    let reportContent = null;
-
-    // Get analysis context if analysisId is provided
-    if (analysisId) {
-      const { data: analysis, error: analysisError } = await supabase
-        .from(TABLES.ANALYSES)
-        .select(`
-          *,
-          files!inner(
-            id,
-            file_name,
-            user_id,
-            supabase_storage_path
-          )
-        `)
-        .eq('id', analysisId)
-        .eq('files.user_id', user.id)
-        .single();
-
-      if (analysis && !analysisError) {
-        analysisContext = {
-          id: analysis.id,
-          summary: analysis.summary,
-          kpis: analysis.kpis,
-          risks: analysis.risks,
-          opportunities: analysis.opportunities,
-          recommendations: analysis.recommendations
-        };
-
-        // Optionally get report content for more context
-        // This is a simplified approach - in production you might cache this
-        try {
-          if (analysis.files.supabase_storage_path) {
-            const { data: fileData } = await supabase.storage
-              .from('uploaded-files')
-              .download(analysis.files.supabase_storage_path);
-
-            if (fileData) {
-              // For simplicity, we'll just use the summary
-              // In production, you might want to include relevant excerpts
-              reportContent = analysis.summary;
-            }
-          }
-        } catch (error) {
-          console.log('Could not fetch report content for context:', error);
-        }
-      }
+    // Continue an existing thread; without one a new thread is started
+    const conversation = conversationId ? await ConversationService.get(user.id, conversationId) : null;
+    if (conversationId && !conversation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Conversation not found'
+      }, { status: 404 });
     }
 
+    // Get analysis context and relevant report passages for the requested
+    // analyses, else the thread's analyses
+    const analysisIds = requested.analysisIds.length > 0 ? requested.analysisIds : conversation?.analysisIds || [];
+    const { reports, passages } = await ChatService.loadContext(user.id, analysisIds, message);
+
     try {
-      // Generate AI response using Gemini
-      const aiResponse = await geminiService.generateCustomResponse(
+      // Generate AI response with the user's configured model
+      const analysisService = new GeminiAnalysisService(await getLLMProviderForUser(user.id));
+      const history = conversation
+        ? await ConversationService.getHistory(conversation.id, analysisService)
+        : undefined;
+
+      // Exact figures from the parsed statements for any arithmetic the question needs
+      const toolCalls = await ChatService.runTools(analysisService, message, reports, history);
+
+      const aiResponse = await analysisService.generateCustomResponse(
         message,
-        analysisContext,
-        reportContent
+        reports,
+        passages,
+        history,
+        toolCalls
       );
 
-      // Generate or use existing conversation ID
-      const chatConversationId = conversationId || uuidv4();
-
-      // Save chat message to database
-      const { data: chatRecord, error: chatError } = await supabase
-        .from(TABLES.CHAT_MESSAGES)
-        .insert({
-          id: uuidv4(),
-          user_id: user.id,
-          analysis_id: analysisId || null,
-          message: message.trim(),
-          response: aiResponse,
-          timestamp: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (chatError) {
-        console.error('Chat save error:', chatError);
-        // Continue with response even if saving fails
-      }
+      const citations = DocumentRetrievalService.citationsFor(aiResponse, passages);
+      const followUps = await ChatSuggestionService.followUps(analysisService, message, aiResponse, reports);
+
+      // Save chat message to database; the response is returned even if saving fails
+      const saved = await ConversationService.addExchange(user.id, conversation?.id, {
+        analysisIds,
+        message,
+        response: aiResponse,
+        citations,
+        toolCalls,
+        model: analysisService.modelId,
+        promptVersion: CHAT_PROMPT_VERSION
+      });
 
       const response: ChatQueryResponse = {
+        id: saved.messageId || undefined,
         response: aiResponse,
-        conversationId: chatConversationId,
+        conversationId: saved.conversationId || undefined,
+        citations,
+        toolCalls,
+        followUps,
         timestamp: new Date(),
-        analysisContext: !!analysisContext
+        analysisContext: reports.length > 0
       };
 
       return NextResponse.json<ApiResponse<ChatQueryResponse>>({
@@ -164,9 +145,12 @@ export async function POST(request: NextRequest) {
       // Return a helpful error response
       const fallbackResponse: ChatQueryResponse = {
         response: "I'm sorry, I'm having trouble processing your question right now. Please try again in a moment, or contact support if the issue persists.",
-        conversationId: conversationId || uuidv4(),
+        conversationId: conversation?.id,
+        citations: [],
+        toolCalls: [],
+        followUps: [],
         timestamp: new Date(),
-        analysisContext: !!analysisContext
+        analysisContext: reports.length > 0
       };
 
       return NextResponse.json<ApiResponse<ChatQueryResponse>>({
@@ -203,6 +187,7 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
     const analysisId = searchParams.get('analysisId');
+    const conversationId = searchParams.get('conversationId');
     
     const offset = (page - 1) * limit;
 
@@ -218,6 +203,10 @@ export async function GET(request: NextRequest) {
       query = query.eq('analysis_id', analysisId);
     }
 
+    if (conversationId) {
+      query = query.eq('conversation_id', conversationId);
+    }
+
     // Apply pagination
     query = query.range(offset, offset + limit - 1);
 
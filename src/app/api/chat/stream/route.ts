@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkSubscriptionTier, checkRateLimit } from '@/lib/auth';
+import { CHAT_PROMPT_VERSION, GeminiAnalysisService } from '@/lib/gemini';
+import { getLLMProviderForUser } from '@/lib/llm-provider';
+import ChatService from '@/lib/chat';
+import ConversationService from '@/lib/conversations';
+import DocumentRetrievalService from '@/lib/document-retrieval';
+import ChatSuggestionService from '@/lib/chat-suggestions';
+import { ApiResponse, ChatCitation } from '@/types';
+
+interface ChatStreamRequest {
+  message: string;
+  analysisId?: string;
+  analysisIds?: string[]; // compare several analyses; takes precedence over analysisId
+  conversationId?: string;
+}
+
+// Streams the answer as Server-Sent Events:
+//   tools  {toolCalls}                               calculations run before answering
+//   token  {text}                                    a fragment of the answer
+//   done   {id, conversationId, response, citations, toolCalls, followUps, timestamp, analysisContext}
+//   error  {error}
+// The exchange is saved to chat_messages once the answer is complete, in a new
+// conversation when none was given; closing the connection cancels generation
+// and nothing is saved
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Check subscription tier for chat functionality
+    if (!(await checkSubscriptionTier(user.id, 'pro'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'AI Chat requires Pro or Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    // Shares the query route's limit of 20 queries per minute
+    const rateLimit = checkRateLimit(`chat_${user.id}`, 20, 60 * 1000);
+    if (!rateLimit.allowed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Too many chat queries. Please wait before sending another message.'
+      }, { status: 429 });
+    }
+
+    const body: ChatStreamRequest = await request.json();
+    const { message, conversationId } = body;
+
+    const validationError = ChatService.validateMessage(message);
+    if (validationError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: validationError
+      }, { status: 400 });
+    }
+
+    const requested = ChatService.parseAnalysisIds(body);
+    if ('error' in requested) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: requested.error
+      }, { status: 400 });
+    }
+
+    // Continue an existing thread; without one a new thread is started
+    const conversation = conversationId ? await ConversationService.get(user.id, conversationId) : null;
+    if (conversationId && !conversation) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Conversation not found'
+      }, { status: 404 });
+    }
+
+    // Requested analyses, else the thread's analyses
+    const analysisIds = requested.analysisIds.length > 0 ? requested.analysisIds : conversation?.analysisIds || [];
+    const { reports, passages } = await ChatService.loadContext(user.id, analysisIds, message);
+    const analysisService = new GeminiAnalysisService(await getLLMProviderForUser(user.id));
+    const history = conversation
+      ? await ConversationService.getHistory(conversation.id, analysisService)
+      : undefined;
+
+    // Aborted when the client disconnects or cancels the response body
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        let response = '';
+
+        try {
+          const toolCalls = await ChatService.runTools(analysisService, message, reports, history, abort.signal);
+          if (toolCalls.length > 0) {
+            send('tools', { toolCalls });
+          }
+
+          for await (const text of analysisService.streamCustomResponse(
+            message,
+            reports,
+            passages,
+            history,
+            toolCalls,
+            abort.signal
+          )) {
+            if (abort.signal.aborted) break;
+            response += text;
+            send('token', { text });
+          }
+
+          if (abort.signal.aborted) return;
+
+          const citations: ChatCitation[] = DocumentRetrievalService.citationsFor(response, passages);
+          const saved = await ConversationService.addExchange(user.id, conversation?.id, {
+            analysisIds,
+            message,
+            response,
+            citations,
+            toolCalls,
+            model: analysisService.modelId,
+            promptVersion: CHAT_PROMPT_VERSION
+          });
+
+          const followUps = await ChatSuggestionService.followUps(analysisService, message, response, reports, abort.signal);
+          if (abort.signal.aborted) return;
+
+          send('done', {
+            id: saved.messageId,
+            conversationId: saved.conversationId,
+            response,
+            citations,
+            toolCalls,
+            followUps,
+            timestamp: new Date(),
+            analysisContext: reports.length > 0
+          });
+
+        } catch (error) {
+          if (abort.signal.aborted) return;
+
+          console.error('Chat stream error:', error);
+          send('error', {
+            error: "I'm sorry, I'm having trouble processing your question right now. Please try again in a moment, or contact support if the issue persists."
+          });
+
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+      },
+
+      cancel() {
+        abort.abort();
+      }
+    });
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no' // disable proxy buffering so tokens arrive as they are sent
+      }
+    });
+
+  } catch (error) {
+    console.error('Chat stream error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkSubscriptionTier, checkRateLimit } from '@/lib/auth';
+import { GeminiAnalysisService } from '@/lib/gemini';
+import { getLLMProviderForUser } from '@/lib/llm-provider';
+import { MAX_CHAT_ANALYSES } from '@/lib/chat';
+import ChatSuggestionService from '@/lib/chat-suggestions';
+import { ApiResponse } from '@/types';
+
+// Starter questions for the analyses a chat is about (?analysisId=, repeated
+// for a comparison), generated on first request and cached with each analysis
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Check subscription tier for chat functionality
+    if (!(await checkSubscriptionTier(user.id, 'pro'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'AI Chat requires Pro or Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    // Rate limiting; questions that fall back after a failed generation are
+    // not cached, so each request can reach the model
+    const rateLimit = checkRateLimit(`chat_suggestions_${user.id}`, 20, 60 * 1000); // 20 requests per minute
+    if (!rateLimit.allowed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Too many suggestion requests. Please wait before trying again.'
+      }, { status: 429 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const analysisIds = Array.from(new Set(searchParams.getAll('analysisId').filter(Boolean)));
+
+    if (analysisIds.length === 0) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'analysisId is required'
+      }, { status: 400 });
+    }
+
+    if (analysisIds.length > MAX_CHAT_ANALYSES) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `A chat can compare at most ${MAX_CHAT_ANALYSES} analyses`
+      }, { status: 400 });
+    }
+
+    const analysisService = new GeminiAnalysisService(await getLLMProviderForUser(user.id));
+    const questions = await ChatSuggestionService.getStarterQuestions(user.id, analysisIds, analysisService);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { questions },
+      message: 'Suggested questions retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Chat suggestions error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiResponse } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Get company with its files
+    const { data: company, error } = await supabase
+      .from(TABLES.COMPANIES)
+      .select(`
+        *,
+        files(
+          id,
+          file_name,
+          file_type,
+          upload_date,
+          analysis_status
+        )
+      `)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !company) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Company not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: company,
+      message: 'Company retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get company error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Company name is required'
+      }, { status: 400 });
+    }
+
+    const { data: company, error } = await supabase
+      .from(TABLES.COMPANIES)
+      .update({ name })
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error || !company) {
+      if (error?.code === '23505') {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'A company with this name already exists'
+        }, { status: 409 });
+      }
+
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Company not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: company,
+      message: 'Company updated successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Update company error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Files keep their analyses; company_id is cleared by ON DELETE SET NULL
+    const { error } = await supabase
+      .from(TABLES.COMPANIES)
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Company deletion error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to delete company'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Company deleted successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Delete company error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
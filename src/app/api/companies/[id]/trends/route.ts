@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest } from '@/lib/auth';
+import TrendAnalysisService from '@/lib/trend-analysis';
+import { ApiResponse, TrendSeries } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Verify company ownership
+    const { data: company, error } = await supabase
+      .from(TABLES.COMPANIES)
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !company) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Company not found'
+      }, { status: 404 });
+    }
+
+    const trend = await TrendAnalysisService.loadCompanyTrend(params.id, user.id);
+
+    return NextResponse.json<ApiResponse<TrendSeries>>({
+      success: true,
+      data: trend,
+      message: 'Company trends retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get company trends error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiResponse } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    // Get companies with their file counts
+    const { data: companies, error } = await supabase
+      .from(TABLES.COMPANIES)
+      .select('*, files(count)')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Companies query error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to fetch companies'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: companies || [],
+      message: 'Companies retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get companies error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Company name is required'
+      }, { status: 400 });
+    }
+
+    const { data: company, error } = await supabase
+      .from(TABLES.COMPANIES)
+      .insert({
+        id: uuidv4(),
+        user_id: user.id,
+        name
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Unique violation on (user_id, name)
+      if (error.code === '23505') {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'A company with this name already exists'
+        }, { status: 409 });
+      }
+
+      console.error('Company creation error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to create company'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: company,
+      message: 'Company created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create company error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
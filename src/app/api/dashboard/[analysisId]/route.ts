@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabase, TABLES } from '@/lib/supabase';
 import { authenticateRequest } from '@/lib/auth';
 import DashboardService from '@/lib/dashboard';
+import TrendAnalysisService from '@/lib/trend-analysis';
 import { ApiResponse } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -30,7 +31,9 @@ export async function GET(
         files!inner(
           id,
           file_name,
-          user_id
+          upload_date,
+          user_id,
+          company_id
         )
       `)
       .eq('id', analysisId)
@@ -58,7 +61,8 @@ export async function GET(
       dashboard = existingDashboard;
     } else {
       // Generate new dashboard
-      const dashboardData = DashboardService.generateDashboard(analysis);
+      const trend = await TrendAnalysisService.loadTrendForAnalysis(analysis, user.id);
+      const dashboardData = DashboardService.generateDashboard(analysis, trend);
       
       // Save dashboard to database
       const { data: newDashboard, error: saveError } = await supabase
@@ -134,7 +138,12 @@ export async function POST(
       .from(TABLES.ANALYSES)
       .select(`
         *,
-        files!inner(user_id)
+        files!inner(
+          file_name,
+          upload_date,
+          user_id,
+          company_id
+        )
       `)
       .eq('id', analysisId)
       .eq('files.user_id', user.id)
@@ -154,7 +163,8 @@ export async function POST(
       .eq('analysis_id', analysisId);
 
     // Generate new dashboard
-    const dashboardData = DashboardService.generateDashboard(analysis);
+    const trend = await TrendAnalysisService.loadTrendForAnalysis(analysis, user.id);
+    const dashboardData = DashboardService.generateDashboard(analysis, trend);
     
     // Save new dashboard to database
     const { data: newDashboard, error: saveError } = await supabase
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import ExportHistoryService from '@/lib/export-history';
+import { ApiResponse, ExportResponse } from '@/types';
+
+// Issues a fresh signed URL for a past export whose file is still retained
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const record = await ExportHistoryService.get(authResult.user.id, params.id);
+
+    if (!record) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Export not found'
+      }, { status: 404 });
+    }
+
+    // Notion pages live in the user's workspace
+    if (record.pageUrl) {
+      return NextResponse.json<ApiResponse<ExportResponse>>({
+        success: true,
+        data: {
+          exportId: record.id,
+          downloadUrl: record.pageUrl,
+          format: record.format,
+          message: 'Notion page link retrieved'
+        },
+        message: 'Download link generated successfully'
+      }, { status: 200 });
+    }
+
+    if (record.status === 'expired' || !record.storagePath) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'This export has expired. Generate a new export instead.'
+      }, { status: 410 });
+    }
+
+    const signedUrl = await ExportHistoryService.createSignedUrl(record.storagePath);
+
+    return NextResponse.json<ApiResponse<ExportResponse>>({
+      success: true,
+      data: {
+        exportId: record.id,
+        downloadUrl: signedUrl.url,
+        expiresAt: signedUrl.expiresAt,
+        format: record.format,
+        message: `${record.format.toUpperCase()} download link regenerated`
+      },
+      message: 'Download link generated successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Regenerate export URL error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import ExportHistoryService from '@/lib/export-history';
+import { ApiResponse } from '@/types';
+
+// Purges export files past their retention period; called by a scheduler (cron)
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.JOB_RUNNER_SECRET;
+    const authHeader = request.headers.get('authorization');
+
+    if (!secret || authHeader !== `Bearer ${secret}`) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const purged = await ExportHistoryService.purgeExpired();
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { purged },
+      message: `Purged ${purged} expired export${purged === 1 ? '' : 's'}`
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Export cleanup error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
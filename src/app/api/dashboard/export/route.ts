@@ -2,9 +2,77 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabase, STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
 import { authenticateRequest, checkSubscriptionTier } from '@/lib/auth';
 import DashboardService from '@/lib/dashboard';
-import { ApiResponse, ExportRequest, ExportResponse } from '@/types';
+import TrendAnalysisService from '@/lib/trend-analysis';
+import PDFExportService from '@/lib/pdf-export';
+import DocxExportService from '@/lib/docx-export';
+import ExcelExportService from '@/lib/excel-export';
+import NotionService from '@/lib/notion';
+import ExportTemplateService from '@/lib/export-templates';
+import ExportHistoryService from '@/lib/export-history';
+import ReportThemeService from '@/lib/report-themes';
+import { ApiResponse, ExportData, ExportRequest, ExportRecord, ExportResponse, ExportTemplate, PaginatedResponse } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
+const EXPORT_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  word: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+const EXPORT_EXTENSIONS: Record<string, string> = {
+  pdf: 'pdf',
+  word: 'docx',
+  xlsx: 'xlsx',
+  markdown: 'md',
+  html: 'html'
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const { searchParams } = new URL(request.url);
+
+    // Parse query parameters
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50);
+    const analysisId = searchParams.get('analysisId');
+    const format = searchParams.get('format');
+
+    const { records, total } = await ExportHistoryService.list(user.id, { page, limit, analysisId, format });
+
+    const response: PaginatedResponse<ExportRecord> = {
+      success: true,
+      data: records,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+
+    return NextResponse.json(response, { status: 200 });
+
+  } catch (error) {
+    console.error('Get exports error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Authenticate user
@@ -18,7 +86,8 @@ export async function POST(request: NextRequest) {
 
     const user = authResult.user;
     const body: ExportRequest = await request.json();
-    const { analysisId, format, sections = [] } = body;
+    const { analysisId, format, notionParent, templateId, themeId } = body;
+    let sections = body.sections || [];
 
     if (!analysisId || !format) {
       return NextResponse.json<ApiResponse>({
@@ -27,15 +96,15 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    if (!['pdf', 'word', 'notion'].includes(format)) {
+    if (!['pdf', 'word', 'notion', 'xlsx', 'markdown', 'html'].includes(format)) {
       return NextResponse.json<ApiResponse>({
         success: false,
-        error: 'Invalid format. Supported formats: pdf, word, notion'
+        error: 'Invalid format. Supported formats: pdf, word, notion, xlsx, markdown, html'
       }, { status: 400 });
     }
 
     // Check subscription tier for advanced export formats
-    if ((format === 'word' || format === 'notion') && !(await checkSubscriptionTier(user.id, 'pro'))) {
+    if (format !== 'pdf' && !(await checkSubscriptionTier(user.id, 'pro'))) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: `${format.toUpperCase()} export requires Pro or Enterprise subscription`
@@ -50,7 +119,9 @@ export async function POST(request: NextRequest) {
         files!inner(
           id,
           file_name,
-          user_id
+          upload_date,
+          user_id,
+          company_id
         ),
         dashboards(*)
       `)
@@ -68,7 +139,8 @@ export async function POST(request: NextRequest) {
     // Get or generate dashboard if it doesn't exist
     let dashboard = analysis.dashboards?.[0];
     if (!dashboard) {
-      const dashboardData = DashboardService.generateDashboard(analysis);
+      const trend = await TrendAnalysisService.loadTrendForAnalysis(analysis, user.id);
+      const dashboardData = DashboardService.generateDashboard(analysis, trend);
       
       const { data: newDashboard, error: dashboardError } = await supabase
         .from(TABLES.DASHBOARDS)
@@ -92,25 +164,97 @@ export async function POST(request: NextRequest) {
       dashboard = newDashboard;
     }
 
-    // Generate export data
-    const exportData = DashboardService.generateExportData(analysis, dashboard);
+    // Templated formats fall back to the template's sections when none are requested
+    let template: ExportTemplate | null = null;
+    if (format === 'markdown' || format === 'html') {
+      template = await ExportTemplateService.resolve(user.id, format, templateId);
+      if (!template) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Export template not found'
+        }, { status: 404 });
+      }
 
-    // Filter sections if specified
-    if (sections.length > 0) {
-      const filteredData = { ...exportData };
-      const allowedSections = ['summary', 'kpis', 'charts', 'insights', 'risks', 'opportunities', 'recommendations'];
-      
-      Object.keys(filteredData).forEach(key => {
-        if (!sections.includes(key) && allowedSections.includes(key)) {
-          delete (filteredData as any)[key];
-        }
-      });
-      
-      Object.assign(exportData, filteredData);
+      if (sections.length === 0) {
+        sections = template.sections;
+      }
+    }
+
+    // Branding is an Enterprise feature; other tiers export with the default look
+    let theme = ReportThemeService.getDefaultTheme();
+    if (await checkSubscriptionTier(user.id, 'enterprise')) {
+      const resolvedTheme = await ReportThemeService.resolve(user.id, themeId);
+      if (!resolvedTheme) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Report theme not found'
+        }, { status: 404 });
+      }
+      theme = resolvedTheme;
+    } else if (themeId) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Branded report themes require an Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    // Generate export data with only the requested sections
+    const exportData = DashboardService.selectSections(
+      ReportThemeService.apply(DashboardService.generateExportData(analysis, dashboard), theme),
+      sections
+    );
+
+    // Add the export to the user's history; a failure here does not fail the export
+    const recordExport = async (target: { storagePath?: string; pageUrl?: string; fileSize?: number }) => {
+      try {
+        return await ExportHistoryService.record(user.id, {
+          analysisId,
+          format,
+          sections: DashboardService.includedSections(exportData),
+          templateId: template && !ExportTemplateService.isBuiltIn(template.id) ? template.id : null,
+          themeId: theme.id === ReportThemeService.getDefaultTheme().id ? null : theme.id,
+          ...target
+        });
+      } catch (error) {
+        console.error('Export history error:', error);
+        return null;
+      }
+    };
+
+    // Notion exports create a page in the user's workspace instead of a file
+    if (format === 'notion') {
+      if (!(await NotionService.getConnection(user.id))) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Connect a Notion workspace before exporting to Notion'
+        }, { status: 400 });
+      }
+
+      try {
+        const page = await NotionService.exportReport(user.id, exportData, analysis.files.file_name, notionParent);
+        const record = await recordExport({ pageUrl: page.url });
+
+        return NextResponse.json<ApiResponse<ExportResponse>>({
+          success: true,
+          data: {
+            exportId: record?.id,
+            downloadUrl: page.url,
+            format,
+            message: 'Notion page created successfully'
+          },
+          message: 'Export generated successfully'
+        }, { status: 200 });
+      } catch (error) {
+        console.error('Notion export error:', error);
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Failed to export to Notion: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }, { status: 502 });
+      }
     }
 
     // Generate export file based on format
-    const exportResult = await this.generateExportFile(exportData, format, analysis.files.file_name);
+    const exportResult = await generateExportFile(exportData, format, analysis.files.file_name, template);
     
     if (!exportResult.success) {
       return NextResponse.json<ApiResponse>({
@@ -120,11 +264,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Store export file in Supabase Storage
-    const exportFileName = `${user.id}/${uuidv4()}-export.${format === 'word' ? 'docx' : format}`;
+    const exportFileName = `${user.id}/${uuidv4()}-export.${EXPORT_EXTENSIONS[format]}`;
     
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from(STORAGE_BUCKETS.EXPORTS)
       .upload(exportFileName, exportResult.fileBuffer!, {
+        contentType: EXPORT_CONTENT_TYPES[format],
         cacheControl: '3600',
         upsert: false
       });
@@ -137,12 +282,16 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    // Generate signed URL for download
-    const { data: urlData, error: urlError } = await supabase.storage
-      .from(STORAGE_BUCKETS.EXPORTS)
-      .createSignedUrl(exportFileName, 3600); // 1 hour expiry
+    const record = await recordExport({
+      storagePath: exportFileName,
+      fileSize: exportResult.fileBuffer!.length
+    });
 
-    if (urlError || !urlData) {
+    // Generate signed URL for download
+    let signedUrl: { url: string; expiresAt: Date };
+    try {
+      signedUrl = await ExportHistoryService.createSignedUrl(exportFileName);
+    } catch (urlError) {
       console.error('Export URL generation error:', urlError);
       return NextResponse.json<ApiResponse>({
         success: false,
@@ -151,8 +300,9 @@ export async function POST(request: NextRequest) {
     }
 
     const response: ExportResponse = {
-      downloadUrl: urlData.signedUrl,
-      expiresAt: new Date(Date.now() + 3600 * 1000), // 1 hour from now
+      exportId: record?.id,
+      downloadUrl: signedUrl.url,
+      expiresAt: signedUrl.expiresAt,
       format: format,
       message: `${format.toUpperCase()} export generated successfully`
     };
@@ -175,9 +325,10 @@ export async function POST(request: NextRequest) {
    * Generate export file in the specified format
    */
   async function generateExportFile(
-    data: any,
+    data: ExportData,
     format: string,
-    originalFileName: string
+    originalFileName: string,
+    template: ExportTemplate | null
   ): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
     try {
       switch (format) {
@@ -185,8 +336,11 @@ export async function POST(request: NextRequest) {
           return await generatePDFExport(data, originalFileName);
         case 'word':
           return await generateWordExport(data, originalFileName);
-        case 'notion':
-          return await generateNotionExport(data, originalFileName);
+        case 'xlsx':
+          return await generateExcelExport(data, originalFileName);
+        case 'markdown':
+        case 'html':
+          return generateTemplatedExport(data, originalFileName, template!);
         default:
           return { success: false, error: 'Unsupported export format' };
       }
@@ -200,151 +354,34 @@ export async function POST(request: NextRequest) {
   }
 
   /**
-   * Generate PDF export (simplified implementation)
+   * Generate PDF export
    */
-  async function generatePDFExport(data: any, fileName: string): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
-    // This is a simplified implementation
-    // In production, you would use a library like puppeteer, jsPDF, or PDFKit
-    
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>${data.title}</title>
-        <style>
-          body { font-family: Arial, sans-serif; margin: 20px; }
-          .header { border-bottom: 2px solid #333; padding-bottom: 10px; margin-bottom: 20px; }
-          .section { margin-bottom: 30px; }
-          .kpi-grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 10px; }
-          .kpi-item { padding: 10px; border: 1px solid #ddd; border-radius: 5px; }
-          .list-item { margin: 5px 0; padding: 5px; background: #f5f5f5; border-radius: 3px; }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <h1>${data.title}</h1>
-          <p>Original File: ${fileName}</p>
-          <p>Generated: ${new Date().toLocaleString()}</p>
-        </div>
-        
-        <div class="section">
-          <h2>Executive Summary</h2>
-          <p>${data.summary}</p>
-        </div>
-        
-        <div class="section">
-          <h2>Key Performance Indicators</h2>
-          <div class="kpi-grid">
-            ${Object.entries(data.kpis).map(([key, value]) => 
-              `<div class="kpi-item"><strong>${key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}:</strong> ${value}</div>`
-            ).join('')}
-          </div>
-        </div>
-        
-        <div class="section">
-          <h2>Key Insights</h2>
-          ${data.insights.map((insight: any) => 
-            `<div class="list-item"><strong>${insight.title}:</strong> ${insight.description}</div>`
-          ).join('')}
-        </div>
-        
-        <div class="section">
-          <h2>Identified Risks</h2>
-          ${data.risks.map((risk: string) => `<div class="list-item">• ${risk}</div>`).join('')}
-        </div>
-        
-        <div class="section">
-          <h2>Growth Opportunities</h2>
-          ${data.opportunities.map((opp: string) => `<div class="list-item">• ${opp}</div>`).join('')}
-        </div>
-        
-        <div class="section">
-          <h2>Recommendations</h2>
-          ${data.recommendations.map((rec: string) => `<div class="list-item">• ${rec}</div>`).join('')}
-        </div>
-      </body>
-      </html>
-    `;
-
-    // For now, return HTML content as buffer
-    // In production, convert HTML to PDF using puppeteer or similar
-    const fileBuffer = Buffer.from(htmlContent, 'utf-8');
-    
+  async function generatePDFExport(data: ExportData, fileName: string): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
+    const fileBuffer = await PDFExportService.generate(data, fileName);
     return { success: true, fileBuffer };
   }
 
   /**
-   * Generate Word export (simplified implementation)
+   * Generate Word export
    */
-  async function generateWordExport(data: any, fileName: string): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
-    // This is a simplified implementation
-    // In production, you would use a library like docx or officegen
-    
-    const docContent = `
-FINANCIAL ANALYSIS REPORT
-========================
-
-Original File: ${fileName}
-Generated: ${new Date().toLocaleString()}
-
-EXECUTIVE SUMMARY
-================
-${data.summary}
-
-KEY PERFORMANCE INDICATORS
-==========================
-${Object.entries(data.kpis).map(([key, value]) => 
-  `${key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}: ${value}`
-).join('\n')}
-
-KEY INSIGHTS
-============
-${data.insights.map((insight: any) => 
-  `${insight.title}: ${insight.description}`
-).join('\n\n')}
-
-IDENTIFIED RISKS
-===============
-${data.risks.map((risk: string) => `• ${risk}`).join('\n')}
-
-GROWTH OPPORTUNITIES
-===================
-${data.opportunities.map((opp: string) => `• ${opp}`).join('\n')}
-
-RECOMMENDATIONS
-===============
-${data.recommendations.map((rec: string) => `• ${rec}`).join('\n')}
-    `;
-
-    // For now, return text content as buffer
-    // In production, generate actual Word document
-    const fileBuffer = Buffer.from(docContent, 'utf-8');
-    
+  async function generateWordExport(data: ExportData, fileName: string): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
+    const fileBuffer = await DocxExportService.generate(data, fileName);
     return { success: true, fileBuffer };
   }
 
   /**
-   * Generate Notion export (simplified implementation)
+   * Generate Excel workbook export
    */
-  async function generateNotionExport(data: any, fileName: string): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
-    // This is a simplified implementation
-    // In production, you would integrate with Notion API
-    
-    const notionContent = {
-      title: data.title,
-      originalFile: fileName,
-      generatedAt: new Date().toISOString(),
-      summary: data.summary,
-      kpis: data.kpis,
-      insights: data.insights,
-      risks: data.risks,
-      opportunities: data.opportunities,
-      recommendations: data.recommendations,
-      instructions: "Import this JSON into Notion using the Notion API or a Notion integration tool."
-    };
+  async function generateExcelExport(data: ExportData, fileName: string): Promise<{ success: boolean; fileBuffer?: Buffer; error?: string }> {
+    const fileBuffer = await ExcelExportService.generate(data, fileName);
+    return { success: true, fileBuffer };
+  }
 
-    const fileBuffer = Buffer.from(JSON.stringify(notionContent, null, 2), 'utf-8');
-    
+  /**
+   * Generate Markdown or HTML export from a template
+   */
+  function generateTemplatedExport(data: ExportData, fileName: string, template: ExportTemplate): { success: boolean; fileBuffer?: Buffer; error?: string } {
+    const fileBuffer = Buffer.from(ExportTemplateService.render(template, data, fileName), 'utf-8');
     return { success: true, fileBuffer };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest, requireAdmin } from '@/lib/auth';
+import ExportTemplateService from '@/lib/export-templates';
+import { ApiResponse, AuthUser } from '@/types';
+
+/**
+ * Template visible to the user; shared templates are only editable by admins
+ */
+async function findTemplate(id: string, user: AuthUser, forUpdate = false) {
+  const { data: template } = await supabase
+    .from(TABLES.EXPORT_TEMPLATES)
+    .select('*')
+    .eq('id', id)
+    .or(`user_id.eq.${user.id},user_id.is.null`)
+    .single();
+
+  if (!template) {
+    return { template: null, status: 404, error: 'Export template not found' };
+  }
+  if (forUpdate && template.user_id === null && !requireAdmin(user)) {
+    return { template: null, status: 403, error: 'Only admins can modify shared templates' };
+  }
+  return { template, status: 200, error: null };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { template, status, error } = await findTemplate(params.id, authResult.user);
+    if (!template) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: error!
+      }, { status });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: template,
+      message: 'Export template retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get export template error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { template: existing, status, error: lookupError } = await findTemplate(params.id, authResult.user, true);
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: lookupError!
+      }, { status });
+    }
+
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Template name cannot be empty'
+        }, { status: 400 });
+      }
+      updates.name = name;
+    }
+
+    if (body.content !== undefined) {
+      const syntaxError = typeof body.content === 'string' && body.content
+        ? ExportTemplateService.validate(body.content)
+        : 'Template content cannot be empty';
+      if (syntaxError) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Invalid template: ${syntaxError}`
+        }, { status: 400 });
+      }
+      updates.content = body.content;
+    }
+
+    if (Array.isArray(body.sections)) {
+      updates.sections = body.sections.filter((section: unknown) => typeof section === 'string');
+    }
+
+    if (typeof body.isDefault === 'boolean') {
+      if (body.isDefault) {
+        await ExportTemplateService.clearDefault(existing.user_id, existing.format, existing.id);
+      }
+      updates.is_default = body.isDefault;
+    }
+
+    const { data: template, error } = await supabase
+      .from(TABLES.EXPORT_TEMPLATES)
+      .update(updates)
+      .eq('id', existing.id)
+      .select()
+      .single();
+
+    if (error || !template) {
+      console.error('Export template update error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to update export template'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: template,
+      message: 'Export template updated successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Update export template error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { template, status, error: lookupError } = await findTemplate(params.id, authResult.user, true);
+    if (!template) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: lookupError!
+      }, { status });
+    }
+
+    const { error } = await supabase
+      .from(TABLES.EXPORT_TEMPLATES)
+      .delete()
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Export template deletion error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to delete export template'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Export template deleted successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Delete export template error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest, requireAdmin } from '@/lib/auth';
+import ExportTemplateService from '@/lib/export-templates';
+import { ApiResponse } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+const TEMPLATE_FORMATS = ['markdown', 'html'];
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const format = request.nextUrl.searchParams.get('format');
+
+    if (format && !TEMPLATE_FORMATS.includes(format)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid format. Supported formats: markdown, html'
+      }, { status: 400 });
+    }
+
+    // Own templates plus the organization-wide ones
+    let query = supabase
+      .from(TABLES.EXPORT_TEMPLATES)
+      .select('*')
+      .or(`user_id.eq.${user.id},user_id.is.null`)
+      .order('name', { ascending: true });
+
+    if (format) {
+      query = query.eq('format', format);
+    }
+
+    const { data: templates, error } = await query;
+
+    if (error) {
+      console.error('Export templates query error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to fetch export templates'
+      }, { status: 500 });
+    }
+
+    // Built-in templates are always available as a starting point
+    const builtIn = (format ? [format] : TEMPLATE_FORMATS)
+      .map(templateFormat => ExportTemplateService.getBuiltInTemplate(templateFormat as 'markdown' | 'html'));
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        templates: templates || [],
+        builtIn
+      },
+      message: 'Export templates retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get export templates error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const content = typeof body.content === 'string' ? body.content : '';
+    const sections = Array.isArray(body.sections) ? body.sections.filter((section: unknown) => typeof section === 'string') : [];
+
+    if (!name || !content || !TEMPLATE_FORMATS.includes(body.format)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Template name, content and format (markdown or html) are required'
+      }, { status: 400 });
+    }
+
+    const syntaxError = ExportTemplateService.validate(content);
+    if (syntaxError) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: `Invalid template: ${syntaxError}`
+      }, { status: 400 });
+    }
+
+    // Shared templates belong to the organization rather than a user
+    if (body.shared && !requireAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only admins can create shared templates'
+      }, { status: 403 });
+    }
+
+    const ownerId = body.shared ? null : user.id;
+    const isDefault = body.isDefault === true;
+
+    if (isDefault) {
+      await ExportTemplateService.clearDefault(ownerId, body.format);
+    }
+
+    const { data: template, error } = await supabase
+      .from(TABLES.EXPORT_TEMPLATES)
+      .insert({
+        id: uuidv4(),
+        user_id: ownerId,
+        name,
+        format: body.format,
+        content,
+        sections,
+        is_default: isDefault
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Export template creation error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to create export template'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: template,
+      message: 'Export template created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create export template error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest, checkSubscriptionTier, requireAdmin } from '@/lib/auth';
+import ReportThemeService from '@/lib/report-themes';
+import { ApiResponse, AuthUser } from '@/types';
+
+/**
+ * Theme visible to an Enterprise user; shared themes are only editable by admins
+ */
+async function findTheme(id: string, user: AuthUser, forUpdate = false) {
+  if (!(await checkSubscriptionTier(user.id, 'enterprise'))) {
+    return { theme: null, status: 403, error: 'Branded report themes require an Enterprise subscription' };
+  }
+
+  const { data: theme } = await supabase
+    .from(TABLES.REPORT_THEMES)
+    .select('*')
+    .eq('id', id)
+    .or(`user_id.eq.${user.id},user_id.is.null`)
+    .single();
+
+  if (!theme) {
+    return { theme: null, status: 404, error: 'Report theme not found' };
+  }
+  if (forUpdate && theme.user_id === null && !requireAdmin(user)) {
+    return { theme: null, status: 403, error: 'Only admins can modify shared themes' };
+  }
+  return { theme, status: 200, error: null };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { theme, status, error } = await findTheme(params.id, authResult.user);
+    if (!theme) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: error!
+      }, { status });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: ReportThemeService.toTheme(theme),
+      message: 'Report theme retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get report theme error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { theme: existing, status, error: lookupError } = await findTheme(params.id, authResult.user, true);
+    if (!existing) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: lookupError!
+      }, { status });
+    }
+
+    const body = await request.json();
+    const current = ReportThemeService.toTheme(existing);
+
+    // Colours and fonts are updated key by key
+    const parsed = ReportThemeService.parse({
+      ...body,
+      colors: body.colors ? { ...current.colors, ...body.colors } : undefined,
+      fonts: body.fonts ? { ...current.fonts, ...body.fonts } : undefined
+    }, true);
+
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const updates: Record<string, unknown> = { ...parsed.values };
+
+    if (typeof body.isDefault === 'boolean') {
+      if (body.isDefault) {
+        await ReportThemeService.clearDefault(existing.user_id, existing.id);
+      }
+      updates.is_default = body.isDefault;
+    }
+
+    const { data: theme, error } = await supabase
+      .from(TABLES.REPORT_THEMES)
+      .update(updates)
+      .eq('id', existing.id)
+      .select()
+      .single();
+
+    if (error || !theme) {
+      console.error('Report theme update error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to update report theme'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: ReportThemeService.toTheme(theme),
+      message: 'Report theme updated successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Update report theme error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { theme, status, error: lookupError } = await findTheme(params.id, authResult.user, true);
+    if (!theme) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: lookupError!
+      }, { status });
+    }
+
+    // Past exports keep their history; theme_id is cleared by ON DELETE SET NULL
+    const { error } = await supabase
+      .from(TABLES.REPORT_THEMES)
+      .delete()
+      .eq('id', theme.id);
+
+    if (error) {
+      console.error('Report theme deletion error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to delete report theme'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Report theme deleted successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Delete report theme error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkSubscriptionTier } from '@/lib/auth';
+import ReportThemeService from '@/lib/report-themes';
+import PDFExportService from '@/lib/pdf-export';
+import DocxExportService from '@/lib/docx-export';
+import ExportTemplateService from '@/lib/export-templates';
+import { ApiResponse } from '@/types';
+
+const PREVIEW_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  word: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html; charset=utf-8'
+};
+
+const PREVIEW_EXTENSIONS: Record<string, string> = {
+  pdf: 'pdf',
+  word: 'docx',
+  html: 'html'
+};
+
+// Renders a sample report with a saved theme, optionally with unsaved changes
+// from `theme` layered on top, and returns the file itself
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    if (!(await checkSubscriptionTier(user.id, 'enterprise'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Branded report themes require an Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const format = body.format || 'pdf';
+
+    if (!PREVIEW_CONTENT_TYPES[format]) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Invalid format. Supported preview formats: pdf, word, html'
+      }, { status: 400 });
+    }
+
+    let theme = await ReportThemeService.resolve(user.id, body.themeId);
+    if (!theme) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Report theme not found'
+      }, { status: 404 });
+    }
+
+    if (body.theme) {
+      const parsed = ReportThemeService.parse({
+        ...body.theme,
+        colors: body.theme.colors ? { ...theme.colors, ...body.theme.colors } : undefined,
+        fonts: body.theme.fonts ? { ...theme.fonts, ...body.theme.fonts } : undefined
+      }, true);
+
+      if ('error' in parsed) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: parsed.error
+        }, { status: 400 });
+      }
+      theme = ReportThemeService.withChanges(theme, parsed.values);
+    }
+
+    const data = ReportThemeService.previewData(theme);
+    const fileName = 'Sample Financial Statements.pdf';
+    let file: Buffer;
+
+    switch (format) {
+      case 'pdf':
+        file = await PDFExportService.generate(data, fileName);
+        break;
+      case 'word':
+        file = await DocxExportService.generate(data, fileName);
+        break;
+      default: {
+        const template = await ExportTemplateService.resolve(user.id, 'html');
+        file = Buffer.from(ExportTemplateService.render(template!, data, fileName), 'utf-8');
+      }
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      status: 200,
+      headers: {
+        'Content-Type': PREVIEW_CONTENT_TYPES[format],
+        'Content-Disposition': `inline; filename="theme-preview.${PREVIEW_EXTENSIONS[format]}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Report theme preview error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { authenticateRequest, checkSubscriptionTier, requireAdmin } from '@/lib/auth';
+import ReportThemeService from '@/lib/report-themes';
+import { ApiResponse } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    if (!(await checkSubscriptionTier(user.id, 'enterprise'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Branded report themes require an Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    // Own themes plus the organization-wide ones
+    const { data: themes, error } = await supabase
+      .from(TABLES.REPORT_THEMES)
+      .select('*')
+      .or(`user_id.eq.${user.id},user_id.is.null`)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Report themes query error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to fetch report themes'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        themes: (themes || []).map(theme => ReportThemeService.toTheme(theme)),
+        builtIn: ReportThemeService.getDefaultTheme()
+      },
+      message: 'Report themes retrieved successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get report themes error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const user = authResult.user;
+
+    if (!(await checkSubscriptionTier(user.id, 'enterprise'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Branded report themes require an Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = ReportThemeService.parse(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    // Shared themes brand every export in the organization
+    if (body.shared && !requireAdmin(user)) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Only admins can create shared themes'
+      }, { status: 403 });
+    }
+
+    const ownerId = body.shared ? null : user.id;
+    const isDefault = body.isDefault === true;
+
+    if (isDefault) {
+      await ReportThemeService.clearDefault(ownerId);
+    }
+
+    const { data: theme, error } = await supabase
+      .from(TABLES.REPORT_THEMES)
+      .insert({
+        id: uuidv4(),
+        user_id: ownerId,
+        ...parsed.values,
+        is_default: isDefault
+      })
+      .select()
+      .single();
+
+    if (error || !theme) {
+      console.error('Report theme creation error:', error);
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Failed to create report theme'
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: ReportThemeService.toTheme(theme),
+      message: 'Report theme created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create report theme error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
 import { authenticateRequest } from '@/lib/auth';
+import TrendAnalysisService from '@/lib/trend-analysis';
 import { ApiResponse } from '@/types';
 
 export async function GET(
@@ -154,7 +155,7 @@ export async function PATCH(
     // Validate that user owns the file
     const { data: existingFile, error: fetchError } = await supabase
       .from(TABLES.FILES)
-      .select('id')
+      .select('id, company_id')
       .eq('id', fileId)
       .eq('user_id', user.id)
       .single();
@@ -177,6 +178,26 @@ export async function PATCH(
       allowedUpdates.analysis_status = body.analysis_status;
     }
 
+    // Assign the file to one of the user's companies, or null to ungroup it
+    if (body.company_id !== undefined) {
+      if (body.company_id !== null) {
+        const { data: company } = await supabase
+          .from(TABLES.COMPANIES)
+          .select('id')
+          .eq('id', body.company_id)
+          .eq('user_id', user.id)
+          .single();
+
+        if (!company) {
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'Company not found'
+          }, { status: 404 });
+        }
+      }
+      allowedUpdates.company_id = body.company_id;
+    }
+
     if (Object.keys(allowedUpdates).length === 0) {
       return NextResponse.json<ApiResponse>({
         success: false,
@@ -201,6 +222,15 @@ export async function PATCH(
       }, { status: 500 });
     }
 
+    // Regroup changes the trend charts of both the old and the new company
+    if (allowedUpdates.company_id !== undefined && allowedUpdates.company_id !== existingFile.company_id) {
+      await Promise.all(
+        [existingFile.company_id, allowedUpdates.company_id]
+          .filter(Boolean)
+          .map((id: string) => TrendAnalysisService.invalidateCompanyDashboards(id))
+      );
+    }
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: updatedFile,
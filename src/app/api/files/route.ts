@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
+import { supabase, STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
 import { authenticateRequest, checkUploadLimit, checkRateLimit } from '@/lib/auth';
 import { ApiResponse, FileUploadResponse } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
@@ -49,6 +49,7 @@ export async function POST(request: NextRequest) {
     // Parse form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const companyId = formData.get('companyId') as string | null;
 
     if (!file) {
       return NextResponse.json<ApiResponse>({
@@ -73,6 +74,23 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Verify the company belongs to the user when grouping the upload
+    if (companyId) {
+      const { data: company } = await supabase
+        .from(TABLES.COMPANIES)
+        .select('id')
+        .eq('id', companyId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (!company) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Company not found'
+        }, { status: 404 });
+      }
+    }
+
     // Generate unique file path
     const fileId = uuidv4();
     const fileExtension = file.name.split('.').pop();
@@ -134,7 +152,8 @@ export async function POST(request: NextRequest) {
         file_type: fileType,
         file_size: file.size,
         analysis_status: 'pending',
-        supabase_storage_path: storagePath
+        supabase_storage_path: storagePath,
+        company_id: companyId || null
       })
       .select()
       .single();
@@ -209,6 +228,7 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get('limit') || '10'), 50);
     const fileType = searchParams.get('fileType');
     const status = searchParams.get('status');
+    const companyId = searchParams.get('companyId');
     
     const offset = (page - 1) * limit;
 
@@ -228,6 +248,10 @@ export async function GET(request: NextRequest) {
       query = query.eq('analysis_status', status);
     }
 
+    if (companyId) {
+      query = query.eq('company_id', companyId);
+    }
+
     // Apply pagination
     query = query.range(offset, offset + limit - 1);
 
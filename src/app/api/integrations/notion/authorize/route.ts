@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkSubscriptionTier } from '@/lib/auth';
+import NotionService from '@/lib/notion';
+import { ApiResponse } from '@/types';
+
+// Returns the Notion consent URL; the client navigates there and Notion
+// redirects back to the callback route
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    if (!(await checkSubscriptionTier(authResult.user.id, 'pro'))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notion integration requires Pro or Enterprise subscription'
+      }, { status: 403 });
+    }
+
+    return NextResponse.json<ApiResponse<{ authorizeUrl: string }>>({
+      success: true,
+      data: { authorizeUrl: NotionService.getAuthorizeUrl(authResult.user.id) },
+      message: 'Redirect to Notion to connect your workspace'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Notion authorize error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error && error.message === 'Notion integration is not configured'
+        ? error.message
+        : 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import NotionService from '@/lib/notion';
+
+// Notion redirects the browser here after consent. There is no bearer token
+// on this request, so the user comes from the signed state parameter.
+export async function GET(request: NextRequest) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  const redirect = (status: string) => NextResponse.redirect(`${appUrl}/dashboard?notion=${status}`);
+
+  try {
+    const code = request.nextUrl.searchParams.get('code');
+    const state = request.nextUrl.searchParams.get('state');
+
+    // The user declined access
+    if (request.nextUrl.searchParams.get('error') || !code || !state) {
+      return redirect('cancelled');
+    }
+
+    const userId = NotionService.verifyState(state);
+    if (!userId) {
+      return redirect('invalid_state');
+    }
+
+    await NotionService.connect(userId, code);
+    return redirect('connected');
+
+  } catch (error) {
+    console.error('Notion callback error:', error);
+    return redirect('error');
+  }
+}
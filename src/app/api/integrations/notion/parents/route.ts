@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import NotionService from '@/lib/notion';
+import { ApiResponse, NotionParent } from '@/types';
+
+// Pages and databases the user shared with the integration, to pick an export location
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    if (!(await NotionService.getConnection(authResult.user.id))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notion is not connected'
+      }, { status: 404 });
+    }
+
+    const query = request.nextUrl.searchParams.get('query') || '';
+    const parents = await NotionService.searchParents(authResult.user.id, query);
+
+    return NextResponse.json<ApiResponse<NotionParent[]>>({
+      success: true,
+      data: parents,
+      message: `Found ${parents.length} Notion location${parents.length === 1 ? '' : 's'}`
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Search Notion parents error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error && error.message.startsWith('Notion API error')
+        ? error.message
+        : 'Internal server error'
+    }, { status: 500 });
+  }
+}
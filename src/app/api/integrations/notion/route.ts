@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import NotionService from '@/lib/notion';
+import { ApiResponse, NotionConnection } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const connection = await NotionService.getConnection(authResult.user.id);
+
+    return NextResponse.json<ApiResponse<{ connected: boolean; connection: NotionConnection | null }>>({
+      success: true,
+      data: { connected: connection !== null, connection },
+      message: connection ? 'Notion is connected' : 'Notion is not connected'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Get Notion connection error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Set the page or database exports are created under
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parentId = typeof body.parentId === 'string' ? body.parentId.trim() : '';
+    const parentType = body.parentType;
+
+    if (!parentId || (parentType !== 'page' && parentType !== 'database')) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'parentId and a parentType of "page" or "database" are required'
+      }, { status: 400 });
+    }
+
+    if (!(await NotionService.getConnection(authResult.user.id))) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Notion is not connected'
+      }, { status: 404 });
+    }
+
+    const connection = await NotionService.setDefaultParent(authResult.user.id, { id: parentId, type: parentType });
+
+    return NextResponse.json<ApiResponse<NotionConnection>>({
+      success: true,
+      data: connection,
+      message: 'Notion export location saved'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Set Notion parent error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error && error.message.startsWith('Notion API error')
+        ? error.message
+        : 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      }, { status: 401 });
+    }
+
+    await NotionService.disconnect(authResult.user.id);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      message: 'Notion disconnected'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Disconnect Notion error:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
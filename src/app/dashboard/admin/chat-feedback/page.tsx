@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { ChatFeedbackSummary } from '@/types';
+import {
+  HandThumbUpIcon,
+  HandThumbDownIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+interface NegativeAnswer {
+  id: string;
+  message: string;
+  response: string;
+  correction?: string;
+  promptVersion: string;
+  model: string;
+  createdAt: string;
+}
+
+interface FeedbackReport {
+  currentPromptVersion: string;
+  summary: ChatFeedbackSummary[];
+  recentNegative: NegativeAnswer[];
+}
+
+const PERIODS = [7, 30, 90];
+
+export default function ChatFeedbackPage() {
+  const { user } = useAuth();
+  const [days, setDays] = useState(30);
+  const [filter, setFilter] = useState<{ promptVersion: string; model: string } | null>(null);
+  const [report, setReport] = useState<FeedbackReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchReport();
+    }
+  }, [isAdmin, days, filter]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+      const token = session?.access_token;
+
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const params = new URLSearchParams({ days: String(days) });
+      if (filter) {
+        params.set('promptVersion', filter.promptVersion);
+        params.set('model', filter.model);
+      }
+
+      const response = await fetch(`/api/chat/feedback?${params.toString()}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to fetch chat feedback');
+      }
+
+      const result = await response.json();
+      setReport(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chat feedback');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isSelected = (row: ChatFeedbackSummary) =>
+    filter?.promptVersion === row.promptVersion && filter?.model === row.model;
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout currentPage="chat-feedback">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Chat Answer Quality</h1>
+              <p className="text-sm text-gray-600">
+                User ratings of AI chat answers by prompt version and model
+                {report && <> · current prompt version <span className="font-mono">{report.currentPromptVersion}</span></>}
+              </p>
+            </div>
+            <select
+              value={days}
+              onChange={(e) => setDays(parseInt(e.target.value))}
+              className="text-sm border border-gray-300 rounded-md px-2 py-1"
+              disabled={!isAdmin}
+            >
+              {PERIODS.map(period => (
+                <option key={period} value={period}>Last {period} days</option>
+              ))}
+            </select>
+          </div>
+
+          {!isAdmin ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+              <ExclamationTriangleIcon className="h-8 w-8 text-yellow-500 mx-auto mb-2" />
+              <p className="text-gray-700">Admin access required</p>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+          ) : loading && !report ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : report && (
+            <>
+              {/* Feedback by prompt version and model */}
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Prompt version</th>
+                      <th className="px-4 py-2 font-medium">Model</th>
+                      <th className="px-4 py-2 font-medium text-right">Answers</th>
+                      <th className="px-4 py-2 font-medium text-right">Rated</th>
+                      <th className="px-4 py-2 font-medium text-right">
+                        <HandThumbUpIcon className="h-4 w-4 inline" />
+                      </th>
+                      <th className="px-4 py-2 font-medium text-right">
+                        <HandThumbDownIcon className="h-4 w-4 inline" />
+                      </th>
+                      <th className="px-4 py-2 font-medium text-right">Corrections</th>
+                      <th className="px-4 py-2 font-medium text-right">Approval</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.summary.length === 0 ? (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-6 text-center text-gray-500">No chat answers in this period</td>
+                      </tr>
+                    ) : report.summary.map((row) => (
+                      <tr
+                        key={`${row.promptVersion}-${row.model}`}
+                        onClick={() => setFilter(isSelected(row) ? null : { promptVersion: row.promptVersion, model: row.model })}
+                        className={`border-t border-gray-100 cursor-pointer ${isSelected(row) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                      >
+                        <td className="px-4 py-2 font-mono">
+                          {row.promptVersion}
+                          {row.promptVersion === report.currentPromptVersion && (
+                            <span className="ml-2 text-xs font-sans bg-green-100 text-green-700 px-1.5 py-0.5 rounded">current</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 font-mono">{row.model}</td>
+                        <td className="px-4 py-2 text-right">{row.answers}</td>
+                        <td className="px-4 py-2 text-right">{row.rated}</td>
+                        <td className="px-4 py-2 text-right text-green-700">{row.up}</td>
+                        <td className="px-4 py-2 text-right text-red-700">{row.down}</td>
+                        <td className="px-4 py-2 text-right">{row.corrections}</td>
+                        <td className="px-4 py-2 text-right font-medium">
+                          {row.approvalRate === null ? '—' : `${row.approvalRate}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Answers users marked as wrong */}
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="font-semibold text-gray-900">
+                    Recent thumbs-down answers
+                    {filter && <span className="font-normal text-gray-500"> · {filter.promptVersion} / {filter.model}</span>}
+                  </h2>
+                  {filter && (
+                    <button onClick={() => setFilter(null)} className="text-xs text-blue-600 hover:text-blue-800">
+                      Show all
+                    </button>
+                  )}
+                </div>
+
+                {report.recentNegative.length === 0 ? (
+                  <p className="text-sm text-gray-500">No negative feedback in this period</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {report.recentNegative.map((answer) => (
+                      <li key={answer.id} className="py-3 space-y-1 text-sm">
+                        <p className="text-xs text-gray-500">
+                          {new Date(answer.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                          {' · '}<span className="font-mono">{answer.promptVersion}</span>
+                          {' · '}<span className="font-mono">{answer.model}</span>
+                        </p>
+                        <p className="font-medium text-gray-900">Q: {answer.message}</p>
+                        <p className="text-gray-700 line-clamp-3 whitespace-pre-wrap">A: {answer.response}</p>
+                        {answer.correction && (
+                          <p className="text-gray-900 bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+                            Correction: {answer.correction}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
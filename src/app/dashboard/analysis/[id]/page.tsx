@@ -8,6 +8,7 @@ import { FinancialCharts } from '@/components/dashboard/FinancialCharts';
 import { InsightsDisplay } from '@/components/dashboard/InsightsDisplay';
 import { ChatInterface } from '@/components/chat/ChatInterface';
 import { Button } from '@/components/ui/Button';
+import { AnalysisCitations, ComputedKPI } from '@/types';
 import { 
   ChartBarIcon,
   DocumentArrowDownIcon,
@@ -19,6 +20,8 @@ interface AnalysisData {
   id: string;
   summary: string;
   kpis: any;
+  computed_kpis?: ComputedKPI[];
+  citations?: AnalysisCitations | null;
   risks: string[];
   opportunities: string[];
   recommendations: string[];
@@ -91,7 +94,7 @@ export default function AnalysisPage({ params }: { params: { id: string } }) {
     }
   };
 
-  const handleExport = async (format: 'pdf' | 'word' | 'notion') => {
+  const handleExport = async (format: 'pdf' | 'word' | 'notion' | 'xlsx' | 'markdown' | 'html') => {
     try {
       setExporting(true);
 
@@ -218,7 +221,11 @@ export default function AnalysisPage({ params }: { params: { id: string } }) {
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
             <div className={`space-y-8 ${showChat ? 'lg:col-span-3' : 'lg:col-span-4'}`}>
               {/* KPI Cards */}
-              <KPICards kpis={analysis.kpis} />
+              <KPICards
+                kpis={analysis.kpis}
+                computedKpis={analysis.computed_kpis}
+                citations={analysis.citations?.kpis}
+              />
 
               {/* Charts */}
               {dashboard?.chart_data && (
@@ -231,6 +238,7 @@ export default function AnalysisPage({ params }: { params: { id: string } }) {
                 risks={analysis.risks}
                 opportunities={analysis.opportunities}
                 recommendations={analysis.recommendations}
+                citations={analysis.citations || undefined}
               />
             </div>
 
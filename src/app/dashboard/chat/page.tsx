@@ -4,6 +4,8 @@ import React, { useState, useEffect } from 'react';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { ChatInterface } from '@/components/chat/ChatInterface';
+import { ConversationList } from '@/components/chat/ConversationList';
+import { AnalysisPicker } from '@/components/chat/AnalysisPicker';
 import { useAuth } from '@/contexts/AuthContext';
 import { 
   ChatBubbleLeftRightIcon,
@@ -17,6 +19,9 @@ import {
 export default function ChatPage() {
   const { user } = useAuth();
   const [hasAccess, setHasAccess] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationsRefresh, setConversationsRefresh] = useState(0);
+  const [analysisIds, setAnalysisIds] = useState<string[]>([]);
 
   useEffect(() => {
     // Check if user has access to AI Chat (Pro/Enterprise users)
@@ -50,6 +55,18 @@ export default function ChatPage() {
     }
   ];
 
+  // A conversation keeps the reports it was started with
+  const handleSelectConversation = (id: string | null, conversationAnalysisIds: string[] = []) => {
+    setConversationId(id);
+    setAnalysisIds(conversationAnalysisIds);
+  };
+
+  // A new answer moves its thread to the top of the list (and adds it when new)
+  const handleConversationSaved = (id: string) => {
+    setConversationId(id);
+    setConversationsRefresh(prev => prev + 1);
+  };
+
   if (!hasAccess) {
     return (
       <ProtectedRoute>
@@ -81,7 +98,7 @@ export default function ChatPage() {
   return (
     <ProtectedRoute>
       <DashboardLayout currentPage="chat">
-        <div className="max-w-4xl mx-auto space-y-6">
+        <div className="max-w-6xl mx-auto space-y-6">
           {/* Header */}
           <div className="text-center">
             <div className="flex items-center justify-center space-x-2 mb-4">
@@ -121,9 +138,29 @@ export default function ChatPage() {
             ))}
           </div>
 
-          {/* Chat Interface */}
-          <div className="bg-white rounded-lg border border-gray-200 shadow-sm h-96">
-            <ChatInterface className="h-full" />
+          {/* Reports in scope */}
+          <AnalysisPicker
+            selected={analysisIds}
+            onChange={setAnalysisIds}
+            disabled={!!conversationId}
+          />
+
+          {/* Conversations and Chat Interface */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <ConversationList
+              activeId={conversationId}
+              onSelect={handleSelectConversation}
+              refreshTrigger={conversationsRefresh}
+              className="h-48 md:h-[32rem]"
+            />
+            <div className="md:col-span-3 bg-white rounded-lg border border-gray-200 shadow-sm h-[32rem]">
+              <ChatInterface
+                className="h-full"
+                conversationId={conversationId}
+                analysisIds={analysisIds}
+                onConversationSaved={handleConversationSaved}
+              />
+            </div>
           </div>
 
           {/* Pro Features Notice */}
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { DocumentChartBarIcon } from '@heroicons/react/24/outline';
+
+// Matches MAX_CHAT_ANALYSES on the server
+const MAX_SELECTED = 5;
+
+interface AnalysisOption {
+  id: string;
+  fileName: string;
+  createdAt: string;
+}
+
+interface AnalysisPickerProps {
+  selected: string[];
+  onChange: (analysisIds: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function AnalysisPicker({ selected, onChange, disabled = false, className = '' }: AnalysisPickerProps) {
+  const [options, setOptions] = useState<AnalysisOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchAnalyses();
+    }
+  }, [user]);
+
+  const fetchAnalyses = async () => {
+    try {
+      setError(null);
+
+      const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+      const token = session?.access_token;
+
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch('/api/analysis?limit=50', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch analyses');
+      }
+
+      const result = await response.json();
+      setOptions((result.data || []).map((analysis: any) => ({
+        id: analysis.id,
+        fileName: analysis.files?.file_name || 'Untitled report',
+        createdAt: analysis.created_at
+      })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analyses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (analysisId: string) => {
+    if (selected.includes(analysisId)) {
+      onChange(selected.filter(id => id !== analysisId));
+    } else if (selected.length < MAX_SELECTED) {
+      onChange([...selected, analysisId]);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="flex items-center text-sm font-medium text-gray-900">
+          <DocumentChartBarIcon className="h-4 w-4 mr-1 text-gray-500" />
+          Reports to discuss
+        </h3>
+        <span className="text-xs text-gray-500">
+          {disabled
+            ? 'Start a new chat to change the reports'
+            : `Select up to ${MAX_SELECTED} to compare (${selected.length} selected)`}
+        </span>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading analyses...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : options.length === 0 ? (
+        <p className="text-sm text-gray-500">No analyzed reports yet. Upload a report to chat about it.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {options.map((option) => {
+            const index = selected.indexOf(option.id);
+            const isSelected = index >= 0;
+
+            return (
+              <button
+                key={option.id}
+                type="button"
+                disabled={disabled || (!isSelected && selected.length >= MAX_SELECTED)}
+                onClick={() => toggle(option.id)}
+                title={new Date(option.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                className={`text-xs px-2 py-1 rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isSelected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                }`}
+              >
+                {/* Letters match the "Report A", "Report B" labels used in answers */}
+                {isSelected && selected.length > 1 && `${String.fromCharCode(65 + index)} · `}
+                {option.fileName}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
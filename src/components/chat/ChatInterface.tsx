@@ -4,11 +4,18 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { SourceExcerpt } from '@/components/dashboard/SourceExcerpt';
+import { ChatMessageContent } from '@/components/chat/ChatMessageContent';
+import { ChatCitation, ChatFeedbackRating, ChatToolCall } from '@/types';
 import { 
   PaperAirplaneIcon,
   ChatBubbleLeftRightIcon,
   ExclamationTriangleIcon,
-  SparklesIcon
+  SparklesIcon,
+  StopIcon,
+  CalculatorIcon,
+  HandThumbUpIcon,
+  HandThumbDownIcon
 } from '@heroicons/react/24/outline';
 
 interface ChatMessage {
@@ -18,54 +25,255 @@ interface ChatMessage {
   timestamp: Date;
   isUser: boolean;
   analysisContext?: boolean;
+  isStreaming?: boolean;
+  stopped?: boolean;
+  citations?: ChatCitation[];
+  toolCalls?: ChatToolCall[];
+  followUps?: string[];
+  messageId?: string; // stored chat_messages row, once saved
+  feedback?: { rating: ChatFeedbackRating; correction?: string };
 }
 
 interface ChatInterfaceProps {
   analysisId?: string;
+  analysisIds?: string[]; // analyses to compare; overrides analysisId
   analysisContext?: {
     fileName: string;
     summary: string;
   };
+  conversationId?: string | null; // thread to resume; a new one is started when omitted
+  onConversationSaved?: (conversationId: string) => void; // called after each stored answer
   className?: string;
 }
 
-export function ChatInterface({ analysisId, analysisContext, className = '' }: ChatInterfaceProps) {
+export function ChatInterface({
+  analysisId,
+  analysisIds,
+  analysisContext,
+  conversationId,
+  onConversationSaved,
+  className = ''
+}: ChatInterfaceProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [openSourcesId, setOpenSourcesId] = useState<string | null>(null);
+  const [openToolsId, setOpenToolsId] = useState<string | null>(null);
+  const [starterQuestions, setStarterQuestions] = useState<string[]>([]);
+  const [correctionDraft, setCorrectionDraft] = useState<{ id: string; text: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeConversationRef = useRef<string | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  const getWelcomeMessage = (): ChatMessage => ({
+    id: 'welcome',
+    message: '',
+    response: analysisContext 
+      ? `Hello! I'm your AI financial assistant. I can help you understand the analysis of "${analysisContext.fileName}" or answer any financial questions you have. What would you like to know?`
+      : 'Hello! I\'m your AI financial assistant. I can help you analyze financial data and answer questions about financial reports. How can I assist you today?',
+    timestamp: new Date(),
+    isUser: false,
+    analysisContext: !!analysisContext
+  });
+
   useEffect(() => {
     // Add welcome message
     if (messages.length === 0) {
-      const welcomeMessage: ChatMessage = {
-        id: 'welcome',
-        message: '',
-        response: analysisContext 
-          ? `Hello! I'm your AI financial assistant. I can help you understand the analysis of "${analysisContext.fileName}" or answer any financial questions you have. What would you like to know?`
-          : 'Hello! I\'m your AI financial assistant. I can help you analyze financial data and answer questions about financial reports. How can I assist you today?',
-        timestamp: new Date(),
-        isUser: false,
-        analysisContext: !!analysisContext
-      };
-      setMessages([welcomeMessage]);
+      setMessages([getWelcomeMessage()]);
     }
   }, [analysisContext]);
 
+  useEffect(() => {
+    // Skip the thread this component just started; its messages are already shown
+    const nextConversationId = conversationId || null;
+    if (nextConversationId === activeConversationRef.current) return;
+
+    activeConversationRef.current = nextConversationId;
+    abortControllerRef.current?.abort();
+    setError(null);
+
+    if (nextConversationId) {
+      loadConversation(nextConversationId);
+    } else {
+      setMessages([getWelcomeMessage()]);
+    }
+  }, [conversationId]);
+
+  // Analyses the chat is about, for starter questions
+  const scopeIds = analysisIds && analysisIds.length > 0 ? analysisIds : analysisId ? [analysisId] : [];
+
+  useEffect(() => {
+    if (user && scopeIds.length > 0) {
+      fetchStarterQuestions(scopeIds);
+    } else {
+      setStarterQuestions([]);
+    }
+  }, [user, scopeIds.join(',')]);
+
+  useEffect(() => {
+    // Cancel an in-flight response when the chat is closed
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const updateMessage = (id: string, changes: Partial<ChatMessage> | ((message: ChatMessage) => Partial<ChatMessage>)) => {
+    setMessages(prev => prev.map(message => message.id === id
+      ? { ...message, ...(typeof changes === 'function' ? changes(message) : changes) }
+      : message
+    ));
+  };
+
+  const fetchStarterQuestions = async (ids: string[]) => {
+    try {
+      const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+      const token = session?.access_token;
+
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const query = ids.map(id => `analysisId=${encodeURIComponent(id)}`).join('&');
+      const response = await fetch(`/api/chat/suggestions?${query}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch suggested questions');
+      }
+
+      const result = await response.json();
+      setStarterQuestions(result.data?.questions || []);
+    } catch (err) {
+      // The generic questions are shown instead
+      console.error('Error fetching suggested questions:', err);
+      setStarterQuestions([]);
+    }
+  };
+
+  const loadConversation = async (id: string) => {
+    try {
+      setIsLoadingHistory(true);
+
+      const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+      const token = session?.access_token;
+
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`/api/chat/conversations/${id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load conversation');
+      }
+
+      const result = await response.json();
+      if (activeConversationRef.current !== id) return;
+
+      // Each stored exchange is shown as the question followed by its answer
+      setMessages([
+        getWelcomeMessage(),
+        ...result.data.messages.flatMap((exchange: {
+          id: string;
+          message: string;
+          response: string;
+          citations?: ChatCitation[];
+          toolCalls?: ChatToolCall[];
+          feedback?: { rating: ChatFeedbackRating; correction?: string };
+          timestamp: string;
+        }) => [
+          {
+            id: `user-${exchange.id}`,
+            message: exchange.message,
+            response: '',
+            timestamp: new Date(exchange.timestamp),
+            isUser: true
+          },
+          {
+            id: exchange.id,
+            message: exchange.message,
+            response: exchange.response,
+            citations: exchange.citations,
+            toolCalls: exchange.toolCalls,
+            messageId: exchange.id,
+            feedback: exchange.feedback,
+            timestamp: new Date(exchange.timestamp),
+            isUser: false
+          }
+        ])
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  // A null rating withdraws earlier feedback
+  const submitFeedback = async (message: ChatMessage, rating: ChatFeedbackRating | null, correction?: string) => {
+    if (!message.messageId) return;
+
+    try {
+      const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+      const token = session?.access_token;
+
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`/api/chat/messages/${message.messageId}/feedback`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ rating, correction })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save feedback');
+      }
+
+      updateMessage(message.id, { feedback: rating ? { rating, correction: correction?.trim() || undefined } : undefined });
+      setCorrectionDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save feedback');
+    }
+  };
+
+  const handleThumbsDown = (message: ChatMessage) => {
+    if (message.feedback?.rating === 'down') {
+      submitFeedback(message, null);
+    } else {
+      setCorrectionDraft({ id: message.id, text: message.feedback?.correction || '' });
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!inputValue.trim() || isLoading) return;
+    if (!inputValue.trim() || isLoading || isLoadingHistory) return;
 
     if (!user) {
       setError('Please log in to use the chat feature.');
@@ -85,9 +293,24 @@ export function ChatInterface({ analysisId, analysisContext, className = '' }: C
       isUser: true
     };
 
-    setMessages(prev => [...prev, userChatMessage]);
+    // Answer is filled in as tokens arrive
+    const aiMessageId = `ai-${Date.now()}`;
+    const aiChatMessage: ChatMessage = {
+      id: aiMessageId,
+      message: userMessage,
+      response: '',
+      timestamp: new Date(),
+      isUser: false,
+      analysisContext: !!analysisContext,
+      isStreaming: true
+    };
+
+    setMessages(prev => [...prev, userChatMessage, aiChatMessage]);
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
       const token = session?.access_token;
@@ -96,39 +319,7 @@ export function ChatInterface({ analysisId, analysisContext, className = '' }: C
         throw new Error('Authentication required');
       }
 
-      // For now, simulate AI response since API might not be ready
-      // TODO: Replace with actual API call when backend is implemented
-      
-      const simulatedResponse = `Thank you for your question: "${userMessage}". 
-
-I'm your AI financial assistant and I'd be happy to help you with financial analysis and insights. However, the chat API is still being set up. 
-
-In the meantime, here are some things I can help you with once fully operational:
-• Financial report analysis
-• KPI explanations
-• Risk assessment
-• Growth opportunities
-• Performance benchmarking
-
-Please check back soon for full AI functionality!`;
-
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // Add AI response to chat
-      const aiChatMessage: ChatMessage = {
-        id: `ai-${Date.now()}`,
-        message: userMessage,
-        response: simulatedResponse,
-        timestamp: new Date(),
-        isUser: false,
-        analysisContext: !!analysisContext
-      };
-
-      setMessages(prev => [...prev, aiChatMessage]);
-
-      /* TODO: Uncomment when API is ready
-      const response = await fetch('/api/chat/query', {
+      const response = await fetch('/api/chat/stream', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -137,44 +328,75 @@ Please check back soon for full AI functionality!`;
         body: JSON.stringify({
           message: userMessage,
           analysisId: analysisId,
-          conversationId: `chat-${Date.now()}`
-        })
+          analysisIds: analysisIds && analysisIds.length > 0 ? analysisIds : undefined,
+          conversationId: activeConversationRef.current || undefined
+        }),
+        signal: abortController.signal
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
         throw new Error(errorData.error || 'Failed to get response');
       }
 
-      const result = await response.json();
-      
-      // Add AI response to chat
-      const aiChatMessage: ChatMessage = {
-        id: `ai-${Date.now()}`,
-        message: userMessage,
-        response: result.data.response,
-        timestamp: new Date(),
-        isUser: false,
-        analysisContext: result.data.analysisContext
-      };
-
-      setMessages(prev => [...prev, aiChatMessage]);
-      */
+      // Server-sent events are separated by a blank line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffered += decoder.decode(value, { stream: true });
+        const events = buffered.split('\n\n');
+        buffered = events.pop()!;
+
+        for (const block of events) {
+          const event = block.match(/^event: (.+)$/m)?.[1];
+          const data = block.match(/^data: (.+)$/m)?.[1];
+          if (!event || !data) continue;
+
+          const payload = JSON.parse(data);
+
+          if (event === 'tools') {
+            updateMessage(aiMessageId, { toolCalls: payload.toolCalls });
+          } else if (event === 'token') {
+            updateMessage(aiMessageId, message => ({ response: message.response + payload.text }));
+          } else if (event === 'done') {
+            updateMessage(aiMessageId, {
+              response: payload.response,
+              citations: payload.citations,
+              toolCalls: payload.toolCalls,
+              followUps: payload.followUps,
+              messageId: payload.id || undefined,
+              timestamp: new Date(payload.timestamp),
+              analysisContext: payload.analysisContext
+            });
+
+            if (payload.conversationId) {
+              activeConversationRef.current = payload.conversationId;
+              onConversationSaved?.(payload.conversationId);
+            }
+          } else if (event === 'error') {
+            throw new Error(payload.error);
+          }
+        }
+      }
 
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send message');
-      
-      // Add error message to chat
-      const errorMessage: ChatMessage = {
-        id: `error-${Date.now()}`,
-        message: userMessage,
-        response: 'I apologize, but I encountered an error processing your request. The chat API is currently being set up. Please try again later or contact support if the issue persists.',
-        timestamp: new Date(),
-        isUser: false
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+      if (abortController.signal.aborted) {
+        // Keep whatever arrived before the user stopped the response
+        updateMessage(aiMessageId, { stopped: true });
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+        updateMessage(aiMessageId, {
+          response: 'I apologize, but I encountered an error processing your request. Please try again later or contact support if the issue persists.'
+        });
+      }
     } finally {
+      updateMessage(aiMessageId, { isStreaming: false });
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
@@ -186,7 +408,8 @@ Please check back soon for full AI functionality!`;
     });
   };
 
-  const suggestedQuestions = [
+  // Generated for the selected analyses when available
+  const suggestedQuestions = starterQuestions.length > 0 ? starterQuestions : [
     'What are the key financial highlights?',
     'What risks should I be aware of?',
     'How is the company performing compared to industry standards?',
@@ -222,7 +445,7 @@ Please check back soon for full AI functionality!`;
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
+        {messages.map((message, index) => (
           <div key={message.id} className={`flex ${message.isUser ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-xs lg:max-w-md xl:max-w-lg ${
               message.isUser 
@@ -233,13 +456,133 @@ Please check back soon for full AI functionality!`;
                 <p className="text-sm">{message.message}</p>
               ) : (
                 <div className="space-y-2">
-                  <p className="text-sm whitespace-pre-wrap">{message.response}</p>
-                  {message.analysisContext && (
+                  {message.isStreaming && !message.response ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                      <span className="text-sm text-gray-600">AI is thinking...</span>
+                    </div>
+                  ) : (
+                    <ChatMessageContent text={message.response}>
+                      {message.isStreaming && (
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                      )}
+                    </ChatMessageContent>
+                  )}
+                  {message.stopped && (
+                    <p className="text-xs italic text-gray-500">Response stopped</p>
+                  )}
+                  {message.toolCalls && message.toolCalls.length > 0 && (
+                    <div>
+                      <button
+                        type="button"
+                        onClick={() => setOpenToolsId(openToolsId === message.id ? null : message.id)}
+                        className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        <CalculatorIcon className="h-3 w-3 mr-1" />
+                        {openToolsId === message.id ? 'Hide calculations' : `Calculations (${message.toolCalls.length})`}
+                      </button>
+                      {openToolsId === message.id && (
+                        <ul className="mt-1 space-y-1">
+                          {message.toolCalls.map((call) => (
+                            <li key={call.id} className="text-xs bg-white border border-gray-200 rounded px-2 py-1">
+                              <p className="font-mono text-gray-500 break-all">
+                                [{call.id}] {call.tool}({JSON.stringify(call.arguments)})
+                              </p>
+                              <p className={call.error ? 'text-red-600' : 'text-gray-900'}>
+                                {call.error ? `Failed: ${call.error}` : call.summary}
+                              </p>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                  {message.citations && message.citations.length > 0 && (
+                    <div>
+                      <button
+                        type="button"
+                        onClick={() => setOpenSourcesId(openSourcesId === message.id ? null : message.id)}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        {openSourcesId === message.id ? 'Hide sources' : `Sources: ${message.citations.map(citation => `[${citation.id}] ${citation.location}`).join(', ')}`}
+                      </button>
+                      {openSourcesId === message.id && (
+                        <SourceExcerpt citations={message.citations} onClose={() => setOpenSourcesId(null)} />
+                      )}
+                    </div>
+                  )}
+                  {message.followUps && message.followUps.length > 0 && index === messages.length - 1 && !isLoading && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {message.followUps.map((question) => (
+                        <button
+                          key={question}
+                          type="button"
+                          onClick={() => handleSuggestedQuestion(question)}
+                          className="text-xs bg-white border border-blue-200 text-blue-700 px-2 py-1 rounded-full hover:bg-blue-50 transition-colors text-left"
+                        >
+                          {question}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {message.analysisContext && !message.isStreaming && (
                     <div className="flex items-center space-x-1 text-xs text-gray-500">
                       <SparklesIcon className="h-3 w-3" />
                       <span>Context-aware response</span>
                     </div>
                   )}
+                  {message.messageId && !message.isStreaming && (
+                    <div className="flex items-center space-x-1">
+                      <button
+                        type="button"
+                        onClick={() => submitFeedback(message, message.feedback?.rating === 'up' ? null : 'up')}
+                        className={`p-1 rounded hover:bg-gray-200 ${message.feedback?.rating === 'up' ? 'text-green-600' : 'text-gray-400'}`}
+                        title="Good answer"
+                      >
+                        <HandThumbUpIcon className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleThumbsDown(message)}
+                        className={`p-1 rounded hover:bg-gray-200 ${message.feedback?.rating === 'down' ? 'text-red-600' : 'text-gray-400'}`}
+                        title="Wrong or unhelpful answer"
+                      >
+                        <HandThumbDownIcon className="h-3.5 w-3.5" />
+                      </button>
+                      {message.feedback && (
+                        <span className="text-xs text-gray-500">Thanks for the feedback</span>
+                      )}
+                    </div>
+                  )}
+                  {correctionDraft?.id === message.id && (
+                    <div className="space-y-1">
+                      <textarea
+                        autoFocus
+                        value={correctionDraft.text}
+                        maxLength={2000}
+                        rows={3}
+                        onChange={(e) => setCorrectionDraft({ id: message.id, text: e.target.value })}
+                        placeholder="What should the answer have said? (optional)"
+                        className="w-full text-xs border border-gray-300 rounded px-2 py-1 bg-white"
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setCorrectionDraft(null)}
+                          className="text-xs text-gray-600 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => submitFeedback(message, 'down', correctionDraft.text)}
+                          className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          Send feedback
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
               <p className={`text-xs mt-1 ${
@@ -251,15 +594,9 @@ Please check back soon for full AI functionality!`;
           </div>
         ))}
 
-        {/* Loading indicator */}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-gray-100 rounded-lg px-4 py-2">
-              <div className="flex items-center space-x-2">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                <span className="text-sm text-gray-600">AI is thinking...</span>
-              </div>
-            </div>
+        {isLoadingHistory && (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
           </div>
         )}
 
@@ -302,19 +639,32 @@ Please check back soon for full AI functionality!`;
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               placeholder="Ask me anything about your financial data..."
-              disabled={isLoading}
+              disabled={isLoading || isLoadingHistory}
               className="border-gray-300"
             />
           </div>
-          <Button
-            type="submit"
-            variant="primary"
-            size="md"
-            disabled={!inputValue.trim() || isLoading}
-            className="px-3"
-          >
-            <PaperAirplaneIcon className="h-4 w-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              type="button"
+              variant="secondary"
+              size="md"
+              onClick={handleStop}
+              className="px-3"
+              title="Stop generating"
+            >
+              <StopIcon className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              variant="primary"
+              size="md"
+              disabled={!inputValue.trim() || isLoadingHistory}
+              className="px-3"
+            >
+              <PaperAirplaneIcon className="h-4 w-4" />
+            </Button>
+          )}
         </form>
         
         <p className="text-xs text-gray-500 mt-2">
@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+
+interface ChatMessageContentProps {
+  text: string;
+  children?: React.ReactNode; // rendered after the last block, e.g. a streaming cursor
+}
+
+type Block =
+  | { kind: 'text'; text: string }
+  | { kind: 'table'; header: string[]; rows: string[][] };
+
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+/**
+ * Split a response into plain text and Markdown tables, which comparison
+ * answers use to line up figures from several reports
+ */
+function parseBlocks(text: string): Block[] {
+  const lines = text.split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const splitRow = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'text', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith('|') && TABLE_SEPARATOR.test((lines[i + 1] || '').trim())) {
+      flush();
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      i--;
+      blocks.push({ kind: 'table', header, rows });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+export function ChatMessageContent({ text, children }: ChatMessageContentProps) {
+  const blocks = parseBlocks(text);
+
+  return (
+    <div className="space-y-2">
+      {blocks.map((block, index) => {
+        const isLast = index === blocks.length - 1;
+
+        if (block.kind === 'text') {
+          return (
+            <p key={index} className="text-sm whitespace-pre-wrap">
+              {block.text}
+              {isLast && children}
+            </p>
+          );
+        }
+
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full text-xs border border-gray-200 bg-white">
+              <thead className="bg-gray-50">
+                <tr>
+                  {block.header.map((cell, cellIndex) => (
+                    <th key={cellIndex} className="px-2 py-1 text-left font-semibold text-gray-700 border-b border-gray-200">
+                      {cell}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-gray-100 last:border-0">
+                    {block.header.map((_, cellIndex) => (
+                      <td key={cellIndex} className="px-2 py-1 text-gray-900 whitespace-nowrap">
+                        {row[cellIndex] || ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {isLast && children}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/Button';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  ChatBubbleLeftIcon
+} from '@heroicons/react/24/outline';
+
+interface ConversationItem {
+  id: string;
+  title: string;
+  analysisIds: string[];
+  lastMessageAt: string;
+}
+
+interface ConversationListProps {
+  activeId: string | null;
+  onSelect: (conversationId: string | null, analysisIds?: string[]) => void;
+  refreshTrigger?: number;
+  className?: string;
+}
+
+export function ConversationList({ activeId, onSelect, refreshTrigger, className = '' }: ConversationListProps) {
+  const [conversations, setConversations] = useState<ConversationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchConversations();
+    }
+  }, [user, refreshTrigger]);
+
+  const getToken = async () => {
+    const { data: { session } } = await import('@/lib/supabase').then(m => m.supabase.auth.getSession());
+    const token = session?.access_token;
+
+    if (!token) {
+      throw new Error('Authentication required');
+    }
+    return token;
+  };
+
+  const fetchConversations = async () => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/chat/conversations?limit=50', {
+        headers: {
+          'Authorization': `Bearer ${await getToken()}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch conversations');
+      }
+
+      const result = await response.json();
+      setConversations(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startRename = (conversation: ConversationItem) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const handleRename = async (conversationId: string) => {
+    const title = editTitle.trim();
+    setEditingId(null);
+
+    const current = conversations.find(conversation => conversation.id === conversationId);
+    if (!title || title === current?.title) return;
+
+    try {
+      const response = await fetch(`/api/chat/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${await getToken()}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ title })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to rename conversation');
+      }
+
+      setConversations(prev => prev.map(conversation => conversation.id === conversationId
+        ? { ...conversation, title }
+        : conversation
+      ));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to rename conversation');
+    }
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    if (!confirm('Delete this conversation? Its messages will be removed permanently.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/chat/conversations/${conversationId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${await getToken()}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete conversation');
+      }
+
+      setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+      if (conversationId === activeId) {
+        onSelect(null);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
+  };
+
+  const formatDate = (dateString: string): string => {
+    const date = new Date(dateString);
+    const isToday = date.toDateString() === new Date().toDateString();
+
+    return isToday
+      ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  return (
+    <div className={`flex flex-col bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="p-3 border-b border-gray-200">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => onSelect(null)}
+          className="w-full"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          New chat
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 px-2 py-4">{error}</p>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-gray-500 px-2 py-4 text-center">No conversations yet</p>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center rounded-lg px-2 py-2 cursor-pointer ${
+                conversation.id === activeId ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-50 text-gray-900'
+              }`}
+              onClick={() => editingId !== conversation.id && onSelect(conversation.id, conversation.analysisIds)}
+            >
+              <ChatBubbleLeftIcon className="h-4 w-4 flex-shrink-0 text-gray-400 mr-2" />
+              <div className="flex-1 min-w-0">
+                {editingId === conversation.id ? (
+                  <input
+                    autoFocus
+                    value={editTitle}
+                    maxLength={100}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onBlur={() => handleRename(conversation.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(conversation.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full text-sm border border-gray-300 rounded px-1 py-0.5"
+                  />
+                ) : (
+                  <>
+                    <p className="text-sm font-medium truncate">{conversation.title}</p>
+                    <p className="text-xs text-gray-500">{formatDate(conversation.lastMessageAt)}</p>
+                  </>
+                )}
+              </div>
+              {editingId !== conversation.id && (
+                <div className="hidden group-hover:flex items-center space-x-1 ml-1">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRename(conversation); }}
+                    className="p-1 text-gray-400 hover:text-gray-700"
+                    title="Rename"
+                  >
+                    <PencilIcon className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(conversation.id); }}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <TrashIcon className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
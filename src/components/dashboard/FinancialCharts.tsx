@@ -15,7 +15,8 @@ import {
   AreaChart,
   Area,
   LineChart,
-  Line
+  Line,
+  Legend
 } from 'recharts';
 import { ChartData } from '@/types';
 
@@ -151,7 +152,12 @@ function RenderAreaChart({ data, xAxisKey, yAxisKey, title }: ChartData) {
   );
 }
 
-function RenderLineChart({ data, xAxisKey, yAxisKey, title }: ChartData) {
+function RenderLineChart({ data, xAxisKey, yAxisKey, title, series }: ChartData) {
+  // Multi-series trend charts list their lines; otherwise plot the single y value
+  const lines = series && series.length > 0
+    ? series
+    : [{ dataKey: yAxisKey || 'value', name: title }];
+
   return (
     <ChartWrapper title={title}>
       <ResponsiveContainer width="100%" height="100%">
@@ -167,13 +173,19 @@ function RenderLineChart({ data, xAxisKey, yAxisKey, title }: ChartData) {
             stroke="#6b7280"
           />
           <Tooltip content={<CustomTooltip />} />
-          <Line 
-            type="monotone" 
-            dataKey={yAxisKey} 
-            stroke="#3B82F6" 
-            strokeWidth={2}
-            dot={{ fill: '#3B82F6', strokeWidth: 2, r: 4 }}
-          />
+          {lines.length > 1 && <Legend />}
+          {lines.map((line, index) => (
+            <Line 
+              key={line.dataKey}
+              type="monotone" 
+              dataKey={line.dataKey} 
+              name={line.name}
+              stroke={COLORS[index % COLORS.length]} 
+              strokeWidth={2}
+              dot={{ fill: COLORS[index % COLORS.length], strokeWidth: 2, r: 4 }}
+              connectNulls
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </ChartWrapper>
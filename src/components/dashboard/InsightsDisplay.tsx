@@ -1,8 +1,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Insight } from '@/types';
+import { AnalysisCitations, Citation, Insight } from '@/types';
+import { SourceExcerpt } from '@/components/dashboard/SourceExcerpt';
 import { 
+  DocumentTextIcon,
   LightBulbIcon,
   ExclamationTriangleIcon,
   CheckCircleIcon,
@@ -16,6 +18,7 @@ interface InsightsDisplayProps {
   risks: string[];
   opportunities: string[];
   recommendations: string[];
+  citations?: AnalysisCitations;
   loading?: boolean;
 }
 
@@ -29,6 +32,7 @@ interface ListSectionProps {
   icon: React.ReactNode;
   type: 'risk' | 'opportunity' | 'recommendation';
   emptyMessage: string;
+  citations?: Citation[][]; // index-aligned with items
 }
 
 function InsightCard({ insight }: InsightCardProps) {
@@ -85,8 +89,9 @@ function InsightCard({ insight }: InsightCardProps) {
   );
 }
 
-function ListSection({ title, items, icon, type, emptyMessage }: ListSectionProps) {
+function ListSection({ title, items, icon, type, emptyMessage, citations = [] }: ListSectionProps) {
   const [expanded, setExpanded] = useState(true);
+  const [sourceIndex, setSourceIndex] = useState<number | null>(null);
 
   const getTypeColors = () => {
     switch (type) {
@@ -146,12 +151,32 @@ function ListSection({ title, items, icon, type, emptyMessage }: ListSectionProp
             <p className="text-sm text-gray-600 italic">{emptyMessage}</p>
           ) : (
             <ul className="space-y-2">
-              {items.map((item, index) => (
-                <li key={index} className="flex items-start space-x-2">
-                  <span className={`text-sm ${colors.icon} mt-0.5`}>•</span>
-                  <span className="text-sm text-gray-700">{item}</span>
-                </li>
-              ))}
+              {items.map((item, index) => {
+                const itemCitations = citations[index] || [];
+                return (
+                  <li key={index}>
+                    <div className="flex items-start space-x-2">
+                      <span className={`text-sm ${colors.icon} mt-0.5`}>•</span>
+                      {itemCitations.length > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => setSourceIndex(sourceIndex === index ? null : index)}
+                          className="text-left text-sm text-gray-700 hover:text-gray-900"
+                          title="Show source in document"
+                        >
+                          {item}
+                          <DocumentTextIcon className={`inline h-4 w-4 ml-1 ${colors.icon}`} />
+                        </button>
+                      ) : (
+                        <span className="text-sm text-gray-700">{item}</span>
+                      )}
+                    </div>
+                    {sourceIndex === index && (
+                      <SourceExcerpt citations={itemCitations} onClose={() => setSourceIndex(null)} />
+                    )}
+                  </li>
+                );
+              })}
             </ul>
           )}
         </div>
@@ -189,6 +214,7 @@ export function InsightsDisplay({
   risks, 
   opportunities, 
   recommendations,
+  citations,
   loading = false 
 }: InsightsDisplayProps) {
   if (loading) {
@@ -240,6 +266,7 @@ export function InsightsDisplay({
           items={risks}
           icon={<ExclamationTriangleIcon className="h-5 w-5" />}
           type="risk"
+          citations={citations?.risks}
           emptyMessage="No significant risks identified in the analysis."
         />
 
@@ -248,6 +275,7 @@ export function InsightsDisplay({
           items={opportunities}
           icon={<ArrowTrendingUpIcon className="h-5 w-5" />}
           type="opportunity"
+          citations={citations?.opportunities}
           emptyMessage="No specific opportunities identified at this time."
         />
 
@@ -256,6 +284,7 @@ export function InsightsDisplay({
           items={recommendations}
           icon={<ShieldCheckIcon className="h-5 w-5" />}
           type="recommendation"
+          citations={citations?.recommendations}
           emptyMessage="No specific recommendations available."
         />
       </div>
@@ -1,18 +1,22 @@
 'use client';
 
-import React from 'react';
-import { KPIs } from '@/types';
+import React, { useState } from 'react';
+import { AnalysisCitations, Citation, ComputedKPI, KPIs } from '@/types';
+import { SourceExcerpt } from '@/components/dashboard/SourceExcerpt';
 import { 
   CurrencyDollarIcon,
   ArrowTrendingUpIcon,
   ArrowTrendingDownIcon,
   ChartBarIcon,
   BanknotesIcon,
-  BuildingLibraryIcon
+  BuildingLibraryIcon,
+  CalculatorIcon
 } from '@heroicons/react/24/outline';
 
 interface KPICardsProps {
   kpis: KPIs;
+  computedKpis?: ComputedKPI[];
+  citations?: AnalysisCitations['kpis'];
   loading?: boolean;
 }
 
@@ -22,9 +26,13 @@ interface KPICardProps {
   icon: React.ReactNode;
   trend?: 'up' | 'down' | 'neutral';
   description?: string;
+  computed?: ComputedKPI;
+  citations?: Citation[];
 }
 
-function KPICard({ title, value, icon, trend, description }: KPICardProps) {
+function KPICard({ title, value, icon, trend, description, computed, citations = [] }: KPICardProps) {
+  const [showSource, setShowSource] = useState(false);
+
   const getTrendIcon = () => {
     switch (trend) {
       case 'up':
@@ -57,22 +65,45 @@ function KPICard({ title, value, icon, trend, description }: KPICardProps) {
           <div>
             <p className="text-sm font-medium text-gray-600">{title}</p>
             <div className="flex items-center space-x-2">
-              <p className={`text-2xl font-bold ${getTrendColor()}`}>
-                {value === 'N/A' ? 'N/A' : value}
-              </p>
+              {citations.length > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => setShowSource(!showSource)}
+                  className={`text-2xl font-bold underline decoration-dotted underline-offset-4 ${getTrendColor()}`}
+                  title="Show source in document"
+                >
+                  {value}
+                </button>
+              ) : (
+                <p className={`text-2xl font-bold ${getTrendColor()}`}>
+                  {value === 'N/A' ? 'N/A' : value}
+                </p>
+              )}
               {getTrendIcon()}
             </div>
             {description && (
               <p className="text-xs text-gray-500 mt-1">{description}</p>
             )}
+            {computed && (
+              <p
+                className="flex items-center text-xs text-blue-600 mt-1"
+                title={computed.inputs.map(input => `${input.label} (${input.period}): ${input.value.toLocaleString()}`).join('\n')}
+              >
+                <CalculatorIcon className="h-3 w-3 mr-1" />
+                {computed.formula}
+              </p>
+            )}
           </div>
         </div>
       </div>
+      {showSource && (
+        <SourceExcerpt citations={citations} onClose={() => setShowSource(false)} />
+      )}
     </div>
   );
 }
 
-export function KPICards({ kpis, loading = false }: KPICardsProps) {
+export function KPICards({ kpis, computedKpis = [], citations = {}, loading = false }: KPICardsProps) {
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -109,8 +140,12 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
     return 'neutral';
   };
 
+  // Values calculated from the statements, shown with their formula for auditing
+  const getComputed = (key: keyof KPIs) => computedKpis.find(metric => metric.key === key);
+
   const kpiData = [
     {
+      key: 'revenue' as keyof KPIs,
       title: 'Revenue',
       value: kpis.revenue,
       icon: <CurrencyDollarIcon className="h-6 w-6 text-blue-600" />,
@@ -118,6 +153,7 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
       description: 'Total revenue generated'
     },
     {
+      key: 'expenses' as keyof KPIs,
       title: 'Expenses',
       value: kpis.expenses,
       icon: <BanknotesIcon className="h-6 w-6 text-blue-600" />,
@@ -125,6 +161,7 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
       description: 'Total operational expenses'
     },
     {
+      key: 'netProfit' as keyof KPIs,
       title: 'Net Profit',
       value: kpis.netProfit,
       icon: <ChartBarIcon className="h-6 w-6 text-blue-600" />,
@@ -132,6 +169,7 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
       description: 'Revenue minus expenses'
     },
     {
+      key: 'growthRate' as keyof KPIs,
       title: 'Growth Rate',
       value: kpis.growthRate,
       icon: <ArrowTrendingUpIcon className="h-6 w-6 text-blue-600" />,
@@ -139,6 +177,7 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
       description: 'Period over period growth'
     },
     {
+      key: 'totalAssets' as keyof KPIs,
       title: 'Total Assets',
       value: kpis.totalAssets,
       icon: <BuildingLibraryIcon className="h-6 w-6 text-blue-600" />,
@@ -146,6 +185,7 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
       description: 'Total company assets'
     },
     {
+      key: 'cashFlow' as keyof KPIs,
       title: 'Cash Flow',
       value: kpis.cashFlow,
       icon: <CurrencyDollarIcon className="h-6 w-6 text-blue-600" />,
@@ -172,6 +212,8 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
             icon={kpi.icon}
             trend={kpi.trend}
             description={kpi.description}
+            computed={getComputed(kpi.key)}
+            citations={citations[kpi.key]}
           />
         ))}
       </div>
@@ -186,6 +228,8 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
               icon={<ChartBarIcon className="h-6 w-6 text-blue-600" />}
               trend={getValueTrend(kpis.profitMargin)}
               description="Profit as percentage of revenue"
+              computed={getComputed('profitMargin')}
+              citations={citations.profitMargin}
             />
           )}
           {kpis.returnOnInvestment !== 'N/A' && (
@@ -195,6 +239,8 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
               icon={<ArrowTrendingUpIcon className="h-6 w-6 text-blue-600" />}
               trend={getValueTrend(kpis.returnOnInvestment)}
               description="ROI percentage"
+              computed={getComputed('returnOnInvestment')}
+              citations={citations.returnOnInvestment}
             />
           )}
           {kpis.debtToEquityRatio !== 'N/A' && (
@@ -204,6 +250,8 @@ export function KPICards({ kpis, loading = false }: KPICardsProps) {
               icon={<BuildingLibraryIcon className="h-6 w-6 text-blue-600" />}
               trend={getValueTrend(kpis.debtToEquityRatio)}
               description="Financial leverage ratio"
+              computed={getComputed('debtToEquityRatio')}
+              citations={citations.debtToEquityRatio}
             />
           )}
         </div>
@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { Citation } from '@/types';
+import { DocumentTextIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface SourceExcerptProps {
+  citations: Citation[];
+  onClose?: () => void;
+}
+
+export function SourceExcerpt({ citations, onClose }: SourceExcerptProps) {
+  return (
+    <div className="mt-3 rounded-md border border-yellow-200 bg-yellow-50 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center text-xs font-medium text-gray-700">
+          <DocumentTextIcon className="h-4 w-4 mr-1" />
+          {citations.length > 1 ? `Sources (${citations.length})` : 'Source'}
+        </p>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close source"
+          >
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {citations.map((citation, index) => (
+        <div key={index}>
+          <p className="text-xs font-semibold text-gray-900">{citation.location}</p>
+          <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap break-words font-mono text-xs text-gray-500">
+            {citation.before}
+            <mark className="bg-yellow-200 text-gray-900">{citation.excerpt}</mark>
+            {citation.after}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
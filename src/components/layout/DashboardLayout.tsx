@@ -13,7 +13,8 @@ import {
   ArrowRightOnRectangleIcon,
   Bars3Icon,
   XMarkIcon,
-  UserCircleIcon
+  UserCircleIcon,
+  HandThumbUpIcon
 } from '@heroicons/react/24/outline';
 
 interface DashboardLayoutProps {
@@ -93,7 +94,13 @@ export function DashboardLayout({ children, currentPage }: DashboardLayoutProps)
       href: '/dashboard/chat',
       active: currentPage === 'chat',
       badge: user?.role === 'user' ? 'Pro' : undefined
-    }
+    },
+    ...(user?.role === 'admin' ? [{
+      label: 'Chat Quality',
+      icon: <HandThumbUpIcon className="h-5 w-5" />,
+      href: '/dashboard/admin/chat-feedback',
+      active: currentPage === 'chat-feedback'
+    }] : [])
   ];
 
   const handleLogout = async () => {
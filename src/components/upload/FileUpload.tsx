@@ -2,7 +2,7 @@
 
 import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { useFileUpload } from '@/hooks/useFileUpload';
+import { useFileUpload, UploadProgress } from '@/hooks/useFileUpload';
 import { Button } from '@/components/ui/Button';
 import { CloudArrowUpIcon, DocumentIcon, XMarkIcon } from '@heroicons/react/24/outline';
 
@@ -14,6 +14,15 @@ const ACCEPTED_TYPES = {
   'text/csv': ['.csv']
 };
 
+const STAGE_LABELS: Record<string, string> = {
+  queued: 'Queued for analysis...',
+  downloading: 'Preparing file...',
+  parsing: 'Extracting financial data...',
+  analyzing: 'Analyzing with AI...',
+  saving: 'Saving results...',
+  completed: 'Completed'
+};
+
 interface FileUploadProps {
   onUploadComplete?: (fileId: string) => void;
   className?: string;
@@ -73,12 +82,16 @@ export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
+  const getStatusText = (upload: UploadProgress) => {
+    switch (upload.status) {
       case 'uploading':
         return 'Uploading...';
-      case 'analyzing':
-        return 'Analyzing...';
+      case 'analyzing': {
+        const stage = STAGE_LABELS[upload.stage || 'queued'];
+        return upload.estimatedTime
+          ? `${stage} (about ${Math.max(1, Math.round(upload.estimatedTime / 60))} min left)`
+          : stage;
+      }
       case 'completed':
         return 'Completed';
       case 'error':
@@ -171,7 +184,7 @@ export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps
                       <div className="flex items-center space-x-2">
                         {getStatusIcon(upload.status)}
                         <span className="text-xs text-gray-500">
-                          {getStatusText(upload.status)}
+                          {getStatusText(upload)}
                         </span>
                       </div>
                     </div>
@@ -194,9 +207,7 @@ export function FileUpload({ onUploadComplete, className = '' }: FileUploadProps
                       <div 
                         className="bg-blue-600 h-1 rounded-full transition-all duration-300"
                         style={{ 
-                          width: upload.status === 'uploading' 
-                            ? `${upload.progress}%` 
-                            : '100%'
+                          width: `${upload.progress}%`
                         }}
                       />
                     </div>
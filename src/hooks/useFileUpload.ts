@@ -1,13 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { AnalysisJobStage, AnalysisResponse } from '@/types';
 
-interface UploadProgress {
+const POLL_INTERVAL_MS = 2000;
+
+export interface UploadProgress {
   fileId: string;
   progress: number;
   status: 'uploading' | 'analyzing' | 'completed' | 'error';
   fileName: string;
+  stage?: AnalysisJobStage;
+  estimatedTime?: number; // seconds remaining
+  analysisId?: string;
   error?: string;
 }
 
@@ -21,6 +27,64 @@ interface UseFileUploadReturn {
 export function useFileUpload(): UseFileUploadReturn {
   const [uploads, setUploads] = useState<UploadProgress[]>([]);
   const { user } = useAuth();
+  const mountedRef = useRef(true);
+
+  // Stop polling once the component using the hook unmounts
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const updateUpload = (fileId: string, changes: Partial<UploadProgress>) => {
+    setUploads(prev => prev.map(upload =>
+      upload.fileId === fileId ? { ...upload, ...changes } : upload
+    ));
+  };
+
+  /**
+   * Poll the analysis job until it completes or fails
+   */
+  const waitForAnalysis = async (fileId: string, jobId: string, token: string): Promise<void> => {
+    while (mountedRef.current) {
+      const response = await fetch(`/api/analysis/jobs/${jobId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to get analysis status');
+      }
+
+      const job: AnalysisResponse = (await response.json()).data;
+
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Analysis failed');
+      }
+
+      if (job.status === 'completed') {
+        updateUpload(fileId, {
+          status: 'completed',
+          progress: 100,
+          stage: 'completed',
+          estimatedTime: 0,
+          analysisId: job.analysisId
+        });
+        return;
+      }
+
+      updateUpload(fileId, {
+        progress: job.progress || 0,
+        stage: job.stage,
+        estimatedTime: job.estimatedTime
+      });
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  };
 
   const uploadFile = async (file: File): Promise<void> => {
     if (!user) {
@@ -39,6 +103,7 @@ export function useFileUpload(): UseFileUploadReturn {
     };
 
     setUploads(prev => [...prev, newUpload]);
+    let trackingId = tempId;
 
     try {
       // Create FormData for file upload
@@ -73,14 +138,12 @@ export function useFileUpload(): UseFileUploadReturn {
       // Update upload with actual file ID
       setUploads(prev => prev.map(upload => 
         upload.fileId === tempId 
-          ? { ...upload, fileId: actualFileId, progress: 100, status: 'completed' }
+          ? { ...upload, fileId: actualFileId, progress: 0, status: 'analyzing', stage: 'queued' }
           : upload
       ));
+      trackingId = actualFileId;
 
-      // TODO: Start analysis when API is ready
-      // For now, we'll skip the analysis step to avoid errors
-      /*
-      // Start analysis
+      // Queue analysis
       const analysisResponse = await fetch('/api/analysis/generate', {
         method: 'POST',
         headers: {
@@ -95,20 +158,24 @@ export function useFileUpload(): UseFileUploadReturn {
         throw new Error(errorData.error || 'Analysis failed');
       }
 
-      // Mark as completed
-      setUploads(prev => prev.map(upload => 
-        upload.fileId === actualFileId 
-          ? { ...upload, status: 'completed' }
-          : upload
-      ));
-      */
+      const job: AnalysisResponse = (await analysisResponse.json()).data;
+      updateUpload(actualFileId, { estimatedTime: job.estimatedTime });
+
+      // Track progress in the background so further uploads are not blocked
+      waitForAnalysis(actualFileId, job.jobId!, token).catch(error => {
+        console.error('Analysis error:', error);
+        updateUpload(actualFileId, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Analysis failed'
+        });
+      });
 
     } catch (error) {
       console.error('Upload error:', error);
       
       // Update upload with error
       setUploads(prev => prev.map(upload => 
-        upload.fileId === tempId 
+        upload.fileId === trackingId 
           ? { 
               ...upload, 
               status: 'error',
@@ -0,0 +1,218 @@
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { STORAGE_BUCKETS, TABLES, supabase } from '@/lib/supabase';
+import AnalysisJobService from '@/lib/analysis-jobs';
+import DocumentRetrievalService from '@/lib/document-retrieval';
+import { GeminiAnalysisService } from '@/lib/gemini';
+import type { FakeSupabase } from './helpers/fake-supabase';
+
+vi.mock('@/lib/supabase', async (importOriginal) => {
+  const { FakeSupabase } = await import('./helpers/fake-supabase');
+  return {
+    ...(await importOriginal<typeof import('@/lib/supabase')>()),
+    supabase: new FakeSupabase({
+      analysis_jobs: { status: 'queued', stage: 'queued', progress: 0, attempts: 0, max_attempts: 3, run_after: '1970-01-01T00:00:00.000Z' }
+    })
+  };
+});
+
+const db = supabase as unknown as FakeSupabase;
+
+const CSV = [
+  'Line item,FY2022,FY2023',
+  'Revenue,1000000,1200000',
+  'Cost of sales,400000,500000',
+  'Operating expenses,300000,350000',
+  'Net income,240000,280000'
+].join('\n');
+
+describe('AnalysisJobService', () => {
+  beforeEach(() => {
+    db.tables = {};
+    db.objects = {};
+    // Same selection as claim_analysis_job in database-schema.sql
+    db.rpcs.claim_analysis_job = ({ worker_id }) => {
+      const job = db.rows(TABLES.ANALYSIS_JOBS).find(row => row.status === 'queued' && row.run_after <= new Date().toISOString());
+      if (!job) return [];
+      Object.assign(job, { status: 'running', locked_at: new Date().toISOString(), locked_by: worker_id, attempts: job.attempts + 1 });
+      return [{ ...job }];
+    };
+
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('LLM_MOCK_FIXTURES', path.join(__dirname, 'fixtures', 'mock-llm.json'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Jobs are run explicitly below rather than by the background worker
+    vi.spyOn(AnalysisJobService, 'startWorker').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('runs an uploaded CSV through parse, analyze and save with the mock provider', async () => {
+    // What the upload route stores
+    await db.storage.from(STORAGE_BUCKETS.FILES).upload('user-1/file-1.csv', Buffer.from(CSV));
+    db.rows(TABLES.USERS).push({ id: 'user-1', subscription_tier: 'pro', llm_provider: null });
+    db.rows(TABLES.FILES).push({
+      id: 'file-1',
+      user_id: 'user-1',
+      file_name: 'acme-2023.csv',
+      file_type: 'csv',
+      file_size: CSV.length,
+      analysis_status: 'pending',
+      supabase_storage_path: 'user-1/file-1.csv',
+      company_id: null
+    });
+
+    const job = await AnalysisJobService.enqueue('user-1', { id: 'file-1' });
+    expect(await AnalysisJobService.processQueue()).toBe(1);
+
+    const [savedJob] = db.rows(TABLES.ANALYSIS_JOBS);
+    expect(savedJob).toMatchObject({
+      id: job.id,
+      status: 'completed',
+      stage: 'completed',
+      progress: 100,
+      locked_by: null
+    });
+
+    const [analysis] = db.rows(TABLES.ANALYSES);
+    expect(savedJob.analysis_id).toBe(analysis.id);
+    expect(analysis.file_id).toBe('file-1');
+    expect(analysis.model).toBe('mock/mock-fixtures');
+    expect(analysis.summary).toBe('Acme grew revenue while keeping costs in line.');
+    expect(analysis.risks).toEqual(['Rising cost of sales']);
+    // Starter questions are left to the chat so the job makes no extra model call
+    expect(analysis.suggested_questions).toBeUndefined();
+    expect(analysis.statements).toHaveLength(1);
+    expect(analysis.statements[0].periods).toEqual(['FY2022', 'FY2023']);
+
+    // Computed from the latest period, replacing the model's figure
+    expect(analysis.kpis.revenue).toBe('1,200,000');
+    expect(analysis.kpis.growthRate).toBe('20.0%');
+    expect(analysis.kpi_discrepancies).toEqual([
+      expect.objectContaining({ key: 'revenue', aiValue: '$1.5M', computedValue: '1,200,000' })
+    ]);
+
+    expect(db.rows(TABLES.FILES)[0].analysis_status).toBe('completed');
+    expect(db.rows(TABLES.DOCUMENT_CHUNKS).length).toBeGreaterThan(0);
+    expect(db.rows(TABLES.NOTIFICATIONS)).toEqual([expect.objectContaining({ type: 'success', user_id: 'user-1' })]);
+  });
+
+  it('discards its result when another worker claimed the job during analysis', async () => {
+    await db.storage.from(STORAGE_BUCKETS.FILES).upload('user-1/file-1.csv', Buffer.from(CSV));
+    db.rows(TABLES.FILES).push({
+      id: 'file-1',
+      user_id: 'user-1',
+      file_name: 'acme-2023.csv',
+      file_type: 'csv',
+      analysis_status: 'pending',
+      supabase_storage_path: 'user-1/file-1.csv'
+    });
+
+    const analyze = GeminiAnalysisService.prototype.analyzeFinancialReport;
+    vi.spyOn(GeminiAnalysisService.prototype, 'analyzeFinancialReport').mockImplementation(async function (
+      this: GeminiAnalysisService,
+      ...args: Parameters<typeof analyze>
+    ) {
+      // The lock expires mid-analysis and another worker claims the job
+      Object.assign(db.rows(TABLES.ANALYSIS_JOBS)[0], { locked_by: 'worker-other', attempts: 2 });
+      return analyze.apply(this, args);
+    });
+
+    await AnalysisJobService.enqueue('user-1', { id: 'file-1' });
+    await AnalysisJobService.processQueue(1);
+
+    expect(db.rows(TABLES.ANALYSES)).toHaveLength(0);
+    expect(db.rows(TABLES.ANALYSIS_JOBS)[0]).toMatchObject({ status: 'running', stage: 'analyzing', locked_by: 'worker-other' });
+    expect(db.rows(TABLES.FILES)[0].analysis_status).toBe('pending');
+  });
+
+  it('leaves the job, file and notifications alone when the lock is lost while saving', async () => {
+    await db.storage.from(STORAGE_BUCKETS.FILES).upload('user-1/file-1.csv', Buffer.from(CSV));
+    db.rows(TABLES.FILES).push({
+      id: 'file-1',
+      user_id: 'user-1',
+      file_name: 'acme-2023.csv',
+      file_type: 'csv',
+      analysis_status: 'pending',
+      supabase_storage_path: 'user-1/file-1.csv'
+    });
+
+    vi.spyOn(DocumentRetrievalService, 'indexDocument').mockImplementation(async () => {
+      Object.assign(db.rows(TABLES.ANALYSIS_JOBS)[0], { locked_by: 'worker-other', attempts: 2 });
+      return 0;
+    });
+
+    await AnalysisJobService.enqueue('user-1', { id: 'file-1' });
+    await AnalysisJobService.processQueue(1);
+
+    expect(db.rows(TABLES.ANALYSIS_JOBS)[0]).toMatchObject({ status: 'running', stage: 'saving', locked_by: 'worker-other' });
+    expect(db.rows(TABLES.ANALYSES)).toHaveLength(0);
+    expect(db.rows(TABLES.FILES)[0].analysis_status).toBe('pending');
+    expect(db.rows(TABLES.NOTIFICATIONS)).toHaveLength(0);
+  });
+
+  it('does not requeue or fail a job another worker has claimed', async () => {
+    await db.storage.from(STORAGE_BUCKETS.FILES).upload('user-1/file-1.csv', Buffer.from(CSV));
+    db.rows(TABLES.FILES).push({
+      id: 'file-1',
+      user_id: 'user-1',
+      file_name: 'acme-2023.csv',
+      file_type: 'csv',
+      analysis_status: 'pending',
+      supabase_storage_path: 'user-1/file-1.csv'
+    });
+
+    vi.spyOn(GeminiAnalysisService.prototype, 'analyzeFinancialReport').mockImplementation(async () => {
+      Object.assign(db.rows(TABLES.ANALYSIS_JOBS)[0], { locked_by: 'worker-other', attempts: 2 });
+      throw new Error('Model timed out');
+    });
+
+    await AnalysisJobService.enqueue('user-1', { id: 'file-1' });
+    await AnalysisJobService.processQueue(1);
+
+    expect(db.rows(TABLES.ANALYSIS_JOBS)[0]).toMatchObject({ status: 'running', stage: 'analyzing', locked_by: 'worker-other' });
+    expect(db.rows(TABLES.FILES)[0].analysis_status).toBe('pending');
+    expect(db.rows(TABLES.NOTIFICATIONS)).toHaveLength(0);
+  });
+
+  it('fails the job without retrying when the file cannot be parsed', async () => {
+    await db.storage.from(STORAGE_BUCKETS.FILES).upload('user-1/file-2.csv', Buffer.from(''));
+    db.rows(TABLES.FILES).push({
+      id: 'file-2',
+      user_id: 'user-1',
+      file_name: 'empty.csv',
+      file_type: 'csv',
+      supabase_storage_path: 'user-1/file-2.csv'
+    });
+
+    await AnalysisJobService.enqueue('user-1', { id: 'file-2' });
+    await AnalysisJobService.processQueue();
+
+    expect(db.rows(TABLES.ANALYSIS_JOBS)[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(db.rows(TABLES.ANALYSES)).toHaveLength(0);
+    expect(db.rows(TABLES.FILES)[0].analysis_status).toBe('failed');
+  });
+
+  it('fails the job without retrying when the model output stays invalid', async () => {
+    vi.stubEnv('LLM_MOCK_FIXTURES', path.join(__dirname, 'fixtures', 'mock-llm-invalid.json'));
+    await db.storage.from(STORAGE_BUCKETS.FILES).upload('user-1/file-3.csv', Buffer.from(CSV));
+    db.rows(TABLES.FILES).push({
+      id: 'file-3',
+      user_id: 'user-1',
+      file_name: 'acme-2023.csv',
+      file_type: 'csv',
+      supabase_storage_path: 'user-1/file-3.csv'
+    });
+
+    await AnalysisJobService.enqueue('user-1', { id: 'file-3' });
+    await AnalysisJobService.processQueue();
+
+    expect(db.rows(TABLES.ANALYSIS_JOBS)[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(db.rows(TABLES.ANALYSIS_JOBS)[0].last_error).toMatch(/invalid analysis output after 3 attempts/);
+    expect(db.rows(TABLES.ANALYSES)).toHaveLength(0);
+  });
+});
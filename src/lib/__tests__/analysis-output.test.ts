@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import AnalysisOutputValidator from '@/lib/analysis-output';
+
+const KPIS = '"kpis":{"revenue":"$1.2M","expenses":"$0.9M","netProfit":"$0.3M","growthRate":"20%"}';
+
+describe('AnalysisOutputValidator.repairJSON', () => {
+  it('removes fences, surrounding prose and trailing commas', () => {
+    const text = '```json\nHere it is: {"a": [1, 2,], "b": "x",} thanks\n```';
+    expect(JSON.parse(AnalysisOutputValidator.repairJSON(text))).toEqual({ a: [1, 2], b: 'x' });
+  });
+
+  it('drops a key cut off mid-name', () => {
+    const repaired = AnalysisOutputValidator.repairJSON('{"summary":"ok","risks":["a"],"ext');
+    expect(JSON.parse(repaired)).toEqual({ summary: 'ok', risks: ['a'] });
+  });
+
+  it('drops a key whose value was never written', () => {
+    expect(JSON.parse(AnalysisOutputValidator.repairJSON('{"a":"x","b":'))).toEqual({ a: 'x' });
+    expect(JSON.parse(AnalysisOutputValidator.repairJSON('{"a":"x","b": tr'))).toEqual({ a: 'x' });
+  });
+
+  it('drops a list entry cut off mid-sentence', () => {
+    const repaired = AnalysisOutputValidator.repairJSON('{"risks":["Customer concentration","Rising input co');
+    expect(JSON.parse(repaired)).toEqual({ risks: ['Customer concentration'] });
+  });
+
+  it('keeps complete values up to the point of truncation', () => {
+    const repaired = AnalysisOutputValidator.repairJSON('{"a":{"b":[1,{"c":"d \\" e"}],"f":12');
+    expect(JSON.parse(repaired)).toEqual({ a: { b: [1, { c: 'd " e' }] } });
+  });
+});
+
+describe('AnalysisOutputValidator.parse', () => {
+  it('accepts truncated output once the incomplete finding is dropped', () => {
+    const result = AnalysisOutputValidator.parse(
+      `{"summary":"Solid year",${KPIS},"risks":["Debt"],"opportunities":["Pricing"],"recommendations":["Refinance","Cut co`
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.valid && result.result.recommendations).toEqual(['Refinance']);
+  });
+
+  it('reports every schema violation', () => {
+    const result = AnalysisOutputValidator.parse('{"summary":"","kpis":{"revenue":"1"},"risks":"none"}');
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual(expect.arrayContaining([
+      '"summary" must be a non-empty string',
+      '"kpis.expenses" must be a non-empty string (use "N/A" when unavailable)',
+      '"risks" must be an array of strings',
+      '"opportunities" must be an array of strings'
+    ]));
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TABLES, supabaseAdmin } from '@/lib/supabase';
+import ChatFeedbackService from '@/lib/chat-feedback';
+import type { FakeSupabase } from './helpers/fake-supabase';
+
+vi.mock('@/lib/supabase', async (importOriginal) => {
+  const { FakeSupabase } = await import('./helpers/fake-supabase');
+  const fake = new FakeSupabase();
+  return { ...(await importOriginal<typeof import('@/lib/supabase')>()), supabase: fake, supabaseAdmin: fake };
+});
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+describe('ChatFeedbackService.record', () => {
+  it('rates only the user\'s own answers', async () => {
+    db.tables[TABLES.CHAT_MESSAGES] = [
+      { id: 'message-1', user_id: 'user-1', feedback: null },
+      { id: 'message-2', user_id: 'user-2', feedback: null }
+    ];
+
+    await expect(ChatFeedbackService.record('user-1', 'message-1', { rating: 'down', correction: 'Revenue was $1.2M' })).resolves.toBe(true);
+    await expect(ChatFeedbackService.record('user-1', 'message-2', { rating: 'up' })).resolves.toBe(false);
+
+    expect(db.rows(TABLES.CHAT_MESSAGES)).toMatchObject([
+      { id: 'message-1', feedback: 'down', feedback_correction: 'Revenue was $1.2M' },
+      { id: 'message-2', feedback: null }
+    ]);
+  });
+});
+
+describe('ChatFeedbackService.summarize', () => {
+  it('labels and orders the groups returned by the database', async () => {
+    let since: string | undefined;
+    // PostgREST returns BIGINT counts as numbers or strings depending on size
+    db.rpcs.chat_feedback_summary = (args: { since: string }) => {
+      since = args.since;
+      return [
+        { prompt_version: null, model: null, answers: 40, rated: 0, up: 0, down: 0, corrections: 0 },
+        { prompt_version: '2', model: 'gemini-1.5-flash', answers: '12', rated: '8', up: '6', down: '2', corrections: '1' },
+        { prompt_version: '10', model: 'gpt-4o-mini', answers: 3, rated: 3, up: 1, down: 2, corrections: 2 }
+      ];
+    };
+
+    const summary = await ChatFeedbackService.summarize(new Date('2026-10-01T00:00:00Z'));
+
+    expect(since).toBe('2026-10-01T00:00:00.000Z');
+    expect(summary).toEqual([
+      { promptVersion: '10', model: 'gpt-4o-mini', answers: 3, rated: 3, up: 1, down: 2, corrections: 2, approvalRate: 33.3 },
+      { promptVersion: '2', model: 'gemini-1.5-flash', answers: 12, rated: 8, up: 6, down: 2, corrections: 1, approvalRate: 75 },
+      { promptVersion: 'unversioned', model: 'unknown', answers: 40, rated: 0, up: 0, down: 0, corrections: 0, approvalRate: null }
+    ]);
+  });
+
+  it('reports database errors', async () => {
+    delete db.rpcs.chat_feedback_summary;
+
+    await expect(ChatFeedbackService.summarize(new Date())).rejects.toThrow('Failed to fetch chat feedback');
+  });
+});
@@ -0,0 +1,57 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import FileParsingService from '@/lib/file-parser';
+import CitationService from '@/lib/citations';
+import KPIEngine from '@/lib/kpi-engine';
+import { ComputedKPIKey } from '@/types';
+
+const workbook = (origin: string) => {
+  const sheet = XLSX.utils.sheet_add_aoa({}, [
+    ['Income Statement'],
+    [],
+    ['Line item', 'FY2023', 'FY2022'],
+    ['Revenue', 1200, 1000],
+    ['Cost of sales', 500, 400],
+    ['Net income', 280, 240]
+  ], { origin });
+  // Used range as Excel saves it, starting at the first filled cell
+  const range = XLSX.utils.decode_range(sheet['!ref']!);
+  range.s = XLSX.utils.decode_cell(origin);
+  sheet['!ref'] = XLSX.utils.encode_range(range);
+
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'P&L');
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+};
+
+const citedRanges = async (buffer: Buffer, keys: ComputedKPIKey[]) => {
+  const parsed = await FileParsingService.parseFile(buffer, 'acme.xlsx', 'excel');
+  const index = CitationService.index(parsed.text);
+  const metrics = KPIEngine.compute(parsed.statements || []);
+
+  return keys.map(key => CitationService
+    .forComputedKPI(index, metrics.find(metric => metric.key === key)!, parsed.statements || [])
+    .map(citation => citation.location));
+};
+
+describe('CitationService.forComputedKPI', () => {
+  it('cites the worksheet rows a KPI was computed from', async () => {
+    expect(await citedRanges(workbook('A1'), ['revenue', 'expenses', 'netProfit'])).toEqual([
+      ['P&L!A4:C4'],
+      ['P&L!A5:C5'],
+      ['P&L!A6:C6']
+    ]);
+  });
+
+  it('cites absolute cells when the used range does not start at A1', async () => {
+    const buffer = workbook('B3');
+    const sheet = XLSX.read(buffer, { type: 'buffer' }).Sheets['P&L'];
+    expect(sheet['!ref']).toBe('B3:D8');
+
+    expect(await citedRanges(buffer, ['revenue', 'expenses', 'netProfit'])).toEqual([
+      ['P&L!B6:D6'],
+      ['P&L!B7:D7'],
+      ['P&L!B8:D8']
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TABLES, supabase } from '@/lib/supabase';
+import ConversationService from '@/lib/conversations';
+import { GeminiAnalysisService } from '@/lib/gemini';
+import type { FakeSupabase } from './helpers/fake-supabase';
+
+vi.mock('@/lib/supabase', async (importOriginal) => {
+  const { FakeSupabase } = await import('./helpers/fake-supabase');
+  return { ...(await importOriginal<typeof import('@/lib/supabase')>()), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+
+function seedThread(messages: number, conversation: { summary?: string; summarized_count?: number } = {}) {
+  db.rows(TABLES.CONVERSATIONS).push({ id: 'conversation-1', summary: null, summarized_count: 0, ...conversation });
+  for (let index = 1; index <= messages; index++) {
+    db.rows(TABLES.CHAT_MESSAGES).push({
+      id: `message-${index}`,
+      conversation_id: 'conversation-1',
+      message: `Question ${index}`,
+      response: `Answer ${index}`,
+      timestamp: new Date(Date.UTC(2026, 9, 1, 0, index)).toISOString()
+    });
+  }
+}
+
+describe('ConversationService.getHistory', () => {
+  beforeEach(() => {
+    db.tables = {};
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('sends the newest turns when summaries keep failing on a long thread', async () => {
+    seedThread(60);
+    const analysisService = {
+      summarizeConversation: vi.fn().mockRejectedValue(new Error('Model unavailable'))
+    } as unknown as GeminiAnalysisService;
+
+    const history = await ConversationService.getHistory('conversation-1', analysisService);
+
+    expect(history.turns.map(turn => turn.message)).toEqual([
+      'Question 55', 'Question 56', 'Question 57', 'Question 58', 'Question 59', 'Question 60'
+    ]);
+    expect(db.rows(TABLES.CONVERSATIONS)[0].summarized_count).toBe(0);
+  });
+
+  it('folds the loaded turns that are not yet summarized into the summary', async () => {
+    seedThread(60, { summary: 'Earlier discussion of revenue.', summarized_count: 40 });
+    const summarizeConversation = vi.fn().mockResolvedValue('Revenue, then margins.');
+    const analysisService = { summarizeConversation } as unknown as GeminiAnalysisService;
+
+    const history = await ConversationService.getHistory('conversation-1', analysisService);
+
+    const folded = summarizeConversation.mock.calls[0][1].map((turn: { message: string }) => turn.message);
+    expect(folded[0]).toBe('Question 41');
+    expect(folded[folded.length - 1]).toBe('Question 54');
+    expect(history.summary).toBe('Revenue, then margins.');
+    expect(history.turns.map(turn => turn.message)).toEqual([
+      'Question 55', 'Question 56', 'Question 57', 'Question 58', 'Question 59', 'Question 60'
+    ]);
+    expect(db.rows(TABLES.CONVERSATIONS)[0].summarized_count).toBe(54);
+  });
+});
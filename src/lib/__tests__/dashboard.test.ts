@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import DashboardService from '@/lib/dashboard';
+import { exportData } from './fixtures/export-data';
+
+describe('DashboardService.includedSections', () => {
+  it('lists only the sections left in the export', () => {
+    const data = DashboardService.selectSections(exportData(), ['risks', 'summary', 'unknown']);
+
+    expect(DashboardService.includedSections(data)).toEqual(['summary', 'risks']);
+  });
+
+  it('lists every available section when none were requested', () => {
+    const data = DashboardService.selectSections(exportData({ opportunities: undefined }), []);
+
+    expect(DashboardService.includedSections(data)).toEqual([
+      'summary', 'kpis', 'computedKpis', 'statements', 'charts', 'insights', 'risks', 'recommendations'
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TABLES, supabase } from '@/lib/supabase';
+import DocumentRetrievalService from '@/lib/document-retrieval';
+import type { FakeSupabase } from './helpers/fake-supabase';
+
+vi.mock('@/lib/supabase', async (importOriginal) => {
+  const { FakeSupabase } = await import('./helpers/fake-supabase');
+  return { ...(await importOriginal<typeof import('@/lib/supabase')>()), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+
+describe('DocumentRetrievalService.retrieve', () => {
+  beforeEach(() => {
+    db.tables = {};
+  });
+
+  it('ranks the passages of an indexed document by relevance', async () => {
+    await DocumentRetrievalService.indexDocument('analysis-1', [
+      '--- Page 1 ---',
+      'Revenue grew 20% to $1.2M on higher subscription volumes.',
+      '--- Page 2 ---',
+      'Goodwill impairment of $40k was recorded against the retail segment.'
+    ].join('\n'));
+
+    const passages = await DocumentRetrievalService.retrieve('analysis-1', 'What happened with goodwill impairment?');
+
+    // Short pages are grouped into one passage
+    expect(passages).toHaveLength(1);
+    expect(passages[0]).toMatchObject({ id: 'P1', location: 'Pages 1-2' });
+    expect(passages[0].text).toMatch(/Goodwill impairment/);
+    expect(await DocumentRetrievalService.retrieve('analysis-1', 'dividends')).toEqual([]);
+  });
+
+  it('searches passages beyond the first page of results', async () => {
+    for (let i = 0; i < 1200; i++) {
+      const text = i === 1150 ? 'Goodwill impairment in the retail segment' : `Operating note ${i} on revenue`;
+      db.rows(TABLES.DOCUMENT_CHUNKS).push({
+        analysis_id: 'analysis-1',
+        chunk_index: i,
+        location: `Page ${i + 1}`,
+        page: i + 1,
+        sheet: null,
+        content: text,
+        terms: Object.fromEntries(text.toLowerCase().split(' ').map(term => [term, 1])),
+        term_count: text.split(' ').length
+      });
+    }
+
+    const passages = await DocumentRetrievalService.retrieve('analysis-1', 'goodwill impairment');
+
+    expect(passages.map(passage => passage.page)).toEqual([1151]);
+  });
+});
@@ -0,0 +1,26 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import DashboardService from '@/lib/dashboard';
+import DocxExportService from '@/lib/docx-export';
+import { exportData } from './fixtures/export-data';
+
+async function documentXML(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  return zip.file('word/document.xml')!.async('string');
+}
+
+describe('DocxExportService.generate', () => {
+  it('writes the requested sections and leaves out the rest', async () => {
+    const data = DashboardService.selectSections(exportData(), ['summary', 'kpis', 'recommendations']);
+
+    const xml = await documentXML(await DocxExportService.generate(data, 'acme.xlsx'));
+
+    expect(xml).toContain('Executive Summary');
+    expect(xml).toContain('Acme grew revenue while keeping costs in line.');
+    expect(xml).toContain('$1,200,000');
+    expect(xml).toContain('Review operating expense growth');
+    expect(xml).not.toContain('Identified Risks');
+    expect(xml).not.toContain('Rising cost of sales');
+    expect(xml).not.toContain('Revenue growth');
+  });
+});
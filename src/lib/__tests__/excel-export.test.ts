@@ -0,0 +1,36 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import ExcelExportService from '@/lib/excel-export';
+import KPIEngine from '@/lib/kpi-engine';
+import { exportData } from './fixtures/export-data';
+
+describe('ExcelExportService.generate', () => {
+  it('writes computed KPIs as formulas over the matching Line Items rows', async () => {
+    const data = exportData();
+    data.computedKpis = KPIEngine.compute(data.statements!);
+
+    const workbook = XLSX.read(await ExcelExportService.generate(data, 'acme.xlsx'), { cellFormula: true });
+    const kpis = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets['KPIs'], { header: 1 });
+    const lineItems = workbook.Sheets['Line Items'];
+
+    // Concept and period of the Line Items row a formula reference points at
+    const referenced = (formula: string) => Array.from(formula.matchAll(/'Line Items'!\$G\$(\d+)/g), ([, row]) => [
+      lineItems[`E${row}`].v,
+      lineItems[`F${row}`].v,
+      lineItems[`G${row}`].v
+    ]);
+    const computedCell = (label: string) => workbook.Sheets['KPIs'][`C${kpis.findIndex(row => row[0] === label) + 1}`];
+
+    const revenue = computedCell('Revenue');
+    expect(revenue.f).toBe("'Line Items'!$G$3");
+    expect(referenced(revenue.f)).toEqual([['revenue', 'FY2023', 1200000]]);
+
+    const growth = computedCell('Revenue Growth');
+    expect(growth.f).toBe("('Line Items'!$G$3-'Line Items'!$G$2)/ABS('Line Items'!$G$2)*100");
+    expect(referenced(growth.f)).toEqual([['revenue', 'FY2023', 1200000], ['revenue', 'FY2022', 1000000], ['revenue', 'FY2022', 1000000]]);
+    expect(growth.v).toBeCloseTo(20);
+
+    const expenses = computedCell('Expenses');
+    expect(referenced(expenses.f)).toEqual([['total_expenses', 'FY2023', 900000]]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import DashboardService from '@/lib/dashboard';
+import ExportTemplateService from '@/lib/export-templates';
+import { exportData } from './fixtures/export-data';
+
+describe('ExportTemplateService.render', () => {
+  it('leaves out sections that were not requested', () => {
+    const data = DashboardService.selectSections(exportData(), ['summary', 'kpis']);
+
+    const markdown = ExportTemplateService.render(ExportTemplateService.getBuiltInTemplate('markdown'), data, 'acme.xlsx');
+    const html = ExportTemplateService.render(ExportTemplateService.getBuiltInTemplate('html'), data, 'acme.xlsx');
+
+    expect(markdown).toContain('## Executive Summary');
+    expect(markdown).toContain('| Revenue | $1,200,000 |');
+    expect(markdown).not.toContain('## Identified Risks');
+    expect(markdown).not.toContain('Rising cost of sales');
+    expect(html).toContain('<h2>Key Performance Indicators</h2>');
+    expect(html).not.toContain('<h2>Recommendations</h2>');
+    expect(html).not.toContain('Review operating expense growth');
+  });
+
+  it('keeps every section when none are requested', () => {
+    const data = DashboardService.selectSections(exportData(), []);
+
+    const markdown = ExportTemplateService.render(ExportTemplateService.getBuiltInTemplate('markdown'), data, 'acme.xlsx');
+
+    expect(markdown).toContain('- Rising cost of sales');
+    expect(markdown).toContain('- [ ] Review operating expense growth');
+  });
+
+  it('escapes analysis text in HTML templates but not in Markdown', () => {
+    const data = exportData({
+      summary: 'Margins <script>alert("x")</script> improved & held.',
+      risks: ['<img src=x onerror=alert(1)>']
+    });
+
+    const html = ExportTemplateService.render(ExportTemplateService.getBuiltInTemplate('html'), data, 'acme <1>.xlsx');
+    const markdown = ExportTemplateService.render(ExportTemplateService.getBuiltInTemplate('markdown'), data, 'acme.xlsx');
+
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('Margins &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; improved &amp; held.');
+    expect(html).toContain('<li>&lt;img src&#x3D;x onerror&#x3D;alert(1)&gt;</li>');
+    expect(html).toContain('acme &lt;1&gt;.xlsx');
+    expect(markdown).toContain('Margins <script>alert("x")</script> improved & held.');
+  });
+});
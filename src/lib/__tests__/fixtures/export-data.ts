@@ -0,0 +1,64 @@
+import { ExportData } from '@/types';
+
+/**
+ * Export data for a small two-year income statement
+ */
+export function exportData(overrides: Partial<ExportData> = {}): ExportData {
+  return {
+    title: 'Financial Analysis Report',
+    summary: 'Acme grew revenue while keeping costs in line.',
+    kpis: {
+      revenue: '$1,200,000',
+      expenses: '$900,000',
+      netProfit: '$300,000',
+      growthRate: '20.0%'
+    },
+    computedKpis: [
+      {
+        key: 'netProfit',
+        label: 'Net Profit',
+        value: 300000,
+        unit: 'currency',
+        formatted: '$300,000',
+        formula: 'Net income',
+        period: 'FY2023',
+        inputs: [{ label: 'Net income', concept: 'net_income', value: 300000, period: 'FY2023' }]
+      }
+    ],
+    statements: [
+      {
+        type: 'income_statement',
+        title: 'Income Statement',
+        periods: ['FY2022', 'FY2023'],
+        unit: 'ones',
+        multiplier: 1,
+        lineItems: [
+          { label: 'Revenue', concept: 'revenue', values: [1000000, 1200000], sign: 'positive', isTotal: false, row: 2 },
+          { label: 'Total expenses', concept: 'total_expenses', values: [800000, 900000], sign: 'negative', isTotal: true, row: 3 },
+          { label: 'Net income', concept: 'net_income', values: [200000, 300000], sign: 'mixed', isTotal: true, row: 4 }
+        ],
+        source: { fileType: 'excel', sheetName: 'P&L' }
+      }
+    ],
+    charts: [
+      {
+        type: 'bar',
+        title: 'Revenue vs Expenses',
+        data: [{ name: 'FY2023', revenue: 1200000, expenses: 900000 }],
+        series: [{ dataKey: 'revenue', name: 'Revenue' }, { dataKey: 'expenses', name: 'Expenses' }]
+      }
+    ],
+    insights: [
+      { id: 'insight-1', title: 'Revenue growth', description: 'Revenue grew 20% year over year.', type: 'positive', importance: 'high' }
+    ],
+    risks: ['Rising cost of sales'],
+    opportunities: ['Expansion into adjacent markets'],
+    recommendations: ['Review operating expense growth'],
+    metadata: {
+      generatedAt: '2026-10-19T12:00:00.000Z',
+      analysisId: 'analysis-1',
+      dashboardId: 'dashboard-1'
+    },
+    ...overrides
+  };
+}
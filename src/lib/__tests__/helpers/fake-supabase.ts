@@ -0,0 +1,219 @@
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+  data: any;
+  error: { message: string } | null;
+  count?: number | null;
+}
+
+/**
+ * In-memory stand-in for the Supabase client. Tables are arrays of rows;
+ * queries support the filters and modifiers the services use. Like
+ * PostgREST, a select returns at most `maxRows` rows. Database functions
+ * are registered by name in `rpcs`.
+ */
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  objects: Record<string, Buffer> = {}; // "bucket/path" -> contents
+  rpcs: Record<string, (args: any) => any> = {};
+  maxRows = 1000;
+
+  constructor(private defaults: Record<string, Row> = {}) {}
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this.rows(table), this.defaults[table] || {}, this.maxRows);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables[table]) this.tables[table] = [];
+    return this.tables[table];
+  }
+
+  async rpc(name: string, args: any = {}): Promise<QueryResult> {
+    const handler = this.rpcs[name];
+    if (!handler) {
+      return { data: null, error: { message: `Function ${name} not found` } };
+    }
+    return { data: handler(args), error: null };
+  }
+
+  storage = {
+    from: (bucket: string) => ({
+      upload: async (path: string, body: Buffer) => {
+        this.objects[`${bucket}/${path}`] = body;
+        return { data: { path }, error: null };
+      },
+      download: async (path: string) => {
+        const body = this.objects[`${bucket}/${path}`];
+        return body
+          ? { data: new Blob([new Uint8Array(body)]), error: null }
+          : { data: null, error: { message: 'Object not found' } };
+      },
+      remove: async (paths: string[]) => {
+        paths.forEach(path => delete this.objects[`${bucket}/${path}`]);
+        return { data: [], error: null };
+      }
+    })
+  };
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private changes: Row = {};
+  private filters: Filter[] = [];
+  private returning = false;
+  private countOnly = false;
+  private singleMode: 'single' | 'maybe' | null = null;
+  private sort: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+
+  constructor(private rows: Row[], private defaults: Row, private maxRows: number) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}): this {
+    if (this.action !== 'select') this.returning = true;
+    this.countOnly = options.head === true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[]): this {
+    this.action = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.action = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(row => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(row => row[column] !== value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where(row => values.includes(row[column]));
+  }
+
+  is(column: string, value: null): this {
+    return this.where(row => (row[column] ?? null) === value);
+  }
+
+  gte(column: string, value: string | number): this {
+    return this.where(row => row[column] >= value);
+  }
+
+  lte(column: string, value: string | number): this {
+    return this.where(row => row[column] <= value);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sort.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = 'maybe';
+    return this;
+  }
+
+  then<T = QueryResult, E = never>(
+    onfulfilled?: ((value: QueryResult) => T | PromiseLike<T>) | null,
+    onrejected?: ((reason: any) => E | PromiseLike<E>) | null
+  ): PromiseLike<T | E> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private execute(): QueryResult {
+    const now = new Date().toISOString();
+    let affected: Row[];
+
+    switch (this.action) {
+      case 'insert':
+      case 'upsert':
+        affected = this.payload.map(values => {
+          const existing = this.action === 'upsert' && values.id !== undefined
+            ? this.rows.find(row => row.id === values.id)
+            : undefined;
+          if (existing) return Object.assign(existing, values);
+
+          const row = { id: `${this.rows.length + 1}`, created_at: now, ...this.defaults, ...values };
+          this.rows.push(row);
+          return row;
+        });
+        break;
+      case 'update':
+        affected = this.matching();
+        affected.forEach(row => Object.assign(row, this.changes));
+        break;
+      case 'delete':
+        affected = this.matching();
+        affected.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+      default:
+        affected = this.matching();
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    let result = affected.map(row => ({ ...row }));
+    this.sort.slice().reverse().forEach(({ column, ascending }) => {
+      result.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    });
+    const count = result.length;
+    if (this.window) result = result.slice(this.window.from, this.window.to + 1);
+    result = result.slice(0, this.maxRows);
+
+    if (this.countOnly) return { data: null, error: null, count };
+    if (this.singleMode) {
+      if (result.length === 1) return { data: result[0], error: null };
+      return this.singleMode === 'maybe' && result.length === 0
+        ? { data: null, error: null }
+        : { data: null, error: { message: `Expected one row, found ${result.length}` } };
+    }
+    return { data: result, error: null, count };
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter(row => this.filters.every(filter => filter(row)));
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import KPIEngine from '@/lib/kpi-engine';
+
+describe('KPIEngine.parseAIValue', () => {
+  it.each([
+    ['$1.2M', 1.2e6],
+    ['1,200,000 USD', 1200000],
+    ['3.4 billion', 3.4e9],
+    ['(5.2%)', -5.2],
+    ['-12.5%', -12.5],
+    ['12.5%', 12.5],
+    ['1.5x', 1.5],
+    ['0.85', 0.85],
+    ['1.2 months', 1.2],
+    ['Ratio of 1.5.', 1.5]
+  ])('reads %s as %d', (value, expected) => {
+    expect(KPIEngine.parseAIValue(value)).toBe(expected);
+  });
+
+  it('returns null when there is no number', () => {
+    expect(KPIEngine.parseAIValue('N/A')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TABLES, supabase } from '@/lib/supabase';
+import { MockLLMProvider, getLLMProviderForUser } from '@/lib/llm-provider';
+import type { FakeSupabase } from './helpers/fake-supabase';
+
+vi.mock('@/lib/supabase', async (importOriginal) => {
+  const { FakeSupabase } = await import('./helpers/fake-supabase');
+  return { ...(await importOriginal<typeof import('@/lib/supabase')>()), supabase: new FakeSupabase() };
+});
+
+const db = supabase as unknown as FakeSupabase;
+
+describe('MockLLMProvider', () => {
+  it('answers with the first matching fixture and records the call', async () => {
+    const provider = new MockLLMProvider([
+      { match: '/total (revenue|sales)/i', response: 'regex fixture' },
+      { match: 'margin', response: 'substring fixture' }
+    ]);
+
+    expect(await provider.generate('What was Total Revenue?')).toBe('regex fixture');
+    expect(await provider.generate('gross margin trend', { json: true })).toBe('substring fixture');
+    expect(await provider.generate('anything else')).toMatch(/mock response/);
+    expect(provider.calls[1]).toEqual({ prompt: 'gross margin trend', options: { json: true } });
+  });
+
+  it('streams the fixture word by word', async () => {
+    const provider = new MockLLMProvider([{ match: '', response: 'Revenue rose 20%.' }]);
+    const parts: string[] = [];
+    for await (const part of provider.stream('question')) parts.push(part);
+
+    expect(parts).toEqual(['Revenue ', 'rose ', '20%.']);
+  });
+});
+
+describe('getLLMProviderForUser', () => {
+  beforeEach(() => {
+    db.tables = {};
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the provider and model stored on the profile', async () => {
+    db.rows(TABLES.USERS).push({ id: 'user-1', llm_provider: 'ollama', llm_model: 'qwen2.5' });
+
+    const provider = await getLLMProviderForUser('user-1');
+    expect(provider.name).toBe('ollama');
+    expect(provider.model).toBe('qwen2.5');
+  });
+
+  it('falls back to the environment default without a profile setting', async () => {
+    db.rows(TABLES.USERS).push({ id: 'user-1', llm_provider: null });
+
+    expect((await getLLMProviderForUser('user-1')).name).toBe('openai');
+  });
+
+  it('rejects the mock as a tenant setting', async () => {
+    db.rows(TABLES.USERS).push({ id: 'user-1', llm_provider: 'mock' });
+
+    await expect(getLLMProviderForUser('user-1')).rejects.toThrow(/mock LLM provider/);
+  });
+
+  it('uses the mock for everyone when the environment selects it', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    db.rows(TABLES.USERS).push({ id: 'user-1', llm_provider: 'openai' });
+
+    expect((await getLLMProviderForUser('user-1')).name).toBe('mock');
+  });
+});
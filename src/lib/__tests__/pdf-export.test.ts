@@ -0,0 +1,25 @@
+import PDFDocument from 'pdfkit';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import PDFExportService from '@/lib/pdf-export';
+import { exportData } from './fixtures/export-data';
+
+describe('PDFExportService.generate', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('numbers pages out of the full page count, cover included', async () => {
+    const text = vi.spyOn(PDFDocument.prototype, 'text');
+    const longSummary = Array.from({ length: 80 }, (_, index) => `Paragraph ${index + 1} of the executive summary.`).join('\n\n');
+
+    const pdf = await PDFExportService.generate(exportData({ summary: longSummary }), 'acme.xlsx');
+
+    const pageCount = (pdf.toString('latin1').match(/\/Type \/Page\b(?!s)/g) || []).length;
+    const footers = text.mock.calls.map(([value]) => value).filter(value => /^Page \d+ of \d+$/.test(String(value)));
+
+    expect(pageCount).toBeGreaterThan(2);
+    expect(footers).toHaveLength(pageCount - 1);
+    expect(footers[0]).toBe(`Page 2 of ${pageCount}`);
+    expect(footers[footers.length - 1]).toBe(`Page ${pageCount} of ${pageCount}`);
+  });
+});
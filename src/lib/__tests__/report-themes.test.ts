@@ -0,0 +1,59 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import DocxExportService from '@/lib/docx-export';
+import ExportTemplateService from '@/lib/export-templates';
+import ReportThemeService from '@/lib/report-themes';
+import { exportData } from './fixtures/export-data';
+
+// 1×1 transparent PNG
+const LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const theme = ReportThemeService.toTheme({
+  id: 'theme-1',
+  user_id: 'user-1',
+  name: 'Acme',
+  logo: LOGO,
+  colors: { primary: '#0F766E', text: '#1F2937' },
+  fonts: { heading: 'serif' },
+  cover_title: 'Acme Board Pack',
+  confidentiality_label: 'Confidential',
+  is_default: false,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z'
+});
+
+describe('ReportThemeService', () => {
+  it('fills colours and fonts the theme does not set from the default theme', () => {
+    const defaults = ReportThemeService.getDefaultTheme();
+
+    expect(theme.colors).toEqual({ ...defaults.colors, primary: '#0F766E', text: '#1F2937' });
+    expect(theme.fonts).toEqual({ heading: 'serif', body: 'sans' });
+    expect(ReportThemeService.decodeLogo(theme)).toMatchObject({ type: 'png', width: 1, height: 1 });
+  });
+
+  it('brands HTML exports with the theme\'s colours, logo and cover title', () => {
+    const data = ReportThemeService.apply(exportData(), theme);
+
+    const html = ExportTemplateService.render(ExportTemplateService.getBuiltInTemplate('html'), data, 'acme.xlsx');
+
+    expect(html).toContain('<h1>Acme Board Pack</h1>');
+    expect(html).toContain('border-top: 6px solid #0F766E');
+    expect(html).toContain('color: #1F2937');
+    // Handlebars escapes "=" as an entity, which the browser decodes
+    expect(html).toContain(`<img class="logo" src="${LOGO.replace(/=/g, '&#x3D;')}"`);
+    expect(html).toContain('<div class="label">Confidential</div>');
+    expect(html).toContain(`h1, h2 { font-family: ${ReportThemeService.cssFont('serif')}; }`);
+  });
+
+  it('brands Word exports with the theme\'s colours and logo', async () => {
+    const data = ReportThemeService.apply(exportData(), theme);
+
+    const zip = await JSZip.loadAsync(await DocxExportService.generate(data, 'acme.xlsx'));
+    const document = await zip.file('word/document.xml')!.async('string');
+    const media = Object.keys(zip.files).filter(name => name.startsWith('word/media/'));
+
+    expect(document).toContain('Acme Board Pack');
+    expect(document).toContain('w:color="0F766E"');
+    expect(media.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import KPIEngine from '@/lib/kpi-engine';
+import TrendAnalysisService from '@/lib/trend-analysis';
+import { FinancialStatement } from '@/types';
+
+function incomeStatement(periods: string[], lineItems: [string, FinancialStatement['lineItems'][number]['concept'], number[]][]): FinancialStatement {
+  return {
+    type: 'income_statement',
+    periods,
+    unit: 'ones',
+    multiplier: 1,
+    lineItems: lineItems.map(([label, concept, values]) => ({ label, concept, values, sign: 'positive', isTotal: false })),
+    source: { fileType: 'excel', sheetName: 'P&L' }
+  };
+}
+
+describe('TrendAnalysisService.buildTrend', () => {
+  it('reads the same line item as the KPI engine when a concept repeats', () => {
+    // A segment note repeats "Revenue" below the consolidated figure
+    const statement = incomeStatement(['FY2023', 'FY2022'], [
+      ['Revenue', 'revenue', [1200000, 1000000]],
+      ['Revenue - Retail segment', 'revenue', [300000, 250000]]
+    ]);
+
+    const trend = TrendAnalysisService.buildTrend([{ fileName: 'acme-2023.xlsx', statements: [statement] }]);
+    const revenue = KPIEngine.compute([statement]).find(metric => metric.key === 'revenue');
+
+    expect(trend.points.map(point => point.values.revenue)).toEqual([1000000, 1200000]);
+    expect(revenue?.value).toBe(trend.points[1].values.revenue);
+  });
+
+  it('lets a later upload restate an earlier period', () => {
+    const trend = TrendAnalysisService.buildTrend([
+      { fileName: 'acme-2023.xlsx', uploadedAt: '2024-03-01', statements: [incomeStatement(['FY2023', 'FY2022'], [['Revenue', 'revenue', [1200000, 1000000]]])] },
+      { fileName: 'acme-2022.xlsx', uploadedAt: '2023-03-01', statements: [incomeStatement(['FY2022', 'FY2021'], [['Revenue', 'revenue', [990000, 800000]]])] }
+    ]);
+
+    expect(trend.points.map(point => [point.period, point.values.revenue])).toEqual([
+      ['FY2021', 800000],
+      ['FY2022', 1000000],
+      ['FY2023', 1200000]
+    ]);
+  });
+});
+
+describe('KPIEngine.getPeriodOrder', () => {
+  it('orders the period labels the trend recognises from latest to earliest', () => {
+    expect(KPIEngine.getPeriodOrder(['Q3 2023', '1Q24', 'Three months ended June 30, 2023'])).toEqual([1, 0, 2]);
+    expect(KPIEngine.getPeriodOrder(['FY22', 'FY23'])).toEqual([1, 0]);
+  });
+
+  it('keeps the presented order when a period has no year', () => {
+    expect(KPIEngine.getPeriodOrder(['Current', 'Prior'])).toEqual([0, 1]);
+  });
+});
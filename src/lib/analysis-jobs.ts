@@ -0,0 +1,414 @@
+import { supabase, STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
+import { GeminiAnalysisService } from '@/lib/gemini';
+import { getLLMProviderForUser } from '@/lib/llm-provider';
+import FileParsingService from '@/lib/file-parser';
+import TrendAnalysisService from '@/lib/trend-analysis';
+import DocumentRetrievalService from '@/lib/document-retrieval';
+import { InvalidAnalysisOutputError } from '@/lib/analysis-output';
+import { AnalysisJobStage, AnalysisResponse } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+const WORKER_ID = `worker-${process.pid}-${uuidv4().slice(0, 8)}`;
+const LOCK_TIMEOUT_SECONDS = 600;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const MAX_JOBS_PER_RUN = 10;
+
+// Progress reported when each stage starts
+const STAGE_PROGRESS: Record<AnalysisJobStage, number> = {
+  queued: 0,
+  downloading: 10,
+  parsing: 25,
+  analyzing: 45,
+  saving: 90,
+  completed: 100
+};
+
+// Parsing failures are deterministic, so retrying them cannot succeed. Invalid
+// model output is not retried either: the analysis already re-prompted the model.
+const RETRYABLE_STAGES: AnalysisJobStage[] = ['queued', 'downloading', 'analyzing', 'saving'];
+
+let workerRunning = false;
+
+export class AnalysisJobService {
+  /**
+   * Queue an analysis for a file and wake the in-process worker
+   */
+  static async enqueue(
+    userId: string,
+    file: { id: string },
+    options: { analysisType?: 'full' | 'quick' | 'custom'; customPrompt?: string } = {}
+  ): Promise<any> {
+    const { data: job, error } = await supabase
+      .from(TABLES.ANALYSIS_JOBS)
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        file_id: file.id,
+        analysis_type: options.analysisType || 'full',
+        custom_prompt: options.customPrompt || null
+      })
+      .select()
+      .single();
+
+    if (error || !job) {
+      console.error('Analysis job insert error:', error);
+      throw new Error('Failed to queue analysis');
+    }
+
+    await supabase
+      .from(TABLES.FILES)
+      .update({ analysis_status: 'pending' })
+      .eq('id', file.id);
+
+    this.startWorker();
+    return job;
+  }
+
+  /**
+   * Find a queued or running job for a file, if any
+   */
+  static async findActiveJob(fileId: string): Promise<any | null> {
+    const { data: jobs } = await supabase
+      .from(TABLES.ANALYSIS_JOBS)
+      .select('*')
+      .eq('file_id', fileId)
+      .in('status', ['queued', 'running'])
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    return jobs?.[0] || null;
+  }
+
+  /**
+   * Start draining the queue in this process unless a loop is already running
+   */
+  static startWorker(): void {
+    if (workerRunning) return;
+    workerRunning = true;
+
+    this.processQueue()
+      .catch(error => console.error('Analysis worker error:', error))
+      .finally(() => {
+        workerRunning = false;
+      });
+  }
+
+  /**
+   * Claim and run jobs until the queue is empty or the limit is reached.
+   * Returns the number of jobs processed.
+   */
+  static async processQueue(maxJobs: number = MAX_JOBS_PER_RUN): Promise<number> {
+    let processed = 0;
+
+    while (processed < maxJobs) {
+      const { data: claimed, error } = await supabase.rpc('claim_analysis_job', {
+        worker_id: WORKER_ID,
+        lock_timeout_seconds: LOCK_TIMEOUT_SECONDS
+      });
+
+      if (error) {
+        console.error('Analysis job claim error:', error);
+        break;
+      }
+
+      const job = Array.isArray(claimed) ? claimed[0] : claimed;
+      if (!job) break;
+
+      await this.runJob(job);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Run the download → parse → analyze → save pipeline for a claimed job
+   */
+  static async runJob(job: any): Promise<void> {
+    let stage: AnalysisJobStage = 'queued';
+    const setStage = async (next: AnalysisJobStage) => {
+      stage = next;
+      return this.heartbeat(job, { stage: next, progress: STAGE_PROGRESS[next] });
+    };
+
+    const { data: file, error: fileError } = await supabase
+      .from(TABLES.FILES)
+      .select('*')
+      .eq('id', job.file_id)
+      .eq('user_id', job.user_id)
+      .single();
+
+    if (fileError || !file) {
+      await this.updateJob(job, {
+        status: 'failed',
+        last_error: 'File not found',
+        locked_at: null,
+        locked_by: null
+      });
+      return;
+    }
+
+    try {
+      if (job.attempts > job.max_attempts) {
+        throw new Error('Analysis job exceeded its retry limit');
+      }
+
+      // Download file from storage
+      await setStage('downloading');
+      if (!file.supabase_storage_path) {
+        throw new Error('File storage path not found');
+      }
+
+      const { data: fileData, error: downloadError } = await supabase.storage
+        .from(STORAGE_BUCKETS.FILES)
+        .download(file.supabase_storage_path);
+
+      if (downloadError || !fileData) {
+        throw new Error('Failed to download file from storage');
+      }
+
+      // Parse file content
+      await setStage('parsing');
+      const fileBuffer = Buffer.from(await fileData.arrayBuffer());
+      const parsedContent = await FileParsingService.parseFile(
+        fileBuffer,
+        file.file_name,
+        file.file_type as 'pdf' | 'excel' | 'csv'
+      );
+
+      const contentValidation = GeminiAnalysisService.validateContent(parsedContent.text);
+      if (!contentValidation.isValid) {
+        throw new Error(contentValidation.error);
+      }
+
+      // Generate analysis with the user's configured model
+      await setStage('analyzing');
+      const analysisService = new GeminiAnalysisService(await getLLMProviderForUser(job.user_id));
+      const analysisResult = await analysisService.analyzeFinancialReport(
+        parsedContent.text,
+        file.file_name,
+        job.custom_prompt || undefined,
+        parsedContent.statements,
+        // Long documents are analyzed in sections; spread their progress over the
+        // stage and keep the lock fresh while they run
+        async (completed, total) => {
+          await this.heartbeat(job, {
+            progress: STAGE_PROGRESS.analyzing +
+              Math.floor((STAGE_PROGRESS.saving - STAGE_PROGRESS.analyzing) * completed / total)
+          });
+        }
+      );
+
+      // Save analysis to database, unless the lock expired and another worker
+      // has claimed the job in the meantime
+      if (!(await setStage('saving'))) {
+        console.warn(`Analysis job ${job.id} lost its lock; discarding this run`);
+        return;
+      }
+      const { data: savedAnalysis, error: analysisError } = await supabase
+        .from(TABLES.ANALYSES)
+        .insert({
+          id: uuidv4(),
+          file_id: file.id,
+          summary: analysisResult.summary,
+          kpis: analysisResult.kpis,
+          computed_kpis: analysisResult.computedKpis || [],
+          kpi_discrepancies: analysisResult.kpiDiscrepancies || [],
+          statements: parsedContent.statements || [],
+          model: analysisService.modelId,
+          sections: analysisResult.sections || [],
+          finding_sources: analysisResult.findingSources || null,
+          citations: analysisResult.citations || null,
+          risks: analysisResult.risks,
+          opportunities: analysisResult.opportunities,
+          recommendations: analysisResult.recommendations
+        })
+        .select()
+        .single();
+
+      if (analysisError || !savedAnalysis) {
+        console.error('Analysis save error:', analysisError);
+        throw new Error('Failed to save analysis');
+      }
+
+      // Passages for chat retrieval; chat indexes the stored file itself if this fails
+      try {
+        await DocumentRetrievalService.indexDocument(savedAnalysis.id, parsedContent.text);
+      } catch (error) {
+        console.error('Document index error:', error);
+      }
+
+      // Complete the job before touching the file, dashboards and notifications,
+      // which belong to whichever run finishes the job
+      const completed = await this.updateJob(job, {
+        status: 'completed',
+        stage: 'completed',
+        progress: 100,
+        analysis_id: savedAnalysis.id,
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+        completed_at: new Date().toISOString()
+      });
+
+      if (!completed) {
+        console.warn(`Analysis job ${job.id} lost its lock; discarding this run`);
+        await supabase
+          .from(TABLES.ANALYSES)
+          .delete()
+          .eq('id', savedAnalysis.id);
+        return;
+      }
+
+      await supabase
+        .from(TABLES.FILES)
+        .update({ analysis_status: 'completed' })
+        .eq('id', file.id);
+
+      // New periods change the trend charts of every report for this company
+      if (file.company_id) {
+        await TrendAnalysisService.invalidateCompanyDashboards(file.company_id);
+      }
+
+      await supabase
+        .from(TABLES.NOTIFICATIONS)
+        .insert({
+          user_id: job.user_id,
+          type: 'success',
+          title: 'Analysis Complete',
+          message: `Financial analysis for "${file.file_name}" has been completed successfully.`
+        });
+
+    } catch (error) {
+      console.error(`Analysis job ${job.id} failed during ${stage}:`, error);
+      await this.handleFailure(job, file, stage, error);
+    }
+  }
+
+  /**
+   * Build the API view of a job, including the estimated time remaining
+   */
+  static toResponse(job: any, file?: { file_size?: number; file_type?: string }): AnalysisResponse {
+    const status = job.status === 'completed' ? 'completed' : job.status === 'failed' ? 'failed' : 'pending';
+    const estimate = this.estimateDuration(file?.file_size || 0, file?.file_type || 'pdf');
+
+    return {
+      jobId: job.id,
+      analysisId: job.analysis_id || undefined,
+      status,
+      stage: job.stage,
+      progress: job.progress,
+      estimatedTime: status === 'pending' ? Math.ceil(estimate * (1 - job.progress / 100)) : 0,
+      error: status === 'failed' ? job.last_error || 'Analysis failed' : undefined,
+      message: status === 'completed'
+        ? 'Analysis completed successfully'
+        : status === 'failed'
+          ? 'Analysis failed'
+          : job.status === 'queued' && job.attempts > 0
+            ? `Retrying analysis (attempt ${job.attempts + 1} of ${job.max_attempts})`
+            : 'Analysis in progress'
+    };
+  }
+
+  /**
+   * Rough analysis duration in seconds based on file size and type
+   */
+  static estimateDuration(fileSize: number, fileType: string): number {
+    const secondsPerMB = fileType === 'pdf' ? 8 : fileType === 'excel' ? 5 : 3;
+    return Math.round(20 + (fileSize / 1024 / 1024) * secondsPerMB);
+  }
+
+  /**
+   * Requeue with exponential backoff, or mark the job and file as failed
+   * once retries are exhausted or the failure cannot be retried. Does nothing
+   * when this run no longer holds the job's lock.
+   */
+  private static async handleFailure(job: any, file: any, stage: AnalysisJobStage, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : 'Analysis generation failed';
+    const canRetry = RETRYABLE_STAGES.includes(stage)
+      && !(error instanceof InvalidAnalysisOutputError)
+      && job.attempts < job.max_attempts;
+
+    if (canRetry) {
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+      const requeued = await this.updateJob(job, {
+        status: 'queued',
+        stage: 'queued',
+        progress: 0,
+        last_error: message,
+        run_after: new Date(Date.now() + delay).toISOString(),
+        locked_at: null,
+        locked_by: null
+      });
+
+      if (!requeued) {
+        console.warn(`Analysis job ${job.id} lost its lock; not requeueing this run`);
+        return;
+      }
+
+      // Wake this process once the backoff has elapsed
+      const timer = setTimeout(() => this.startWorker(), delay + 1000);
+      timer.unref?.();
+      return;
+    }
+
+    const failed = await this.updateJob(job, {
+      status: 'failed',
+      last_error: message,
+      locked_at: null,
+      locked_by: null,
+      completed_at: new Date().toISOString()
+    });
+
+    if (!failed) {
+      console.warn(`Analysis job ${job.id} lost its lock; not marking it failed`);
+      return;
+    }
+
+    await supabase
+      .from(TABLES.FILES)
+      .update({ analysis_status: 'failed' })
+      .eq('id', file.id);
+
+    await supabase
+      .from(TABLES.NOTIFICATIONS)
+      .insert({
+        user_id: job.user_id,
+        type: 'error',
+        title: 'Analysis Failed',
+        message: `Failed to analyze "${file.file_name}". Please try again or contact support.`
+      });
+  }
+
+  /**
+   * Record progress and refresh the job's lock; false when the lock was lost
+   */
+  private static async heartbeat(job: any, updates: Record<string, any>): Promise<boolean> {
+    return this.updateJob(job, { ...updates, locked_at: new Date().toISOString() });
+  }
+
+  /**
+   * Update a job this run has claimed. Returns false when this run no longer
+   * holds the lock: each claim increments attempts, so a job taken over by
+   * another worker (or reclaimed by this one) no longer matches.
+   */
+  private static async updateJob(job: any, updates: Record<string, any>): Promise<boolean> {
+    const { data, error } = await supabase
+      .from(TABLES.ANALYSIS_JOBS)
+      .update(updates)
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', job.locked_by)
+      .eq('attempts', job.attempts)
+      .select('id');
+
+    if (error) {
+      console.error('Analysis job update error:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+}
+
+export default AnalysisJobService;
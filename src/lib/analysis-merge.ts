@@ -0,0 +1,137 @@
+import { AnalysisCitations, AnalysisSection, Citation, FindingSources, KPIs } from '@/types';
+import type { AnalysisResult } from '@/lib/gemini';
+
+export interface SectionAnalysis {
+  section: AnalysisSection;
+  result: AnalysisResult;
+}
+
+type FindingList = 'risks' | 'opportunities' | 'recommendations';
+
+interface MergedFinding {
+  text: string;
+  tokens: Set<string>;
+  sources: string[];
+  citations: Citation[];
+}
+
+// Findings whose word sets overlap at least this much are treated as duplicates
+const DUPLICATE_SIMILARITY = 0.6;
+const MAX_FINDINGS_PER_LIST = 10;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'has', 'have', 'its',
+  'into', 'due', 'may', 'could', 'which', 'their', 'over', 'company', 'company\'s'
+]);
+
+export class AnalysisMergeService {
+  /**
+   * Merge per-section results into one analysis. Each KPI takes the first
+   * section that reports a value; findings are de-duplicated across
+   * sections and ranked by how many sections support them.
+   */
+  static merge(partials: SectionAnalysis[], summary: string): AnalysisResult {
+    const kpis = {} as KPIs;
+    const kpiSources: FindingSources['kpis'] = {};
+    const kpiCitations: AnalysisCitations['kpis'] = {};
+
+    partials.forEach(({ section, result }) => {
+      (Object.keys(result.kpis) as (keyof KPIs)[]).forEach(key => {
+        const value = result.kpis[key];
+        if (!kpis[key]) kpis[key] = 'N/A';
+        if (!value || value === 'N/A') return;
+
+        const citations = result.citations?.kpis[key] || [];
+        if (kpis[key] === 'N/A') {
+          kpis[key] = value;
+          kpiSources[key] = [section.id];
+          kpiCitations[key] = [...citations];
+        } else if (this.normalize(kpis[key]) === this.normalize(value)) {
+          kpiSources[key]!.push(section.id);
+          kpiCitations[key]!.push(...citations);
+        }
+      });
+    });
+
+    const lists = {} as Record<FindingList, MergedFinding[]>;
+    (['risks', 'opportunities', 'recommendations'] as FindingList[]).forEach(list => {
+      lists[list] = this.mergeFindings(partials, list);
+    });
+
+    return {
+      summary,
+      kpis,
+      risks: lists.risks.map(finding => finding.text),
+      opportunities: lists.opportunities.map(finding => finding.text),
+      recommendations: lists.recommendations.map(finding => finding.text),
+      sections: partials.map(({ section }) => section),
+      findingSources: {
+        kpis: kpiSources,
+        risks: lists.risks.map(finding => finding.sources),
+        opportunities: lists.opportunities.map(finding => finding.sources),
+        recommendations: lists.recommendations.map(finding => finding.sources)
+      },
+      citations: {
+        kpis: kpiCitations,
+        risks: lists.risks.map(finding => finding.citations),
+        opportunities: lists.opportunities.map(finding => finding.citations),
+        recommendations: lists.recommendations.map(finding => finding.citations)
+      }
+    };
+  }
+
+  private static mergeFindings(partials: SectionAnalysis[], list: FindingList): MergedFinding[] {
+    const merged: MergedFinding[] = [];
+
+    partials.forEach(({ section, result }) => {
+      result[list].forEach((text, index) => {
+        const tokens = this.tokenize(text);
+        const citations = result.citations?.[list][index] || [];
+        const duplicate = merged.find(finding => this.similarity(finding.tokens, tokens) >= DUPLICATE_SIMILARITY);
+
+        if (duplicate) {
+          if (!duplicate.sources.includes(section.id)) duplicate.sources.push(section.id);
+          duplicate.citations.push(...citations);
+          // Keep the more detailed wording
+          if (text.length > duplicate.text.length) {
+            duplicate.text = text;
+            duplicate.tokens = tokens;
+          }
+        } else {
+          merged.push({ text, tokens, sources: [section.id], citations: [...citations] });
+        }
+      });
+    });
+
+    // Ties keep document order
+    return merged
+      .map((finding, index) => ({ finding, index }))
+      .sort((a, b) => b.finding.sources.length - a.finding.sources.length || a.index - b.index)
+      .slice(0, MAX_FINDINGS_PER_LIST)
+      .map(({ finding }) => finding);
+  }
+
+  private static tokenize(text: string): Set<string> {
+    return new Set(
+      text.toLowerCase()
+        .split(/[^a-z0-9%$.']+/)
+        .map(token => token.replace(/^[.']+|[.']+$/g, ''))
+        .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+    );
+  }
+
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(token => {
+      if (b.has(token)) shared++;
+    });
+    return shared / (a.size + b.size - shared);
+  }
+
+  private static normalize(value: string): string {
+    return value.toLowerCase().replace(/[\s,]/g, '');
+  }
+}
+
+export default AnalysisMergeService;
@@ -0,0 +1,233 @@
+import { KPIs } from '@/types';
+import type { AnalysisResult } from '@/lib/gemini';
+import type { AnalysisEvidence } from '@/lib/citations';
+
+export type AnalysisValidation =
+  | { valid: true; result: AnalysisResult }
+  | { valid: false; errors: string[] };
+
+const REQUIRED_KPIS: (keyof KPIs)[] = ['revenue', 'expenses', 'netProfit', 'growthRate'];
+const OPTIONAL_KPIS: (keyof KPIs)[] = [
+  'totalAssets',
+  'totalLiabilities',
+  'cashFlow',
+  'debtToEquityRatio',
+  'returnOnInvestment',
+  'profitMargin'
+];
+const LIST_FIELDS = ['risks', 'opportunities', 'recommendations'] as const;
+
+/**
+ * The model kept returning output that fails schema validation. The same
+ * prompt fails the same way, so callers should not retry it.
+ */
+export class InvalidAnalysisOutputError extends Error {
+  constructor(readonly errors: string[], attempts: number) {
+    super(`AI returned invalid analysis output after ${attempts} attempts: ${errors.join('; ')}`);
+    this.name = 'InvalidAnalysisOutputError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, InvalidAnalysisOutputError.prototype);
+  }
+}
+
+export class AnalysisOutputValidator {
+  /**
+   * Parse a model response into an AnalysisResult, repairing malformed or
+   * truncated JSON first. Returns every schema violation found.
+   */
+  static parse(text: string): AnalysisValidation {
+    let value: unknown;
+    try {
+      value = JSON.parse(this.stripFences(text));
+    } catch {
+      try {
+        value = JSON.parse(this.repairJSON(text));
+      } catch (error) {
+        return {
+          valid: false,
+          errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`]
+        };
+      }
+    }
+
+    return this.validate(value);
+  }
+
+  /**
+   * Check a parsed value against the analysis schema
+   */
+  static validate(value: unknown): AnalysisValidation {
+    const errors: string[] = [];
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { valid: false, errors: ['Response must be a JSON object'] };
+    }
+    const parsed = value as Record<string, any>;
+
+    if (typeof parsed.summary !== 'string' || parsed.summary.trim().length === 0) {
+      errors.push('"summary" must be a non-empty string');
+    }
+
+    const kpis: Partial<KPIs> = {};
+    if (!parsed.kpis || typeof parsed.kpis !== 'object' || Array.isArray(parsed.kpis)) {
+      errors.push('"kpis" must be an object');
+    } else {
+      REQUIRED_KPIS.forEach(key => {
+        const kpi = parsed.kpis[key];
+        if (typeof kpi !== 'string' || kpi.trim().length === 0) {
+          errors.push(`"kpis.${key}" must be a non-empty string (use "N/A" when unavailable)`);
+        } else {
+          kpis[key] = kpi.trim();
+        }
+      });
+      OPTIONAL_KPIS.forEach(key => {
+        const kpi = parsed.kpis[key];
+        if (kpi === undefined || kpi === null) {
+          kpis[key] = 'N/A';
+        } else if (typeof kpi !== 'string') {
+          errors.push(`"kpis.${key}" must be a string`);
+        } else {
+          kpis[key] = kpi.trim() || 'N/A';
+        }
+      });
+    }
+
+    LIST_FIELDS.forEach(field => {
+      const list = parsed[field];
+      if (!Array.isArray(list)) {
+        errors.push(`"${field}" must be an array of strings`);
+      } else if (list.some(item => typeof item !== 'string' || item.trim().length === 0)) {
+        errors.push(`"${field}" must only contain non-empty strings`);
+      }
+    });
+
+    // Evidence is optional; unusable quotes are dropped rather than retried
+    let evidence: AnalysisEvidence | undefined;
+    if (parsed.evidence !== undefined && parsed.evidence !== null) {
+      if (typeof parsed.evidence !== 'object' || Array.isArray(parsed.evidence)) {
+        errors.push('"evidence" must be an object');
+      } else {
+        evidence = this.parseEvidence(parsed.evidence);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    return {
+      valid: true,
+      result: {
+        summary: parsed.summary.trim(),
+        kpis: kpis as KPIs,
+        risks: parsed.risks.map((item: string) => item.trim()),
+        opportunities: parsed.opportunities.map((item: string) => item.trim()),
+        recommendations: parsed.recommendations.map((item: string) => item.trim()),
+        ...(evidence ? { evidence } : {})
+      }
+    };
+  }
+
+  /**
+   * Best-effort repair of common model output defects: code fences, prose
+   * around the object, trailing commas and output truncated mid-value.
+   * Truncated output is cut back to the last complete value, so a half-written
+   * key or string is dropped rather than kept.
+   */
+  static repairJSON(text: string): string {
+    const source = this.stripFences(text);
+    const start = source.indexOf('{');
+    if (start < 0) return source;
+
+    let output = '';
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let stringIsKey = false;
+    let expectKey = false;
+    let closed = false;
+    // End of the last complete value, with the brackets still open there
+    let complete = { length: 0, stack: [] as string[] };
+    const markComplete = () => {
+      complete = { length: output.length, stack: [...stack] };
+    };
+
+    for (const char of source.slice(start)) {
+      if (inString) {
+        output += char;
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (!stringIsKey) markComplete();
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringIsKey = expectKey;
+      } else if (char === '{' || char === '[') {
+        stack.push(char);
+        expectKey = char === '{';
+        output += char;
+        markComplete();
+        continue;
+      } else if (char === '}' || char === ']') {
+        stack.pop();
+        output += char;
+        if (stack.length === 0) {
+          closed = true;
+          break; // ignore anything after the top-level object
+        }
+        expectKey = false;
+        markComplete();
+        continue;
+      } else if (char === ',') {
+        markComplete();
+        expectKey = stack[stack.length - 1] === '{';
+      } else if (char === ':') {
+        expectKey = false;
+      }
+      output += char;
+    }
+
+    if (!closed) {
+      output = output.slice(0, complete.length).replace(/[\s,]+$/, '');
+      const open = complete.stack;
+      while (open.length > 0) {
+        output += open.pop() === '{' ? '}' : ']';
+      }
+    }
+
+    return output.replace(/,(\s*[}\]])/g, '$1');
+  }
+
+  private static parseEvidence(value: Record<string, any>): AnalysisEvidence {
+    const excerpt = (item: unknown) => typeof item === 'string' && item.trim() ? item.trim() : null;
+    const list = (items: unknown) => Array.isArray(items) ? items.map(excerpt) : [];
+
+    const kpis: AnalysisEvidence['kpis'] = {};
+    if (value.kpis && typeof value.kpis === 'object') {
+      [...REQUIRED_KPIS, ...OPTIONAL_KPIS].forEach(key => {
+        const text = excerpt(value.kpis[key]);
+        if (text) kpis[key] = text;
+      });
+    }
+
+    return {
+      kpis,
+      risks: list(value.risks),
+      opportunities: list(value.opportunities),
+      recommendations: list(value.recommendations)
+    };
+  }
+
+  private static stripFences(text: string): string {
+    return text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  }
+}
+
+export default AnalysisOutputValidator;
@@ -0,0 +1,239 @@
+import { Resvg } from '@resvg/resvg-js';
+import { ChartData } from '@/types';
+
+// Same palette as the dashboard charts
+export const CHART_COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899'];
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6B7280';
+const BORDER_COLOR = '#E5E7EB';
+const FONT_FAMILY = "Helvetica, Arial, 'DejaVu Sans', sans-serif";
+
+// Approximate glyph width at the 11px label size, used to fit labels without a layout engine
+const CHAR_WIDTH = 6;
+
+export class ChartImageService {
+  /**
+   * Render a chart as a standalone SVG document, or null when it has no
+   * numeric values to plot. Series are coloured from the given palette.
+   */
+  static renderSVG(chart: ChartData, width = 640, height = 320, colors: readonly string[] = CHART_COLORS): string | null {
+    const series = this.seriesFor(chart);
+    const hasValues = chart.data.some(row => series.some(({ dataKey }) => typeof row[dataKey] === 'number'));
+    if (!hasValues) return null;
+
+    const body = chart.type === 'pie'
+      ? this.pieChart(chart, width, height, colors)
+      : this.axisChart(chart, series, width, height, colors);
+    if (!body) return null;
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+      `<rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+      body,
+      '</svg>'
+    ].join('\n');
+  }
+
+  /**
+   * Rasterize a chart to PNG at the given pixel density for documents that
+   * cannot embed SVG
+   */
+  static renderPNG(chart: ChartData, width = 640, height = 320, scale = 2, colors: readonly string[] = CHART_COLORS): Buffer | null {
+    const svg = this.renderSVG(chart, width, height, colors);
+    if (!svg) return null;
+
+    const resvg = new Resvg(svg, {
+      fitTo: { mode: 'zoom', value: scale },
+      font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' }
+    });
+    return resvg.render().asPng();
+  }
+
+  /**
+   * Series plotted by a chart; single-series charts fall back to their value key
+   */
+  static seriesFor(chart: ChartData): { dataKey: string; name: string }[] {
+    return chart.series && chart.series.length > 0
+      ? chart.series
+      : [{ dataKey: chart.yAxisKey || chart.dataKey || 'value', name: chart.title }];
+  }
+
+  /**
+   * Round axis bounds outward to a 1/2/5 step so ticks land on round numbers
+   */
+  static niceScale(min: number, max: number): { min: number; max: number; ticks: number[] } {
+    if (min === max) {
+      max = min + 1;
+    }
+    const rawStep = (max - min) / 5;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+    const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rawStep)!;
+
+    const niceMin = Math.floor(min / step) * step;
+    const niceMax = Math.ceil(max / step) * step;
+    const ticks: number[] = [];
+    for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+      ticks.push(Math.round(tick / step) * step);
+    }
+
+    return { min: niceMin, max: niceMax, ticks };
+  }
+
+  static formatAxisValue(value: number): string {
+    return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+  }
+
+  private static axisChart(
+    chart: ChartData,
+    series: { dataKey: string; name: string }[],
+    width: number,
+    height: number,
+    colors: readonly string[]
+  ): string {
+    const xKey = chart.xAxisKey || 'name';
+    const axisWidth = 55;
+    const plotLeft = axisWidth;
+    const plotTop = 12;
+    const plotWidth = width - axisWidth - 12;
+    const plotHeight = height - plotTop - (series.length > 1 ? 52 : 30);
+    const plotBottom = plotTop + plotHeight;
+    const parts: string[] = [];
+
+    const values = chart.data.flatMap(row =>
+      series.map(({ dataKey }) => row[dataKey]).filter((value): value is number => typeof value === 'number')
+    );
+    const { min, max, ticks } = this.niceScale(Math.min(0, ...values), Math.max(0, ...values));
+    const yFor = (value: number) => plotBottom - ((value - min) / (max - min)) * plotHeight;
+
+    // Grid and value axis
+    ticks.forEach(tick => {
+      const y = yFor(tick);
+      parts.push(
+        `<line x1="${plotLeft}" y1="${y}" x2="${plotLeft + plotWidth}" y2="${y}" stroke="${tick === 0 ? '#9CA3AF' : BORDER_COLOR}" stroke-width="1"/>`,
+        `<text x="${plotLeft - 6}" y="${y + 4}" font-size="11" fill="${MUTED_COLOR}" text-anchor="end">${this.formatAxisValue(tick)}</text>`
+      );
+    });
+
+    // Category axis
+    const band = plotWidth / Math.max(chart.data.length, 1);
+    const xFor = (index: number) => plotLeft + band * index + band / 2;
+    chart.data.forEach((row, index) => {
+      parts.push(
+        `<text x="${xFor(index)}" y="${plotBottom + 18}" font-size="11" fill="${MUTED_COLOR}" text-anchor="middle">${this.escape(this.fit(String(row[xKey] ?? ''), band))}</text>`
+      );
+    });
+
+    series.forEach(({ dataKey }, seriesIndex) => {
+      const color = colors[seriesIndex % colors.length];
+
+      if (chart.type === 'bar') {
+        const barWidth = (band * 0.7) / series.length;
+        chart.data.forEach((row, index) => {
+          const value = row[dataKey];
+          if (typeof value !== 'number') return;
+          const x = plotLeft + band * index + band * 0.15 + barWidth * seriesIndex;
+          const y = Math.min(yFor(value), yFor(0));
+          const barHeight = Math.max(Math.abs(yFor(value) - yFor(0)), 0.5);
+          parts.push(`<rect x="${x}" y="${y}" width="${barWidth}" height="${barHeight}" fill="${color}"/>`);
+        });
+        return;
+      }
+
+      // Lines break at missing values
+      const segments: [number, number][][] = [[]];
+      chart.data.forEach((row, index) => {
+        const value = row[dataKey];
+        if (typeof value === 'number') {
+          segments[segments.length - 1].push([xFor(index), yFor(value)]);
+        } else if (segments[segments.length - 1].length > 0) {
+          segments.push([]);
+        }
+      });
+
+      segments.filter(points => points.length > 0).forEach(points => {
+        const path = points.map(([x, y]) => `${x},${y}`).join(' ');
+        if (chart.type === 'area' && points.length > 1) {
+          const baseline = yFor(0);
+          parts.push(
+            `<polygon points="${points[0][0]},${baseline} ${path} ${points[points.length - 1][0]},${baseline}" fill="${color}" fill-opacity="0.3"/>`
+          );
+        }
+        parts.push(`<polyline points="${path}" fill="none" stroke="${color}" stroke-width="2"/>`);
+        points.forEach(([x, y]) => parts.push(`<circle cx="${x}" cy="${y}" r="3" fill="${color}"/>`));
+      });
+    });
+
+    if (series.length > 1) {
+      let x = plotLeft;
+      series.forEach(({ name }, index) => {
+        parts.push(
+          `<rect x="${x}" y="${plotBottom + 32}" width="10" height="10" fill="${colors[index % colors.length]}"/>`,
+          `<text x="${x + 14}" y="${plotBottom + 41}" font-size="11" fill="${TEXT_COLOR}">${this.escape(name)}</text>`
+        );
+        x += 14 + name.length * CHAR_WIDTH + 18;
+      });
+    }
+
+    return parts.join('\n');
+  }
+
+  private static pieChart(chart: ChartData, width: number, height: number, colors: readonly string[]): string | null {
+    const dataKey = chart.dataKey || chart.yAxisKey || 'value';
+    const slices = chart.data
+      .map(row => ({ label: String(row.name ?? row[chart.xAxisKey || 'name'] ?? ''), value: Number(row[dataKey]) || 0, formatted: row.formatted }))
+      .filter(slice => slice.value > 0);
+    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+    if (total === 0) return null;
+
+    const parts: string[] = [];
+    const radius = height / 2 - 16;
+    const cx = radius + 24;
+    const cy = height / 2;
+    let angle = -Math.PI / 2;
+
+    slices.forEach((slice, index) => {
+      const sweep = (slice.value / total) * Math.PI * 2;
+      const color = colors[index % colors.length];
+
+      if (slices.length === 1) {
+        parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}"/>`);
+      } else {
+        const x1 = cx + radius * Math.cos(angle);
+        const y1 = cy + radius * Math.sin(angle);
+        const x2 = cx + radius * Math.cos(angle + sweep);
+        const y2 = cy + radius * Math.sin(angle + sweep);
+        const largeArc = sweep > Math.PI ? 1 : 0;
+        parts.push(`<path d="M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z" fill="${color}"/>`);
+      }
+      angle += sweep;
+    });
+
+    const legendLeft = cx + radius + 40;
+    slices.forEach((slice, index) => {
+      const y = 40 + index * 24;
+      const share = Math.round((slice.value / total) * 1000) / 10;
+      const label = `${slice.label}: ${slice.formatted || this.formatAxisValue(slice.value)} (${share}%)`;
+      parts.push(
+        `<rect x="${legendLeft}" y="${y}" width="12" height="12" fill="${colors[index % colors.length]}"/>`,
+        `<text x="${legendLeft + 18}" y="${y + 10}" font-size="12" fill="${TEXT_COLOR}">${this.escape(this.fit(label, width - legendLeft - 18))}</text>`
+      );
+    });
+
+    return parts.join('\n');
+  }
+
+  /**
+   * Truncate a label with an ellipsis so it fits the given width
+   */
+  private static fit(text: string, width: number): string {
+    const maxChars = Math.max(Math.floor(width / CHAR_WIDTH), 3);
+    return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
+
+export default ChartImageService;
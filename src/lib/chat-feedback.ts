@@ -0,0 +1,152 @@
+import { supabaseAdmin, TABLES } from '@/lib/supabase';
+import { ChatFeedbackRating, ChatFeedbackSummary } from '@/types';
+
+export const MAX_CORRECTION_CHARS = 2000;
+
+// Labels for answers stored before the prompt version and model were recorded
+const UNVERSIONED = 'unversioned';
+const UNKNOWN_MODEL = 'unknown';
+
+export interface ChatFeedbackInput {
+  rating: ChatFeedbackRating;
+  correction?: string;
+}
+
+export class ChatFeedbackService {
+  /**
+   * Feedback from a request body; a null rating clears earlier feedback
+   */
+  static parse(body: { rating?: unknown; correction?: unknown }): { feedback: ChatFeedbackInput | null } | { error: string } {
+    if (body.rating === null) {
+      return { feedback: null };
+    }
+
+    if (body.rating !== 'up' && body.rating !== 'down') {
+      return { error: 'rating must be "up", "down" or null' };
+    }
+
+    if (body.correction !== undefined && body.correction !== null && typeof body.correction !== 'string') {
+      return { error: 'correction must be a string' };
+    }
+
+    const correction = typeof body.correction === 'string' ? body.correction.trim() : '';
+    if (correction.length > MAX_CORRECTION_CHARS) {
+      return { error: `Correction too long. Maximum ${MAX_CORRECTION_CHARS} characters allowed.` };
+    }
+
+    return { feedback: { rating: body.rating, correction: correction || undefined } };
+  }
+
+  /**
+   * Store (or clear) the user's feedback on one of their answers; false when
+   * the message does not exist or belongs to someone else
+   */
+  static async record(userId: string, messageId: string, feedback: ChatFeedbackInput | null): Promise<boolean> {
+    const { data, error } = await this.client()
+      .from(TABLES.CHAT_MESSAGES)
+      .update({
+        feedback: feedback?.rating || null,
+        feedback_correction: feedback?.correction || null,
+        feedback_at: feedback ? new Date().toISOString() : null
+      })
+      .eq('id', messageId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to save feedback: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Answers and their feedback since a date, grouped by prompt version and
+   * model, newest prompt versions first and unversioned answers last
+   */
+  static async summarize(since: Date): Promise<ChatFeedbackSummary[]> {
+    // Grouped in the database by chat_feedback_summary
+    const { data, error } = await this.client().rpc('chat_feedback_summary', { since: since.toISOString() });
+
+    if (error) {
+      throw new Error(`Failed to fetch chat feedback: ${error.message}`);
+    }
+
+    return (data || [])
+      .map((row: any): ChatFeedbackSummary => {
+        const rated = Number(row.rated);
+        const up = Number(row.up);
+        return {
+          promptVersion: row.prompt_version || UNVERSIONED,
+          model: row.model || UNKNOWN_MODEL,
+          answers: Number(row.answers),
+          rated,
+          up,
+          down: Number(row.down),
+          corrections: Number(row.corrections),
+          approvalRate: rated > 0 ? Math.round((up / rated) * 1000) / 10 : null
+        };
+      })
+      .sort((a: ChatFeedbackSummary, b: ChatFeedbackSummary) => Number(a.promptVersion === UNVERSIONED) - Number(b.promptVersion === UNVERSIONED)
+        || b.promptVersion.localeCompare(a.promptVersion, undefined, { numeric: true })
+        || b.answers - a.answers);
+  }
+
+  /**
+   * Most recent thumbs-down answers, with the user's correction when given
+   */
+  static async recentNegative(
+    since: Date,
+    options: { limit: number; promptVersion?: string | null; model?: string | null }
+  ): Promise<any[]> {
+    let query = this.client()
+      .from(TABLES.CHAT_MESSAGES)
+      .select('id, message, response, feedback_correction, feedback_at, prompt_version, model')
+      .eq('feedback', 'down')
+      .gte('timestamp', since.toISOString())
+      .order('feedback_at', { ascending: false })
+      .limit(options.limit);
+
+    if (options.promptVersion) {
+      query = options.promptVersion === UNVERSIONED
+        ? query.is('prompt_version', null)
+        : query.eq('prompt_version', options.promptVersion);
+    }
+
+    if (options.model) {
+      query = options.model === UNKNOWN_MODEL
+        ? query.is('model', null)
+        : query.eq('model', options.model);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch chat feedback: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      message: row.message,
+      response: row.response,
+      correction: row.feedback_correction || undefined,
+      promptVersion: row.prompt_version || UNVERSIONED,
+      model: row.model || UNKNOWN_MODEL,
+      createdAt: new Date(row.feedback_at)
+    }));
+  }
+
+  /**
+   * Service-role client. The routes authenticate the user (and check admin
+   * access for reports) first; the anon client has no session, so row level
+   * security would reject every write and hide other users' answers.
+   */
+  private static client() {
+    if (!supabaseAdmin) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is required for chat feedback');
+    }
+    return supabaseAdmin;
+  }
+}
+
+export default ChatFeedbackService;
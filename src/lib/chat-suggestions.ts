@@ -0,0 +1,187 @@
+import { supabase, TABLES } from '@/lib/supabase';
+import { ChatReportContext, GeminiAnalysisService, SuggestionContext } from '@/lib/gemini';
+import { ComputedKPI, ComputedKPIKey, KPIDiscrepancy } from '@/types';
+
+export const MAX_STARTER_QUESTIONS = 4;
+const MAX_FOLLOW_UPS = 3;
+
+// Computed KPI values worth asking about, with the question offered when
+// the model cannot write one
+const ANOMALY_CHECKS: { key: ComputedKPIKey; test: (value: number) => boolean; note: string; question: string }[] = [
+  { key: 'profitMargin', test: value => value < 0, note: 'the company is loss-making', question: 'Why is the company losing money, and what would it take to break even?' },
+  { key: 'operatingMargin', test: value => value < 0, note: 'operating loss', question: 'What is causing the operating loss?' },
+  { key: 'growthRate', test: value => value < 0, note: 'revenue declined', question: 'Why did revenue decline compared with the prior period?' },
+  { key: 'currentRatio', test: value => value < 1, note: 'current liabilities exceed current assets', question: 'Can the company meet its short-term obligations?' },
+  { key: 'debtToEquityRatio', test: value => value > 2, note: 'high leverage', question: 'Is the company\'s level of debt sustainable?' },
+  { key: 'interestCoverage', test: value => value < 1.5, note: 'thin interest coverage', question: 'Can operating profit comfortably cover interest payments?' }
+];
+
+export class ChatSuggestionService {
+  /**
+   * Starter questions for the given analyses, in the order given. Each
+   * analysis's questions are generated once and cached on its row.
+   */
+  static async getStarterQuestions(
+    userId: string,
+    analysisIds: string[],
+    analysisService: GeminiAnalysisService
+  ): Promise<string[]> {
+    if (analysisIds.length === 0) return [];
+
+    const { data: analyses, error } = await supabase
+      .from(TABLES.ANALYSES)
+      .select(`
+        id,
+        summary,
+        kpis,
+        computed_kpis,
+        kpi_discrepancies,
+        risks,
+        suggested_questions,
+        files!inner(file_name, user_id)
+      `)
+      .in('id', analysisIds)
+      .eq('files.user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch analyses: ${error.message}`);
+    }
+
+    const perAnalysis: string[][] = [];
+    for (const id of analysisIds) {
+      const analysis = (analyses || []).find((row: any) => row.id === id);
+      if (!analysis) continue;
+
+      perAnalysis.push(analysis.suggested_questions
+        || await this.generateForAnalysis(analysis, (analysis.files as any).file_name, analysisService));
+    }
+
+    // Take questions from each report in turn so a comparison covers them all
+    const questions: string[] = [];
+    for (let index = 0; questions.length < MAX_STARTER_QUESTIONS && perAnalysis.some(list => index < list.length); index++) {
+      perAnalysis.forEach(list => {
+        if (index < list.length && questions.length < MAX_STARTER_QUESTIONS && !questions.includes(list[index])) {
+          questions.push(list[index]);
+        }
+      });
+    }
+
+    return questions;
+  }
+
+  /**
+   * Generate and cache starter questions for an analysis row. When the
+   * model fails, questions built from the same signals are returned
+   * uncached so generation is retried next time.
+   */
+  static async generateForAnalysis(
+    analysis: any,
+    fileName: string,
+    analysisService: GeminiAnalysisService
+  ): Promise<string[]> {
+    const context = this.contextFor(analysis, fileName);
+
+    let questions: string[];
+    try {
+      questions = await analysisService.generateSuggestedQuestions(context, MAX_STARTER_QUESTIONS);
+    } catch (error) {
+      console.error('Suggested questions error:', error);
+      return this.fallbackQuestions(analysis, context);
+    }
+
+    if (questions.length === 0) {
+      return this.fallbackQuestions(analysis, context);
+    }
+
+    const { error } = await supabase
+      .from(TABLES.ANALYSES)
+      .update({ suggested_questions: questions })
+      .eq('id', analysis.id);
+
+    if (error) {
+      console.error('Suggested questions save error:', error);
+    }
+
+    return questions;
+  }
+
+  /**
+   * Follow-up questions for an answer; best effort, empty when generation fails
+   */
+  static async followUps(
+    analysisService: GeminiAnalysisService,
+    query: string,
+    response: string,
+    reports: ChatReportContext[],
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    try {
+      return await analysisService.generateFollowUpQuestions(query, response, reports, MAX_FOLLOW_UPS, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Follow-up questions error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Risks, unusual or disputed KPIs and missing KPIs of an analysis row
+   */
+  static contextFor(analysis: any, fileName: string): SuggestionContext {
+    const computed: ComputedKPI[] = analysis.computed_kpis || [];
+    const discrepancies: KPIDiscrepancy[] = analysis.kpi_discrepancies || [];
+
+    const anomalies = ANOMALY_CHECKS
+      .map(check => ({ check, metric: computed.find(metric => metric.key === check.key) }))
+      .filter(({ check, metric }) => metric && check.test(metric.value))
+      .map(({ check, metric }) => ({ label: metric!.label, value: metric!.formatted, note: check.note }));
+
+    discrepancies.forEach(discrepancy => {
+      anomalies.push({
+        label: this.labelFor(discrepancy.key),
+        value: discrepancy.computedValue,
+        note: `the AI reading (${discrepancy.aiValue}) disagrees with the statements`
+      });
+    });
+
+    const missing = Object.entries(analysis.kpis || {})
+      .filter(([, value]) => !value || value === 'N/A')
+      .map(([key]) => this.labelFor(key));
+
+    return {
+      fileName,
+      summary: analysis.summary || '',
+      risks: (analysis.risks || []).slice(0, 5),
+      anomalies,
+      missing
+    };
+  }
+
+  private static fallbackQuestions(analysis: any, context: SuggestionContext): string[] {
+    const computed: ComputedKPI[] = analysis.computed_kpis || [];
+    const questions = ANOMALY_CHECKS
+      .filter(check => {
+        const metric = computed.find(entry => entry.key === check.key);
+        return metric && check.test(metric.value);
+      })
+      .map(check => check.question);
+
+    if (context.risks.length > 0) {
+      questions.push(`How could we reduce this risk: ${context.risks[0].replace(/[.\s]+$/, '')}?`);
+    }
+    if (context.missing.length > 0) {
+      questions.push('Which figures are missing from this report, and how does that limit the analysis?');
+    }
+    questions.push('What are the key financial highlights?');
+
+    return questions.slice(0, MAX_STARTER_QUESTIONS);
+  }
+
+  // "netProfit" -> "Net profit"
+  private static labelFor(key: string): string {
+    const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+    return words[0].toUpperCase() + words.slice(1);
+  }
+}
+
+export default ChatSuggestionService;
@@ -0,0 +1,419 @@
+import KPIEngine, { EXPENSE_CONCEPTS } from '@/lib/kpi-engine';
+import FinancialStatementService from '@/lib/financial-statements';
+import { ChatToolCall, ComputedKPI, ComputedKPIKey, FinancialConcept, FinancialStatement, StatementLineItem } from '@/types';
+
+export const MAX_TOOL_CALLS = 5;
+const MAX_LISTED_VALUES = 40;
+const MAX_TOOL_ITEMS = 20;
+
+export type ChatToolName = 'get_line_items' | 'aggregate' | 'compute_ratio' | 'what_if';
+
+// Calculation the model asked for, before it is run
+export interface ChatToolRequest {
+  tool: string;
+  arguments?: Record<string, unknown>;
+}
+
+// Parsed statements of one report, addressed in tool calls by its letter
+export interface ToolReport {
+  label: string; // "Report A", ...
+  statements: FinancialStatement[];
+}
+
+// Described to the model when it plans the calculations for a question
+export const CHAT_TOOLS: { name: ChatToolName; description: string; arguments: string }[] = [
+  {
+    name: 'get_line_items',
+    description: 'Look up reported line item values, optionally filtered by item and period',
+    arguments: '{"report"?: "A", "item"?: string, "period"?: string}'
+  },
+  {
+    name: 'aggregate',
+    description: 'Sum, average, minimum or maximum of line items over one or more periods',
+    arguments: '{"report"?: "A", "items": string[], "periods"?: string[], "operation": "sum" | "average" | "min" | "max"}'
+  },
+  {
+    name: 'compute_ratio',
+    description: 'Divide one line item by another for a period, e.g. a margin (percent: true) or coverage ratio',
+    arguments: '{"report"?: "A", "numerator": string, "denominator": string, "period"?: string, "percent"?: boolean}'
+  },
+  {
+    name: 'what_if',
+    description: 'Change line items by a percentage or an amount and recompute profit and margins; changes to revenue and expenses flow through to the profit lines below them',
+    arguments: '{"report"?: "A", "period"?: string, "changes": [{"item": string, "percent"?: number, "amount"?: number}]}'
+  }
+];
+
+// Profit lines a change to revenue or an expense flows through to
+const PROFIT_LINES: Partial<Record<FinancialConcept, FinancialConcept[]>> = {
+  revenue: ['gross_profit', 'operating_income', 'net_income'],
+  cost_of_sales: ['gross_profit', 'operating_income', 'net_income'],
+  operating_expenses: ['operating_income', 'net_income'],
+  total_expenses: ['operating_income', 'net_income'],
+  interest_expense: ['net_income'],
+  income_tax: ['net_income']
+};
+
+// Metrics always reported by a what-if, alongside any other metric it changes
+const WHAT_IF_METRICS: ComputedKPIKey[] = [
+  'revenue', 'expenses', 'netProfit', 'grossMargin', 'operatingMargin', 'profitMargin'
+];
+
+interface ResolvedItem {
+  statement: FinancialStatement;
+  item: StatementLineItem;
+}
+
+interface ToolValue {
+  label: string;
+  period: string;
+  value: number;
+}
+
+export class ChatToolService {
+  /**
+   * Run the requested calculations against the reports' parsed statements.
+   * A call that cannot be computed is returned with an error instead of a result.
+   */
+  static run(requests: ChatToolRequest[], reports: ToolReport[]): ChatToolCall[] {
+    return requests.slice(0, MAX_TOOL_CALLS).map((request, index) => {
+      const call: ChatToolCall = {
+        id: `T${index + 1}`,
+        tool: String(request.tool),
+        arguments: request.arguments && typeof request.arguments === 'object' ? request.arguments : {}
+      };
+
+      try {
+        const report = this.findReport(reports, call.arguments.report);
+        const { result, summary } = this.execute(call.tool, call.arguments, report.statements);
+        return { ...call, result, summary: reports.length > 1 ? `${report.label}: ${summary}` : summary };
+      } catch (error) {
+        return { ...call, error: error instanceof Error ? error.message : 'Calculation failed' };
+      }
+    });
+  }
+
+  /**
+   * Line items the model can refer to, for the planning prompt
+   */
+  static describeReport(report: ToolReport): string {
+    return report.statements.map(statement => {
+      const items = statement.lineItems
+        .map(item => item.concept ? `${item.label} [${item.concept}]` : item.label)
+        .join('; ');
+      return `${report.label} ${statement.type.replace(/_/g, ' ')} (periods: ${statement.periods.join(', ')}): ${items}`;
+    }).join('\n');
+  }
+
+  private static execute(
+    tool: string,
+    args: Record<string, unknown>,
+    statements: FinancialStatement[]
+  ): { result: unknown; summary: string } {
+    switch (tool) {
+      case 'get_line_items':
+        return this.getLineItems(statements, this.optionalText(args, 'item'), this.optionalText(args, 'period'));
+      case 'aggregate':
+        return this.aggregate(statements, args);
+      case 'compute_ratio':
+        return this.computeRatio(statements, args);
+      case 'what_if':
+        return this.whatIf(statements, args);
+      default:
+        throw new Error(`Unknown tool "${tool}"`);
+    }
+  }
+
+  private static getLineItems(
+    statements: FinancialStatement[],
+    item?: string,
+    period?: string
+  ): { result: unknown; summary: string } {
+    const key = item?.toLowerCase();
+    const values: (ToolValue & { concept?: FinancialConcept })[] = [];
+
+    statements.forEach(statement => {
+      const columns = period
+        ? [this.findPeriod(statement, period, false)].filter((index): index is number => index !== null)
+        : statement.periods.map((_, index) => index);
+
+      statement.lineItems
+        .filter(lineItem => !key || lineItem.concept === key.replace(/\s+/g, '_') || lineItem.label.toLowerCase().includes(key))
+        .forEach(lineItem => {
+          columns.forEach(column => {
+            const value = FinancialStatementService.getValue(statement, lineItem, column);
+            if (value !== null) {
+              values.push({ label: lineItem.label, concept: lineItem.concept, period: statement.periods[column], value });
+            }
+          });
+        });
+    });
+
+    if (values.length === 0) {
+      throw new Error(`No reported values match${item ? ` "${item}"` : ''}${period ? ` for ${period}` : ''}`);
+    }
+
+    const listed = values.slice(0, MAX_LISTED_VALUES);
+    const currency = this.currencyOf(statements);
+
+    return {
+      result: { values: listed, truncated: values.length > listed.length },
+      summary: listed
+        .map(value => `${value.label} (${value.period}): ${KPIEngine.format(value.value, 'currency', currency)}`)
+        .join('; ')
+    };
+  }
+
+  private static aggregate(statements: FinancialStatement[], args: Record<string, unknown>): { result: unknown; summary: string } {
+    const items = this.textList(args, 'items');
+    const periods = args.periods === undefined ? [undefined] : this.textList(args, 'periods');
+    const operation = this.optionalText(args, 'operation') || 'sum';
+
+    if (!['sum', 'average', 'min', 'max'].includes(operation)) {
+      throw new Error(`Unknown operation "${operation}"; use sum, average, min or max`);
+    }
+
+    const values = items.flatMap(item => periods.map(period => this.valueOf(statements, item, period)));
+    const numbers = values.map(value => value.value);
+    const total = numbers.reduce((sum, value) => sum + value, 0);
+    const value = operation === 'sum' ? total
+      : operation === 'average' ? total / numbers.length
+      : operation === 'min' ? Math.min(...numbers)
+      : Math.max(...numbers);
+
+    const currency = this.currencyOf(statements);
+    const labels = Array.from(new Set(values.map(entry => entry.label))).join(', ');
+    const periodLabels = Array.from(new Set(values.map(entry => entry.period))).join(', ');
+
+    return {
+      result: { operation, values, value },
+      summary: `${operation[0].toUpperCase()}${operation.slice(1)} of ${labels} (${periodLabels}) = ${KPIEngine.format(value, 'currency', currency)}`
+    };
+  }
+
+  private static computeRatio(statements: FinancialStatement[], args: Record<string, unknown>): { result: unknown; summary: string } {
+    const period = this.optionalText(args, 'period');
+    const numerator = this.valueOf(statements, this.requiredText(args, 'numerator'), period);
+    const denominator = this.valueOf(statements, this.requiredText(args, 'denominator'), period);
+
+    if (denominator.value === 0) {
+      throw new Error(`${denominator.label} is zero for ${denominator.period}`);
+    }
+
+    const percent = args.percent === true;
+    const value = (numerator.value / denominator.value) * (percent ? 100 : 1);
+
+    return {
+      result: { numerator, denominator, value, unit: percent ? 'percent' : 'ratio' },
+      summary: `${numerator.label} ÷ ${denominator.label} (${numerator.period}) = ${KPIEngine.format(value, percent ? 'percent' : 'ratio')}`
+    };
+  }
+
+  /**
+   * Apply the changes to a copy of one period of the statements, move the
+   * profit lines by the effect on profit, and compare KPIs before and after.
+   * Income tax is not re-estimated.
+   */
+  private static whatIf(statements: FinancialStatement[], args: Record<string, unknown>): { result: unknown; summary: string } {
+    if (!Array.isArray(args.changes) || args.changes.length === 0 || args.changes.length > MAX_TOOL_ITEMS) {
+      throw new Error(`changes must list 1 to ${MAX_TOOL_ITEMS} line item changes`);
+    }
+
+    const period = this.optionalText(args, 'period');
+    const before = this.periodSnapshot(statements, period);
+    const after = before.map(statement => ({
+      ...statement,
+      lineItems: statement.lineItems.map(item => ({ ...item, values: [...item.values] }))
+    }));
+    const currency = this.currencyOf(statements);
+    const format = (value: number) => KPIEngine.format(value, 'currency', currency);
+
+    const applied = (args.changes as unknown[]).map(change => {
+      const entry = (change && typeof change === 'object' ? change : {}) as Record<string, unknown>;
+      const { statement, item } = this.findItem(after, this.requiredText(entry, 'item'));
+      const oldValue = FinancialStatementService.getValue(statement, item);
+      if (oldValue === null) {
+        throw new Error(`${item.label} has no value for ${statement.periods[0]}`);
+      }
+
+      let newValue: number;
+      let description: string;
+      if (typeof entry.percent === 'number') {
+        newValue = oldValue * (1 + entry.percent / 100);
+        description = `${entry.percent > 0 ? '+' : ''}${entry.percent}%`;
+      } else if (typeof entry.amount === 'number') {
+        // Amounts change the magnitude, so +100 raises an expense shown as negative
+        newValue = oldValue + (oldValue < 0 ? -entry.amount : entry.amount);
+        description = `${entry.amount > 0 ? '+' : ''}${format(entry.amount)}`;
+      } else {
+        throw new Error(`Give a percent or amount for ${item.label}`);
+      }
+      item.values[0] = newValue / statement.multiplier;
+
+      const profitEffect = item.concept && EXPENSE_CONCEPTS.includes(item.concept)
+        ? -(Math.abs(newValue) - Math.abs(oldValue))
+        : item.concept === 'revenue' ? newValue - oldValue : 0;
+
+      const flowsTo = (item.concept ? PROFIT_LINES[item.concept] || [] : [])
+        .map(concept => FinancialStatementService.findLineItem(after, concept))
+        .filter((line): line is ResolvedItem => line !== null && line.item.values[0] !== null)
+        .map(line => {
+          line.item.values[0] = (line.item.values[0] as number) + profitEffect / line.statement.multiplier;
+          return line.item.label;
+        });
+
+      return {
+        item: item.label,
+        change: description,
+        before: format(oldValue),
+        after: format(newValue),
+        flowsTo
+      };
+    });
+
+    const metricsBefore = KPIEngine.compute(before);
+    const metricsAfter = KPIEngine.compute(after);
+    const metrics = metricsAfter
+      .map(metric => ({ metric, previous: metricsBefore.find(entry => entry.key === metric.key) }))
+      .filter(({ metric, previous }) => WHAT_IF_METRICS.includes(metric.key) || previous?.value !== metric.value)
+      .map(({ metric, previous }: { metric: ComputedKPI; previous?: ComputedKPI }) => ({
+        label: metric.label,
+        before: previous?.formatted || 'N/A',
+        after: metric.formatted,
+        formula: metric.formula
+      }));
+
+    const changed = metrics.filter(metric => metric.before !== metric.after);
+    const scenario = applied.map(change => `${change.item} ${change.change}`).join(', ');
+
+    return {
+      result: { period: before[0].periods[0], changes: applied, metrics },
+      summary: `${scenario} (${before[0].periods[0]}): ${changed.length > 0
+        ? changed.map(metric => `${metric.label} ${metric.before} → ${metric.after}`).join('; ')
+        : 'no computed metric changes'}`
+    };
+  }
+
+  /**
+   * Single-period copy of the statements, so KPIs are computed for that period
+   */
+  private static periodSnapshot(statements: FinancialStatement[], period?: string): FinancialStatement[] {
+    const snapshot = statements
+      .map(statement => ({ statement, column: this.findPeriod(statement, period, false) }))
+      .filter((entry): entry is { statement: FinancialStatement; column: number } => entry.column !== null)
+      .map(({ statement, column }) => ({
+        ...statement,
+        periods: [statement.periods[column]],
+        lineItems: statement.lineItems.map(item => ({ ...item, values: [item.values[column]] }))
+      }));
+
+    if (snapshot.length === 0) {
+      throw new Error(period ? `Period "${period}" not found` : 'No parsed statements to calculate with');
+    }
+    return snapshot;
+  }
+
+  /**
+   * Value of a line item in base units; expenses are magnitudes, as in KPIEngine
+   */
+  private static valueOf(statements: FinancialStatement[], reference: string, period?: string): ToolValue {
+    const { statement, item } = this.findItem(statements, reference);
+    const column = this.findPeriod(statement, period, true) as number;
+    const value = FinancialStatementService.getValue(statement, item, column);
+
+    if (value === null) {
+      throw new Error(`${item.label} has no value for ${statement.periods[column]}`);
+    }
+
+    return {
+      label: item.label,
+      period: statement.periods[column],
+      value: item.concept && EXPENSE_CONCEPTS.includes(item.concept) ? Math.abs(value) : value
+    };
+  }
+
+  /**
+   * A line item by concept (e.g. "net_income"), exact label, or part of a label
+   */
+  private static findItem(statements: FinancialStatement[], reference: string): ResolvedItem {
+    const key = reference.trim().toLowerCase();
+    const candidates = statements.flatMap(statement => statement.lineItems.map(item => ({ statement, item })));
+
+    const match = candidates.find(({ item }) => item.concept === key.replace(/\s+/g, '_'))
+      || candidates.find(({ item }) => item.label.toLowerCase() === key)
+      || candidates.find(({ item }) => item.label.toLowerCase().includes(key));
+
+    if (!match) {
+      throw new Error(`No line item matches "${reference}"`);
+    }
+    return match;
+  }
+
+  /**
+   * Column of a period label (exact, then partial match), or the latest
+   * period when none is given
+   */
+  private static findPeriod(statement: FinancialStatement, period: string | undefined, required: boolean): number | null {
+    if (!period) {
+      return KPIEngine.getPeriodOrder(statement.periods)[0] ?? null;
+    }
+
+    const key = period.trim().toLowerCase();
+    let column = statement.periods.findIndex(label => label.toLowerCase() === key);
+    if (column < 0) column = statement.periods.findIndex(label => label.toLowerCase().includes(key));
+
+    if (column < 0) {
+      if (required) {
+        throw new Error(`Period "${period}" not found; available: ${statement.periods.join(', ')}`);
+      }
+      return null;
+    }
+    return column;
+  }
+
+  private static findReport(reports: ToolReport[], reference: unknown): ToolReport {
+    if (reports.length === 0) {
+      throw new Error('No parsed statements to calculate with');
+    }
+    if (reference === undefined || reference === null || reference === '') return reports[0];
+
+    const letter = String(reference).trim().replace(/^report\s+/i, '').toUpperCase();
+    const report = reports.find(entry => entry.label.toUpperCase() === `REPORT ${letter}`);
+
+    if (!report) {
+      throw new Error(`Unknown report "${reference}"`);
+    }
+    return report;
+  }
+
+  private static currencyOf(statements: FinancialStatement[]): string | undefined {
+    return statements.find(statement => statement.currency)?.currency;
+  }
+
+  private static optionalText(args: Record<string, unknown>, key: string): string | undefined {
+    const value = args[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+      throw new Error(`${key} must be a string`);
+    }
+    return value;
+  }
+
+  private static requiredText(args: Record<string, unknown>, key: string): string {
+    const value = this.optionalText(args, key);
+    if (!value) {
+      throw new Error(`${key} is required`);
+    }
+    return value;
+  }
+
+  private static textList(args: Record<string, unknown>, key: string): string[] {
+    const value = args[key];
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_TOOL_ITEMS || !value.every(entry => typeof entry === 'string' && entry)) {
+      throw new Error(`${key} must list 1 to ${MAX_TOOL_ITEMS} names`);
+    }
+    return value as string[];
+  }
+}
+
+export default ChatToolService;
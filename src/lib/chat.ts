@@ -0,0 +1,177 @@
+import { supabase, STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
+import { ChatHistory, ChatReportContext, GeminiAnalysisService } from '@/lib/gemini';
+import FileParsingService from '@/lib/file-parser';
+import DocumentRetrievalService, { ReportPassage } from '@/lib/document-retrieval';
+import ChatToolService from '@/lib/chat-tools';
+import { ChatToolCall } from '@/types';
+
+export const MAX_CHAT_MESSAGE_CHARS = 1000;
+export const MAX_CHAT_ANALYSES = 5;
+
+// Report passages per question, shared between the reports of a comparison
+const PASSAGE_BUDGET = 8;
+const PASSAGES_PER_REPORT = 4;
+
+export interface ChatContext {
+  reports: ChatReportContext[];
+  passages: ReportPassage[];
+}
+
+export class ChatService {
+  /**
+   * Reason a chat message cannot be sent, or null when it is valid
+   */
+  static validateMessage(message: unknown): string | null {
+    if (typeof message !== 'string' || message.trim().length === 0) {
+      return 'Message is required';
+    }
+
+    if (message.length > MAX_CHAT_MESSAGE_CHARS) {
+      return `Message too long. Maximum ${MAX_CHAT_MESSAGE_CHARS} characters allowed.`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Analyses a chat request is about: `analysisIds` for a comparison, or
+   * the single `analysisId`
+   */
+  static parseAnalysisIds(body: { analysisId?: unknown; analysisIds?: unknown }): { analysisIds: string[] } | { error: string } {
+    if (body.analysisIds !== undefined) {
+      if (!Array.isArray(body.analysisIds) || !body.analysisIds.every(id => typeof id === 'string' && id)) {
+        return { error: 'analysisIds must be a list of analysis ids' };
+      }
+
+      const analysisIds = Array.from(new Set(body.analysisIds as string[]));
+      if (analysisIds.length > MAX_CHAT_ANALYSES) {
+        return { error: `A chat can compare at most ${MAX_CHAT_ANALYSES} analyses` };
+      }
+      return { analysisIds };
+    }
+
+    return { analysisIds: typeof body.analysisId === 'string' && body.analysisId ? [body.analysisId] : [] };
+  }
+
+  /**
+   * Analyses the user is asking about that exist and belong to them, in the
+   * order given, with the report passages most relevant to the question
+   */
+  static async loadContext(userId: string, analysisIds: string[], query: string): Promise<ChatContext> {
+    const context: ChatContext = { reports: [], passages: [] };
+    if (analysisIds.length === 0) return context;
+
+    const { data: analyses, error: analysisError } = await supabase
+      .from(TABLES.ANALYSES)
+      .select(`
+        *,
+        files!inner(
+          id,
+          file_name,
+          file_type,
+          user_id,
+          supabase_storage_path,
+          companies(name)
+        )
+      `)
+      .in('id', analysisIds)
+      .eq('files.user_id', userId);
+
+    if (!analyses || analysisError) return context;
+
+    const found = analysisIds
+      .map(id => analyses.find((analysis: any) => analysis.id === id))
+      .filter(Boolean);
+
+    context.reports = found.map((analysis: any, index: number) => ({
+      label: `Report ${String.fromCharCode(65 + index)}`,
+      fileName: analysis.files.file_name,
+      companyName: analysis.files.companies?.name || undefined,
+      periods: Array.from(new Set<string>((analysis.statements || []).flatMap((statement: any) => statement.periods || []))),
+      statements: analysis.statements || [],
+      analysis: {
+        summary: analysis.summary,
+        kpis: analysis.kpis,
+        risks: analysis.risks || [],
+        opportunities: analysis.opportunities || [],
+        recommendations: analysis.recommendations || []
+      }
+    }));
+
+    // Retrieval is best effort; the analyses alone still answer most questions
+    const perReport = Math.min(PASSAGES_PER_REPORT, Math.max(1, Math.floor(PASSAGE_BUDGET / found.length)));
+
+    for (let index = 0; index < found.length; index++) {
+      const analysis = found[index];
+      try {
+        if (!(await DocumentRetrievalService.hasIndex(analysis.id))) {
+          await this.indexReport(analysis.id, analysis.files);
+        }
+
+        const passages = await DocumentRetrievalService.retrieve(analysis.id, query, perReport);
+        const report = context.reports[index];
+
+        // Passage ids run across all reports so each citation is unambiguous
+        passages.forEach(passage => {
+          context.passages.push({
+            ...passage,
+            id: `P${context.passages.length + 1}`,
+            location: found.length > 1 ? `${report.label} (${report.fileName}), ${passage.location}` : passage.location
+          });
+        });
+      } catch (error) {
+        console.error('Report passage retrieval error:', error);
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Run the calculations the model plans for a question against the
+   * reports' parsed statements. Best effort: without them the model still
+   * answers from the analyses.
+   */
+  static async runTools(
+    analysisService: GeminiAnalysisService,
+    query: string,
+    reports: ChatReportContext[],
+    history?: ChatHistory,
+    signal?: AbortSignal
+  ): Promise<ChatToolCall[]> {
+    if (!reports.some(report => report.statements.length > 0)) return [];
+
+    try {
+      const requests = await analysisService.planToolCalls(query, reports, history, signal);
+      return ChatToolService.run(requests, reports);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Chat tool error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Index reports analyzed before retrieval existed, from the stored file
+   */
+  private static async indexReport(analysisId: string, file: any): Promise<void> {
+    if (!file.supabase_storage_path) return;
+
+    const { data: fileData, error } = await supabase.storage
+      .from(STORAGE_BUCKETS.FILES)
+      .download(file.supabase_storage_path);
+
+    if (error || !fileData) {
+      throw new Error('Failed to download file from storage');
+    }
+
+    const parsedContent = await FileParsingService.parseFile(
+      Buffer.from(await fileData.arrayBuffer()),
+      file.file_name,
+      file.file_type
+    );
+    await DocumentRetrievalService.indexDocument(analysisId, parsedContent.text);
+  }
+}
+
+export default ChatService;
@@ -0,0 +1,279 @@
+import * as XLSX from 'xlsx';
+import { AnalysisCitations, Citation, ComputedKPI, FinancialStatement, KPIs } from '@/types';
+
+// Verbatim excerpts the model quoted for each KPI and finding
+export interface AnalysisEvidence {
+  kpis: Partial<Record<keyof KPIs, string>>;
+  risks: (string | null)[];
+  opportunities: (string | null)[];
+  recommendations: (string | null)[];
+}
+
+interface DocumentMarker {
+  offset: number;
+  page?: number;
+  sheet?: string;
+  firstColumn?: number; // 0-based column of the sheet's first cell
+}
+
+interface DocumentLine {
+  start: number;
+  end: number;
+  tokens: Set<string>;
+}
+
+// Parsed document prepared for excerpt lookups
+export interface DocumentIndex {
+  content: string;
+  fileType: 'pdf' | 'excel' | 'csv';
+  normalized: string; // lower-cased, "|" separators and runs of whitespace collapsed
+  offsets: number[]; // normalized index -> content index
+  markers: DocumentMarker[];
+  lines: DocumentLine[];
+}
+
+// Share of an excerpt's words a line must contain when there is no exact match
+const MIN_LINE_OVERLAP = 0.6;
+const CONTEXT_CHARS = 160;
+
+const MARKER_PATTERN = /^(?:--- Page (\d+) ---|Sheet \d+: (.+?) \([^)]*\)\nRows: \d+\n(?:Range: ([A-Z]+)\d+)?)/gm;
+
+export class CitationService {
+  /**
+   * Index parsed content once so many excerpts can be resolved against it
+   */
+  static index(content: string): DocumentIndex {
+    let normalized = '';
+    const offsets: number[] = [];
+    let pendingSpace = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (/\s|\|/.test(char)) {
+        pendingSpace = normalized.length > 0;
+        continue;
+      }
+      if (pendingSpace) {
+        normalized += ' ';
+        offsets.push(i);
+        pendingSpace = false;
+      }
+      normalized += char.toLowerCase();
+      offsets.push(i);
+    }
+
+    const markers: DocumentMarker[] = Array.from(content.matchAll(MARKER_PATTERN)).map(match => ({
+      offset: match.index!,
+      page: match[1] ? parseInt(match[1]) : undefined,
+      sheet: match[2],
+      firstColumn: match[3] ? XLSX.utils.decode_col(match[3]) : match[2] ? 0 : undefined
+    }));
+
+    const lines: DocumentLine[] = [];
+    let start = 0;
+    content.split('\n').forEach(line => {
+      lines.push({ start, end: start + line.length, tokens: this.tokenize(line) });
+      start += line.length + 1;
+    });
+
+    return {
+      content,
+      fileType: content.startsWith('CSV File:') ? 'csv' : content.startsWith('Excel Workbook:') ? 'excel' : 'pdf',
+      normalized,
+      offsets,
+      markers,
+      lines
+    };
+  }
+
+  /**
+   * Turn the model's quoted evidence into citations, dropping quotes that
+   * cannot be found in the document
+   */
+  static resolve(index: DocumentIndex, evidence?: AnalysisEvidence): AnalysisCitations {
+    const cite = (excerpt?: string | null): Citation[] => {
+      const citation = excerpt ? this.locate(index, excerpt) : null;
+      return citation ? [citation] : [];
+    };
+
+    const kpis: AnalysisCitations['kpis'] = {};
+    (Object.keys(evidence?.kpis || {}) as (keyof KPIs)[]).forEach(key => {
+      const citations = cite(evidence!.kpis[key]);
+      if (citations.length > 0) kpis[key] = citations;
+    });
+
+    return {
+      kpis,
+      risks: (evidence?.risks || []).map(cite),
+      opportunities: (evidence?.opportunities || []).map(cite),
+      recommendations: (evidence?.recommendations || []).map(cite)
+    };
+  }
+
+  /**
+   * Cite the statement rows a computed KPI was calculated from
+   */
+  static forComputedKPI(index: DocumentIndex, metric: ComputedKPI, statements: FinancialStatement[]): Citation[] {
+    const citations: Citation[] = [];
+
+    metric.inputs.forEach(input => {
+      for (const statement of statements) {
+        const lineItem = statement.lineItems.find(item => item.concept === input.concept && item.label === input.label);
+        if (!lineItem) continue;
+
+        const citation = this.locateLineItem(index, statement, lineItem.label, lineItem.row);
+        if (citation && !citations.some(existing => existing.location === citation.location && existing.excerpt === citation.excerpt)) {
+          citations.push(citation);
+        }
+        break;
+      }
+    });
+
+    return citations;
+  }
+
+  /**
+   * Find an excerpt in the document, falling back to the line sharing the
+   * most words with it
+   */
+  static locate(index: DocumentIndex, excerpt: string): Citation | null {
+    const needle = excerpt.toLowerCase().replace(/[\s|]+/g, ' ').trim();
+    if (!needle) return null;
+
+    const position = index.normalized.indexOf(needle);
+    if (position >= 0) {
+      return this.describe(index, index.offsets[position], index.offsets[position + needle.length - 1] + 1);
+    }
+
+    const tokens = this.tokenize(excerpt);
+    if (tokens.size === 0) return null;
+
+    let best: DocumentLine | null = null;
+    let bestScore = 0;
+    for (const line of index.lines) {
+      let shared = 0;
+      tokens.forEach(token => {
+        if (line.tokens.has(token)) shared++;
+      });
+      const score = shared / tokens.size;
+      if (shared >= Math.min(2, tokens.size) && score >= MIN_LINE_OVERLAP && score > bestScore) {
+        best = line;
+        bestScore = score;
+      }
+    }
+
+    return best ? this.describe(index, best.start, best.end) : null;
+  }
+
+  private static locateLineItem(
+    index: DocumentIndex,
+    statement: FinancialStatement,
+    label: string,
+    row?: number
+  ): Citation | null {
+    const { content } = index;
+    const scope = index.markers.find(marker =>
+      (statement.source.pageNumber !== undefined && marker.page === statement.source.pageNumber) ||
+      (statement.source.sheetName !== undefined && marker.sheet === statement.source.sheetName)
+    );
+    const scopeStart = scope?.offset ?? 0;
+    const scopeEnd = index.markers.find(marker => marker.offset > scopeStart)?.offset ?? content.length;
+
+    const candidates = index.lines.filter(line => line.start >= scopeStart && line.end <= scopeEnd);
+    const line = (index.fileType !== 'pdf' && row !== undefined
+      ? candidates.find(candidate => content.startsWith(`Row ${row}:`, candidate.start))
+      : undefined) ||
+      candidates.find(candidate => content.slice(candidate.start, candidate.end).includes(label));
+
+    return line ? this.describe(index, line.start, line.end) : null;
+  }
+
+  /**
+   * Build a citation for content[start, end): the page, sheet range or CSV
+   * row it falls in, plus surrounding text
+   */
+  private static describe(index: DocumentIndex, start: number, end: number): Citation {
+    const { content } = index;
+    const marker = [...index.markers].reverse().find(candidate => candidate.offset <= start);
+
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const lineEndIndex = content.indexOf('\n', end);
+    const lineEnd = lineEndIndex < 0 ? content.length : lineEndIndex;
+    const line = content.slice(lineStart, lineEnd);
+    const rowMatch = line.match(/^Row (\d+): /);
+    if (rowMatch && start < lineStart + rowMatch[0].length) {
+      // The "Row N:" prefix is our rendering, not document text
+      start = Math.min(lineStart + rowMatch[0].length, end);
+    }
+
+    // Context starts and ends on line boundaries where the window allows
+    let before = content.slice(Math.max(0, start - CONTEXT_CHARS), start);
+    if (start > CONTEXT_CHARS && before.includes('\n')) before = before.slice(before.indexOf('\n') + 1);
+    let after = content.slice(end, end + CONTEXT_CHARS);
+    if (end + CONTEXT_CHARS < content.length && after.includes('\n')) after = after.slice(0, after.lastIndexOf('\n'));
+
+    const citation: Citation = {
+      location: 'Document',
+      excerpt: content.slice(start, end),
+      before,
+      after
+    };
+
+    if (index.fileType === 'excel' && marker?.sheet) {
+      citation.sheet = marker.sheet;
+      citation.location = `Sheet ${marker.sheet}`;
+      if (rowMatch) {
+        const row = parseInt(rowMatch[1]);
+        const { first, last } = this.cellSpan(line, rowMatch[0].length, start - lineStart, end - lineStart);
+        const firstColumn = marker.firstColumn || 0;
+        citation.range = XLSX.utils.encode_range({
+          s: { r: row - 1, c: firstColumn + first },
+          e: { r: row - 1, c: firstColumn + last }
+        });
+        citation.location = `${marker.sheet}!${citation.range}`;
+      }
+    } else if (index.fileType === 'csv' && rowMatch) {
+      citation.row = parseInt(rowMatch[1]);
+      citation.location = `Row ${citation.row}`;
+    } else if (marker?.page !== undefined) {
+      citation.page = marker.page;
+      citation.location = `Page ${marker.page}`;
+    }
+
+    return citation;
+  }
+
+  /**
+   * Cells of a "Row N: a | b | c" line overlapping [start, end), as
+   * 0-based cell indexes
+   */
+  private static cellSpan(line: string, prefixLength: number, start: number, end: number): { first: number; last: number } {
+    const cells = line.slice(prefixLength).split(' | ');
+    let first = -1;
+    let last = 0;
+    let position = prefixLength;
+
+    cells.forEach((cell, i) => {
+      const cellEnd = position + cell.length;
+      if (cellEnd >= start && position < Math.max(end, start + 1)) {
+        if (first < 0) first = i;
+        last = i;
+      }
+      position = cellEnd + 3;
+    });
+
+    // A match on the "Row N:" prefix itself covers the whole row
+    return first < 0 ? { first: 0, last: cells.length - 1 } : { first, last };
+  }
+
+  private static tokenize(text: string): Set<string> {
+    return new Set(
+      text.toLowerCase()
+        .split(/[^a-z0-9.,%$()-]+/)
+        .map(token => token.replace(/^[.,]+|[.,]+$/g, ''))
+        .filter(token => token.length > 2 || /\d/.test(token))
+    );
+  }
+}
+
+export default CitationService;
@@ -0,0 +1,251 @@
+import { supabase, TABLES } from '@/lib/supabase';
+import { ChatHistory, ChatTurn, GeminiAnalysisService } from '@/lib/gemini';
+import { ChatCitation, ChatMessage, ChatToolCall, Conversation } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+export const MAX_CONVERSATION_TITLE_CHARS = 100;
+
+const RECENT_TURNS = 6; // sent to the model word for word
+const SUMMARY_BATCH = 4; // older turns are folded into the summary this many at a time
+const MAX_TURN_CHARS = 2000; // per message or response in the prompt
+const MAX_HISTORY_MESSAGES = 50;
+
+export class ConversationService {
+  /**
+   * Default title for a thread: the first line of its opening question
+   */
+  static titleFrom(message: string): string {
+    const line = message.trim().split('\n')[0].trim();
+    return line.length > 60 ? `${line.slice(0, 57).trimEnd()}...` : line;
+  }
+
+  static async create(userId: string, entry: { title: string; analysisIds?: string[] }): Promise<Conversation> {
+    const { data, error } = await supabase
+      .from(TABLES.CONVERSATIONS)
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        analysis_ids: entry.analysisIds || [],
+        title: entry.title.slice(0, MAX_CONVERSATION_TITLE_CHARS)
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create conversation: ${error?.message || 'no row returned'}`);
+    }
+
+    return this.toConversation(data);
+  }
+
+  static async get(userId: string, conversationId: string): Promise<Conversation | null> {
+    const { data } = await supabase
+      .from(TABLES.CONVERSATIONS)
+      .select('*')
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .single();
+
+    return data ? this.toConversation(data) : null;
+  }
+
+  /**
+   * Page through a user's conversations, most recently active first
+   */
+  static async list(
+    userId: string,
+    options: { page: number; limit: number; analysisId?: string | null }
+  ): Promise<{ conversations: Conversation[]; total: number }> {
+    const offset = (options.page - 1) * options.limit;
+
+    let query = supabase
+      .from(TABLES.CONVERSATIONS)
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('last_message_at', { ascending: false });
+
+    if (options.analysisId) {
+      query = query.contains('analysis_ids', [options.analysisId]);
+    }
+
+    const { data, error, count } = await query.range(offset, offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch conversations: ${error.message}`);
+    }
+
+    return { conversations: (data || []).map(row => this.toConversation(row)), total: count || 0 };
+  }
+
+  /**
+   * Messages of a thread, oldest first
+   */
+  static async getMessages(conversationId: string): Promise<ChatMessage[]> {
+    const { data, error } = await supabase
+      .from(TABLES.CHAT_MESSAGES)
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('timestamp', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch conversation messages: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      conversationId: row.conversation_id,
+      analysisId: row.analysis_id || undefined,
+      message: row.message,
+      response: row.response,
+      citations: row.citations || [],
+      toolCalls: row.tool_calls || [],
+      model: row.model || undefined,
+      promptVersion: row.prompt_version || undefined,
+      feedback: row.feedback
+        ? { rating: row.feedback, correction: row.feedback_correction || undefined, createdAt: new Date(row.feedback_at) }
+        : undefined,
+      timestamp: new Date(row.timestamp)
+    }));
+  }
+
+  /**
+   * Prior turns to include in the prompt, from the latest
+   * MAX_HISTORY_MESSAGES. Once more than RECENT_TURNS are waiting, the oldest
+   * are folded into the stored summary; if that fails the thread is simply
+   * cut to the most recent turns.
+   */
+  static async getHistory(conversationId: string, analysisService: GeminiAnalysisService): Promise<ChatHistory> {
+    const { data: conversation } = await supabase
+      .from(TABLES.CONVERSATIONS)
+      .select('summary, summarized_count')
+      .eq('id', conversationId)
+      .single();
+
+    const summarizedCount: number = conversation?.summarized_count || 0;
+    let summary: string | undefined = conversation?.summary || undefined;
+
+    const { data: messages, error, count } = await supabase
+      .from(TABLES.CHAT_MESSAGES)
+      .select('message, response', { count: 'exact' })
+      .eq('conversation_id', conversationId)
+      .order('timestamp', { ascending: false })
+      .limit(MAX_HISTORY_MESSAGES);
+
+    if (error) {
+      throw new Error(`Failed to fetch conversation history: ${error.message}`);
+    }
+
+    // Thread position of the oldest loaded message; earlier turns that were
+    // never summarized (summaries kept failing) are dropped
+    const recent = (messages || []).reverse();
+    const loadedFrom = (count ?? recent.length) - recent.length;
+    const alreadySummarized = Math.max(summarizedCount - loadedFrom, 0);
+    const windowStart = loadedFrom + alreadySummarized;
+
+    let turns: ChatTurn[] = recent.slice(alreadySummarized).map(row => ({
+      message: row.message.slice(0, MAX_TURN_CHARS),
+      response: row.response.slice(0, MAX_TURN_CHARS)
+    }));
+
+    const overflow = turns.length - RECENT_TURNS;
+    if (overflow >= SUMMARY_BATCH) {
+      try {
+        summary = await analysisService.summarizeConversation(summary, turns.slice(0, overflow));
+
+        const { error: updateError } = await supabase
+          .from(TABLES.CONVERSATIONS)
+          .update({ summary, summarized_count: windowStart + overflow })
+          .eq('id', conversationId);
+
+        if (updateError) {
+          console.error('Conversation summary update error:', updateError);
+        }
+      } catch (summaryError) {
+        console.error('Conversation summary error:', summaryError);
+      }
+      turns = turns.slice(overflow);
+    }
+
+    return { summary, turns };
+  }
+
+  /**
+   * Store a completed exchange, starting a new thread when there is none.
+   * Failures are logged rather than thrown so the answer still reaches the user.
+   */
+  static async addExchange(userId: string, conversationId: string | undefined, entry: {
+    analysisIds: string[];
+    message: string;
+    response: string;
+    citations?: ChatCitation[];
+    toolCalls?: ChatToolCall[];
+    model: string;
+    promptVersion: string;
+  }): Promise<{ messageId: string | null; conversationId: string | null }> {
+    let threadId = conversationId || null;
+
+    try {
+      if (!threadId) {
+        const conversation = await this.create(userId, {
+          title: this.titleFrom(entry.message),
+          analysisIds: entry.analysisIds
+        });
+        threadId = conversation.id;
+      }
+    } catch (error) {
+      console.error('Conversation creation error:', error);
+    }
+
+    const messageId = uuidv4();
+    const timestamp = new Date().toISOString();
+
+    const { error: chatError } = await supabase
+      .from(TABLES.CHAT_MESSAGES)
+      .insert({
+        id: messageId,
+        user_id: userId,
+        conversation_id: threadId,
+        analysis_id: entry.analysisIds[0] || null, // first analysis of a comparison
+        message: entry.message.trim(),
+        response: entry.response,
+        citations: entry.citations || [],
+        tool_calls: entry.toolCalls || [],
+        model: entry.model,
+        prompt_version: entry.promptVersion,
+        timestamp
+      });
+
+    if (chatError) {
+      console.error('Chat save error:', chatError);
+      return { messageId: null, conversationId: threadId };
+    }
+
+    if (threadId) {
+      const { error: touchError } = await supabase
+        .from(TABLES.CONVERSATIONS)
+        .update({ last_message_at: timestamp })
+        .eq('id', threadId);
+
+      if (touchError) {
+        console.error('Conversation update error:', touchError);
+      }
+    }
+
+    return { messageId, conversationId: threadId };
+  }
+
+  static toConversation(row: any): Conversation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      analysisIds: row.analysis_ids || [],
+      title: row.title,
+      lastMessageAt: new Date(row.last_message_at),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+export default ConversationService;
@@ -0,0 +1,214 @@
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type DecimalSeparator = '.' | ',';
+
+export interface ParsedCSV {
+  rows: string[][];
+  delimiter: string;
+  encoding: CSVEncoding;
+  decimalSeparator: DecimalSeparator;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Number of records inspected when sniffing the delimiter and number format
+const SAMPLE_RECORDS = 50;
+
+export class CSVParser {
+  /**
+   * Decode, sniff and parse a CSV export into a grid of cells
+   */
+  static parse(input: Buffer | string): ParsedCSV {
+    const { text, encoding } = typeof input === 'string'
+      ? { text: input.replace(/^﻿/, ''), encoding: 'utf-8' as CSVEncoding }
+      : this.decode(input);
+
+    // Excel writes a "sep=;" hint line in front of some exports
+    const hint = text.match(/^sep=(.)\r?\n/i);
+    const body = hint ? text.slice(hint[0].length) : text;
+    const delimiter = hint ? hint[1] : this.sniffDelimiter(body);
+
+    const rows = this.parseRecords(body, delimiter)
+      .filter(row => row.some(cell => cell.trim() !== ''));
+
+    return {
+      rows,
+      delimiter,
+      encoding,
+      decimalSeparator: this.detectDecimalSeparator(rows, delimiter)
+    };
+  }
+
+  /**
+   * Decode bytes using the BOM when present, falling back to UTF-16
+   * detection by NUL-byte pattern and finally Windows-1252 when the
+   * bytes are not valid UTF-8
+   */
+  static decode(buffer: Buffer): { text: string; encoding: CSVEncoding } {
+    const bytes = new Uint8Array(buffer);
+
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+      return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+    }
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+      return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+    }
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+      return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+    }
+
+    // BOM-less UTF-16: ASCII text leaves every other byte NUL
+    const sample = bytes.subarray(0, 1000);
+    let evenNulls = 0;
+    let oddNulls = 0;
+    sample.forEach((byte, index) => {
+      if (byte === 0) index % 2 === 0 ? evenNulls++ : oddNulls++;
+    });
+    const half = sample.length / 2;
+    if (half > 0 && oddNulls / half > 0.3 && evenNulls / half < 0.05) {
+      return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' };
+    }
+    if (half > 0 && evenNulls / half > 0.3 && oddNulls / half < 0.05) {
+      return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' };
+    }
+
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+    } catch {
+      return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+    }
+  }
+
+  /**
+   * Pick the delimiter that splits the sample into the most consistent
+   * number of fields per record
+   */
+  static sniffDelimiter(text: string): string {
+    let best = { delimiter: ',', score: 0 };
+
+    CANDIDATE_DELIMITERS.forEach(delimiter => {
+      const counts = this.parseRecords(text, delimiter, SAMPLE_RECORDS)
+        .filter(row => row.some(cell => cell.trim() !== ''))
+        .map(row => row.length);
+      if (counts.length === 0) return;
+
+      const frequency = new Map<number, number>();
+      counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+      const [fieldCount, occurrences] = Array.from(frequency.entries())
+        .sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+      if (fieldCount < 2) return;
+
+      // Consistency first, then prefer the delimiter producing more columns
+      const score = (occurrences / counts.length) * 100 + Math.min(fieldCount, 50) / 100;
+      if (score > best.score) {
+        best = { delimiter, score };
+      }
+    });
+
+    return best.delimiter;
+  }
+
+  /**
+   * RFC 4180 record parser: quoted fields may contain delimiters, line
+   * breaks and doubled quotes; CRLF, LF and CR line endings are accepted
+   */
+  static parseRecords(text: string, delimiter: string, maxRecords = Infinity): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let fieldStart = true;
+
+    const endField = () => {
+      record.push(field);
+      field = '';
+      fieldStart = true;
+    };
+    const endRecord = () => {
+      endField();
+      records.push(record);
+      record = [];
+    };
+
+    for (let i = 0; i < text.length && records.length < maxRecords; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && fieldStart) {
+        inQuotes = true;
+        fieldStart = false;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        endRecord();
+      } else {
+        // Tolerate spaces before an opening quote (`a, "b"`)
+        if (!(fieldStart && char === ' ' && this.quoteFollows(text, i))) {
+          fieldStart = false;
+        }
+        field += char;
+      }
+    }
+
+    if (records.length < maxRecords && (field !== '' || record.length > 0)) {
+      endRecord();
+    }
+
+    return records.map(row => row.map(cell => cell.trim()));
+  }
+
+  /**
+   * Decide whether numbers use "." or "," as the decimal separator by
+   * voting over unambiguous cells such as "1.234,56" or "1,234.56"
+   */
+  static detectDecimalSeparator(rows: string[][], delimiter: string): DecimalSeparator {
+    let commaVotes = 0;
+    let dotVotes = 0;
+
+    rows.slice(0, SAMPLE_RECORDS * 4).forEach(row => {
+      row.forEach(cell => {
+        const value = cell.replace(/[\s  '()$€£¥%+\-–]/g, '');
+        if (!/^[\d.,]+$/.test(value) || !/\d/.test(value)) return;
+
+        if (/^\d{1,3}(\.\d{3})+,\d+$/.test(value) || /^\d+,\d{1,2}$/.test(value) || /^\d+,\d{4,}$/.test(value)) {
+          commaVotes++;
+        } else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(value) || /^\d+\.\d{1,2}$/.test(value) || /^\d+\.\d{4,}$/.test(value)) {
+          dotVotes++;
+        } else if (/^\d{1,3}(\.\d{3}){2,}$/.test(value)) {
+          // "1.234.567" can only be grouping
+          commaVotes++;
+        } else if (/^\d{1,3}(,\d{3}){2,}$/.test(value)) {
+          dotVotes++;
+        }
+      });
+    });
+
+    if (commaVotes === dotVotes) {
+      // Semicolon exports come from locales that use a decimal comma
+      return delimiter === ';' ? ',' : '.';
+    }
+    return commaVotes > dotVotes ? ',' : '.';
+  }
+
+  private static quoteFollows(text: string, index: number): boolean {
+    let i = index;
+    while (text[i] === ' ') i++;
+    return text[i] === '"';
+  }
+}
+
+export default CSVParser;
@@ -1,4 +1,10 @@
-import { Analysis, ChartData, Insight, Dashboard } from '@/types';
+import { Analysis, ChartData, Insight, Dashboard, ExportData, TrendSeries } from '@/types';
+import TrendAnalysisService from '@/lib/trend-analysis';
+
+// ExportData fields a request or template can include or leave out
+export const EXPORT_SECTIONS = [
+  'summary', 'kpis', 'computedKpis', 'statements', 'charts', 'insights', 'risks', 'opportunities', 'recommendations'
+] as const;
 
 export interface DashboardGenerationResult {
   chartData: ChartData[];
@@ -7,11 +13,12 @@ export interface DashboardGenerationResult {
 
 export class DashboardService {
   /**
-   * Generate dashboard data from analysis results
+   * Generate dashboard data from analysis results, with time-series charts
+   * when a multi-period trend is available
    */
-  static generateDashboard(analysis: Analysis): DashboardGenerationResult {
-    const chartData = this.generateChartData(analysis);
-    const insights = this.generateInsights(analysis);
+  static generateDashboard(analysis: Analysis, trend?: TrendSeries): DashboardGenerationResult {
+    const chartData = this.generateChartData(analysis, trend);
+    const insights = this.generateInsights(analysis, trend);
 
     return {
       chartData,
@@ -22,43 +29,23 @@ export class DashboardService {
   /**
    * Generate chart data from KPIs and analysis
    */
-  private static generateChartData(analysis: Analysis): ChartData[] {
+  private static generateChartData(analysis: Analysis, trend?: TrendSeries): ChartData[] {
     const charts: ChartData[] = [];
     const kpis = analysis.kpis;
 
-    // Financial Overview Bar Chart
-    const financialOverview: ChartData = {
-      type: 'bar',
-      title: 'Financial Overview',
-      data: [
-        {
-          category: 'Revenue',
-          value: this.extractNumericValue(kpis.revenue),
-          formatted: kpis.revenue
-        },
-        {
-          category: 'Expenses', 
-          value: this.extractNumericValue(kpis.expenses),
-          formatted: kpis.expenses
-        },
-        {
-          category: 'Net Profit',
-          value: this.extractNumericValue(kpis.netProfit),
-          formatted: kpis.netProfit
-        }
-      ],
-      xAxisKey: 'category',
-      yAxisKey: 'value'
-    };
-    charts.push(financialOverview);
+    if (trend && trend.points.length >= 2) {
+      charts.push(...this.generateTrendCharts(trend));
+    } else {
+      charts.push(this.generateFinancialOverview(analysis));
+    }
 
     // Asset vs Liability Pie Chart (if available)
     if (kpis.totalAssets !== 'N/A' && kpis.totalLiabilities !== 'N/A') {
       const assetValue = this.extractNumericValue(kpis.totalAssets);
       const liabilityValue = this.extractNumericValue(kpis.totalLiabilities);
-      const equity = assetValue - liabilityValue;
 
-      if (assetValue > 0) {
+      if (assetValue !== null && liabilityValue !== null && assetValue > 0) {
+        const equity = assetValue - liabilityValue;
         const balanceSheet: ChartData = {
           type: 'pie',
           title: 'Balance Sheet Composition',
@@ -143,13 +130,141 @@ export class DashboardService {
     return charts;
   }
 
+  /**
+   * Single-period overview used when no multi-period trend is available
+   */
+  private static generateFinancialOverview(analysis: Analysis): ChartData {
+    const kpis = analysis.kpis;
+
+    return {
+      type: 'bar',
+      title: 'Financial Overview',
+      data: [
+        {
+          category: 'Revenue',
+          value: this.extractNumericValue(kpis.revenue),
+          formatted: kpis.revenue
+        },
+        {
+          category: 'Expenses', 
+          value: this.extractNumericValue(kpis.expenses),
+          formatted: kpis.expenses
+        },
+        {
+          category: 'Net Profit',
+          value: this.extractNumericValue(kpis.netProfit),
+          formatted: kpis.netProfit
+        }
+      ],
+      xAxisKey: 'category',
+      yAxisKey: 'value'
+    };
+  }
+
+  /**
+   * Period-over-period line charts from a trend series
+   */
+  private static generateTrendCharts(trend: TrendSeries): ChartData[] {
+    const charts: ChartData[] = [];
+    const revenueGrowth = TrendAnalysisService.getGrowth(trend, 'revenue');
+
+    const performance = trend.points.map((point, index) => ({
+      period: point.period,
+      revenue: point.values.revenue ?? null,
+      netIncome: point.values.net_income ?? null,
+      operatingCashFlow: point.values.operating_cash_flow ?? null,
+      revenueGrowth: revenueGrowth[index] !== null ? Math.round(revenueGrowth[index]! * 10) / 10 : null,
+      sources: point.sources
+    }));
+
+    const performanceSeries = [
+      { dataKey: 'revenue', name: 'Revenue' },
+      { dataKey: 'netIncome', name: 'Net Income' },
+      { dataKey: 'operatingCashFlow', name: 'Operating Cash Flow' }
+    ].filter(series => performance.some(row => (row as any)[series.dataKey] !== null));
+
+    if (performanceSeries.length > 0) {
+      charts.push({
+        type: 'line',
+        title: 'Revenue & Profit Trend',
+        data: performance,
+        xAxisKey: 'period',
+        series: performanceSeries
+      });
+    }
+
+    const margins = trend.points.map(point => {
+      const { revenue, gross_profit, operating_income, net_income } = point.values;
+      const margin = (value?: number) =>
+        revenue && value !== undefined ? Math.round((value / revenue) * 1000) / 10 : null;
+
+      return {
+        period: point.period,
+        grossMargin: margin(gross_profit),
+        operatingMargin: margin(operating_income),
+        netMargin: margin(net_income)
+      };
+    });
+
+    const marginSeries = [
+      { dataKey: 'grossMargin', name: 'Gross Margin %' },
+      { dataKey: 'operatingMargin', name: 'Operating Margin %' },
+      { dataKey: 'netMargin', name: 'Net Margin %' }
+    ].filter(series => margins.some(row => (row as any)[series.dataKey] !== null));
+
+    if (marginSeries.length > 0) {
+      charts.push({
+        type: 'line',
+        title: 'Margin Trend',
+        data: margins,
+        xAxisKey: 'period',
+        series: marginSeries
+      });
+    }
+
+    if (revenueGrowth.some(value => value !== null)) {
+      charts.push({
+        type: 'bar',
+        title: 'Revenue Growth by Period',
+        data: performance.slice(1).map(row => ({
+          period: row.period,
+          value: row.revenueGrowth,
+          formatted: row.revenueGrowth !== null ? `${row.revenueGrowth}%` : 'N/A'
+        })),
+        xAxisKey: 'period',
+        yAxisKey: 'value'
+      });
+    }
+
+    return charts;
+  }
+
   /**
    * Generate insights from analysis data
    */
-  private static generateInsights(analysis: Analysis): Insight[] {
+  private static generateInsights(analysis: Analysis, trend?: TrendSeries): Insight[] {
     const insights: Insight[] = [];
     const kpis = analysis.kpis;
 
+    // Multi-period revenue trend
+    if (trend && trend.points.length >= 2) {
+      const first = trend.points[0];
+      const last = trend.points[trend.points.length - 1];
+      const start = first.values.revenue;
+      const end = last.values.revenue;
+
+      if (start && end !== undefined) {
+        const change = ((end - start) / Math.abs(start)) * 100;
+        insights.push({
+          id: 'revenue-trend',
+          title: 'Revenue Trend',
+          description: `Revenue ${change >= 0 ? 'grew' : 'declined'} ${Math.abs(change).toFixed(1)}% from ${first.period} to ${last.period} across ${trend.points.length} periods`,
+          type: change > 5 ? 'positive' : change < 0 ? 'negative' : 'neutral',
+          importance: 'high'
+        });
+      }
+    }
+
     // Profitability Insight
     const netProfitValue = this.extractNumericValue(kpis.netProfit);
     if (netProfitValue !== null) {
@@ -238,7 +353,7 @@ export class DashboardService {
   /**
    * Extract numeric value from formatted string
    */
-  private static extractNumericValue(value: string): number | null {
+  private static extractNumericValue(value?: string): number | null {
     if (!value || value === 'N/A') return null;
     
     // Remove currency symbols, commas, and spaces
@@ -255,7 +370,7 @@ export class DashboardService {
   /**
    * Extract percentage value from formatted string
    */
-  private static extractPercentageValue(value: string): number | null {
+  private static extractPercentageValue(value?: string): number | null {
     if (!value || value === 'N/A') return null;
     
     const cleaned = value.replace(/[%\s]/g, '');
@@ -280,22 +395,14 @@ export class DashboardService {
   static generateExportData(
     analysis: Analysis,
     dashboard: Dashboard
-  ): {
-    title: string;
-    summary: string;
-    kpis: any;
-    charts: ChartData[];
-    insights: Insight[];
-    risks: string[];
-    opportunities: string[];
-    recommendations: string[];
-    metadata: any;
-  } {
+  ): ExportData {
     return {
       title: `Financial Analysis Report`,
       summary: analysis.summary,
       kpis: analysis.kpis,
-      charts: dashboard.chartData,
+      computedKpis: analysis.computedKpis || (analysis as any).computed_kpis || [],
+      statements: analysis.statements || [],
+      charts: dashboard.chartData || (dashboard as any).chart_data || [],
       insights: dashboard.insights,
       risks: analysis.risks,
       opportunities: analysis.opportunities,
@@ -307,6 +414,29 @@ export class DashboardService {
       }
     };
   }
+
+  /**
+   * Export data with only the requested sections; every section when none
+   * are requested
+   */
+  static selectSections(data: ExportData, sections: string[]): ExportData {
+    if (sections.length === 0) return data;
+
+    const selected = { ...data };
+    EXPORT_SECTIONS.forEach(section => {
+      if (!sections.includes(section)) {
+        delete selected[section];
+      }
+    });
+    return selected;
+  }
+
+  /**
+   * Sections present in export data, as recorded in export history
+   */
+  static includedSections(data: ExportData): string[] {
+    return EXPORT_SECTIONS.filter(section => data[section] !== undefined);
+  }
 }
 
 export default DashboardService;
\ No newline at end of file
@@ -12,10 +12,22 @@ CREATE TABLE public.users (
   role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin')),
   subscription_tier TEXT NOT NULL DEFAULT 'free' CHECK (subscription_tier IN ('free', 'pro', 'enterprise')),
   upload_count INTEGER NOT NULL DEFAULT 0,
+  llm_provider TEXT CHECK (llm_provider IN ('gemini', 'openai', 'ollama')), -- NULL uses the environment default
+  llm_model TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Companies table (groups files from the same reporting entity)
+CREATE TABLE public.companies (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
 -- Files table
 CREATE TABLE public.files (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -26,6 +38,7 @@ CREATE TABLE public.files (
   upload_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   analysis_status TEXT NOT NULL DEFAULT 'pending' CHECK (analysis_status IN ('pending', 'completed', 'failed')),
   supabase_storage_path TEXT,
+  company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -36,6 +49,14 @@ CREATE TABLE public.analyses (
   file_id UUID REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
   summary TEXT,
   kpis JSONB,
+  computed_kpis JSONB DEFAULT '[]'::jsonb,
+  kpi_discrepancies JSONB DEFAULT '[]'::jsonb,
+  statements JSONB DEFAULT '[]'::jsonb,
+  model TEXT, -- provider/model that generated the analysis
+  sections JSONB DEFAULT '[]'::jsonb, -- document sections analyzed separately for long reports
+  finding_sources JSONB, -- section ids behind each KPI and finding
+  citations JSONB, -- document locations behind each KPI and finding
+  suggested_questions JSONB, -- chat starter questions, generated once; NULL until then
   risks TEXT[],
   opportunities TEXT[],
   recommendations TEXT[],
@@ -43,6 +64,28 @@ CREATE TABLE public.analyses (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Analysis jobs table (queue processed by the analysis worker)
+CREATE TABLE public.analysis_jobs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  file_id UUID REFERENCES public.files(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'queued' CHECK (stage IN ('queued', 'downloading', 'parsing', 'analyzing', 'saving', 'completed')),
+  progress INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  analysis_type TEXT NOT NULL DEFAULT 'full' CHECK (analysis_type IN ('full', 'quick', 'custom')),
+  custom_prompt TEXT,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Dashboards table
 CREATE TABLE public.dashboards (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -53,13 +96,48 @@ CREATE TABLE public.dashboards (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Passages of each analyzed document, indexed for chat retrieval
+CREATE TABLE public.document_chunks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE CASCADE NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  location TEXT NOT NULL, -- e.g. "Page 3" or "Sheet: P&L"
+  page INTEGER,
+  sheet TEXT,
+  content TEXT NOT NULL,
+  terms JSONB NOT NULL, -- term -> occurrences, for BM25 scoring
+  term_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Chat conversations table
+CREATE TABLE public.conversations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  analysis_ids UUID[] NOT NULL DEFAULT '{}', -- analyses the thread is about; deleted ones are skipped
+  title TEXT NOT NULL,
+  summary TEXT, -- condensed earlier turns once the thread is too long to send in full
+  summarized_count INTEGER NOT NULL DEFAULT 0, -- messages covered by summary
+  last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Chat messages table
 CREATE TABLE public.chat_messages (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
   analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
   message TEXT NOT NULL,
   response TEXT NOT NULL,
+  citations JSONB DEFAULT '[]'::jsonb, -- report passages cited in the response
+  tool_calls JSONB DEFAULT '[]'::jsonb, -- calculations run on the parsed statements, with results
+  model TEXT, -- provider/model that generated the response
+  prompt_version TEXT, -- CHAT_PROMPT_VERSION the response was generated with
+  feedback TEXT CHECK (feedback IN ('up', 'down')), -- the user's rating of the response
+  feedback_correction TEXT, -- what the user says the response should have said
+  feedback_at TIMESTAMP WITH TIME ZONE,
   timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -74,15 +152,91 @@ CREATE TABLE public.notifications (
   timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Notion connections table (one connected workspace per user, written by the server only)
+CREATE TABLE public.notion_connections (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  access_token TEXT NOT NULL,
+  bot_id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  workspace_name TEXT,
+  workspace_icon TEXT,
+  parent_id TEXT, -- default page or database new exports are created under
+  parent_type TEXT CHECK (parent_type IN ('page', 'database')),
+  parent_title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Export templates table (Handlebars templates for markdown and html exports)
+CREATE TABLE public.export_templates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE, -- NULL for organization-wide templates
+  name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('markdown', 'html')),
+  content TEXT NOT NULL,
+  sections TEXT[] NOT NULL DEFAULT '{}', -- sections included when an export request names none
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Report themes table (branding for pdf, word and html exports)
+CREATE TABLE public.report_themes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE, -- NULL for organization-wide themes
+  name TEXT NOT NULL,
+  logo TEXT, -- PNG or JPEG data URL
+  colors JSONB NOT NULL, -- { primary, text, muted, chart[] }
+  fonts JSONB NOT NULL, -- { heading, body }: sans, serif or mono
+  cover_title TEXT,
+  cover_text TEXT,
+  footer_disclaimer TEXT,
+  confidentiality_label TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Exports table (history of generated reports)
+CREATE TABLE public.exports (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  analysis_id UUID REFERENCES public.analyses(id) ON DELETE SET NULL,
+  format TEXT NOT NULL CHECK (format IN ('pdf', 'word', 'notion', 'xlsx', 'markdown', 'html')),
+  sections TEXT[] NOT NULL DEFAULT '{}', -- empty when every section was included
+  template_id UUID REFERENCES public.export_templates(id) ON DELETE SET NULL,
+  theme_id UUID REFERENCES public.report_themes(id) ON DELETE SET NULL,
+  storage_path TEXT, -- object in the exported-reports bucket; NULL for Notion pages
+  page_url TEXT, -- Notion page URL
+  file_size BIGINT,
+  file_expires_at TIMESTAMP WITH TIME ZONE, -- stored file is purged after this
+  purged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_files_user_id ON public.files(user_id);
 CREATE INDEX idx_files_analysis_status ON public.files(analysis_status);
+CREATE INDEX idx_files_company_id ON public.files(company_id);
+CREATE INDEX idx_companies_user_id ON public.companies(user_id);
 CREATE INDEX idx_analyses_file_id ON public.analyses(file_id);
+CREATE INDEX idx_analysis_jobs_user_id ON public.analysis_jobs(user_id);
+CREATE INDEX idx_analysis_jobs_file_id ON public.analysis_jobs(file_id);
+CREATE INDEX idx_analysis_jobs_queue ON public.analysis_jobs(status, run_after);
 CREATE INDEX idx_dashboards_analysis_id ON public.dashboards(analysis_id);
+CREATE INDEX idx_document_chunks_analysis_id ON public.document_chunks(analysis_id, chunk_index);
 CREATE INDEX idx_chat_messages_user_id ON public.chat_messages(user_id);
 CREATE INDEX idx_chat_messages_analysis_id ON public.chat_messages(analysis_id);
+CREATE INDEX idx_chat_messages_conversation_id ON public.chat_messages(conversation_id, timestamp);
+CREATE INDEX idx_chat_messages_quality ON public.chat_messages(timestamp, prompt_version, model);
+CREATE INDEX idx_conversations_user_id ON public.conversations(user_id, last_message_at DESC);
+CREATE INDEX idx_conversations_analysis_ids ON public.conversations USING GIN (analysis_ids);
 CREATE INDEX idx_notifications_user_id ON public.notifications(user_id);
 CREATE INDEX idx_notifications_read ON public.notifications(read);
+CREATE INDEX idx_export_templates_user_id ON public.export_templates(user_id, format);
+CREATE INDEX idx_report_themes_user_id ON public.report_themes(user_id);
+CREATE INDEX idx_exports_user_id ON public.exports(user_id, created_at DESC);
+CREATE INDEX idx_exports_expiry ON public.exports(file_expires_at) WHERE purged_at IS NULL;
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION trigger_set_timestamp()
@@ -99,6 +253,11 @@ CREATE TRIGGER set_timestamp_users
     FOR EACH ROW
     EXECUTE PROCEDURE trigger_set_timestamp();
 
+CREATE TRIGGER set_timestamp_companies
+    BEFORE UPDATE ON public.companies
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
 CREATE TRIGGER set_timestamp_files
     BEFORE UPDATE ON public.files
     FOR EACH ROW
@@ -109,18 +268,51 @@ CREATE TRIGGER set_timestamp_analyses
     FOR EACH ROW
     EXECUTE PROCEDURE trigger_set_timestamp();
 
+CREATE TRIGGER set_timestamp_analysis_jobs
+    BEFORE UPDATE ON public.analysis_jobs
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
 CREATE TRIGGER set_timestamp_dashboards
     BEFORE UPDATE ON public.dashboards
     FOR EACH ROW
     EXECUTE PROCEDURE trigger_set_timestamp();
 
+CREATE TRIGGER set_timestamp_notion_connections
+    BEFORE UPDATE ON public.notion_connections
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+CREATE TRIGGER set_timestamp_conversations
+    BEFORE UPDATE ON public.conversations
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+CREATE TRIGGER set_timestamp_export_templates
+    BEFORE UPDATE ON public.export_templates
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
+CREATE TRIGGER set_timestamp_report_themes
+    BEFORE UPDATE ON public.report_themes
+    FOR EACH ROW
+    EXECUTE PROCEDURE trigger_set_timestamp();
+
 -- Row Level Security (RLS) policies
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.files ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.analyses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.dashboards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notion_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.export_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.report_themes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exports ENABLE ROW LEVEL SECURITY;
 
 -- Users policies
 CREATE POLICY "Users can view own profile" ON public.users
@@ -137,6 +329,10 @@ CREATE POLICY "Admins can view all users" ON public.users
         )
     );
 
+-- Companies policies
+CREATE POLICY "Users can manage own companies" ON public.companies
+    FOR ALL USING (auth.uid() = user_id);
+
 -- Files policies
 CREATE POLICY "Users can view own files" ON public.files
     FOR SELECT USING (auth.uid() = user_id);
@@ -167,6 +363,10 @@ CREATE POLICY "Users can insert analyses for own files" ON public.analyses
         )
     );
 
+-- Analysis jobs policies (jobs are written by the server only)
+CREATE POLICY "Users can view own analysis jobs" ON public.analysis_jobs
+    FOR SELECT USING (auth.uid() = user_id);
+
 -- Dashboards policies
 CREATE POLICY "Users can view own dashboards" ON public.dashboards
     FOR SELECT USING (
@@ -177,6 +377,29 @@ CREATE POLICY "Users can view own dashboards" ON public.dashboards
         )
     );
 
+-- Document chunks policies (chunks are written by the server only)
+CREATE POLICY "Users can view own document chunks" ON public.document_chunks
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.analyses
+            JOIN public.files ON analyses.file_id = files.id
+            WHERE analyses.id = document_chunks.analysis_id AND files.user_id = auth.uid()
+        )
+    );
+
+-- Conversations policies
+CREATE POLICY "Users can view own conversations" ON public.conversations
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conversations" ON public.conversations
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversations" ON public.conversations
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations" ON public.conversations
+    FOR DELETE USING (auth.uid() = user_id);
+
 -- Chat messages policies
 CREATE POLICY "Users can view own chat messages" ON public.chat_messages
     FOR SELECT USING (auth.uid() = user_id);
@@ -184,6 +407,24 @@ CREATE POLICY "Users can view own chat messages" ON public.chat_messages
 CREATE POLICY "Users can insert own chat messages" ON public.chat_messages
     FOR INSERT WITH CHECK (auth.uid() = user_id);
 
+CREATE POLICY "Users can rate own chat messages" ON public.chat_messages
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Ratings are the only columns clients can edit; the answer and the model and
+-- prompt version it was generated with stay as recorded. The API saves
+-- feedback with the service role after checking the message's owner.
+REVOKE UPDATE ON public.chat_messages FROM anon, authenticated;
+GRANT UPDATE (feedback, feedback_correction, feedback_at) ON public.chat_messages TO authenticated;
+
+-- Admins review answer feedback across all users
+CREATE POLICY "Admins can view all chat messages" ON public.chat_messages
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
 -- Notifications policies
 CREATE POLICY "Users can view own notifications" ON public.notifications
     FOR SELECT USING (auth.uid() = user_id);
@@ -191,6 +432,47 @@ CREATE POLICY "Users can view own notifications" ON public.notifications
 CREATE POLICY "Users can update own notifications" ON public.notifications
     FOR UPDATE USING (auth.uid() = user_id);
 
+-- Notion connections policies (tokens are written by the server only)
+CREATE POLICY "Users can view own notion connection" ON public.notion_connections
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notion connection" ON public.notion_connections
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Export templates policies (organization-wide templates are managed by admins)
+CREATE POLICY "Users can view own and shared export templates" ON public.export_templates
+    FOR SELECT USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own export templates" ON public.export_templates
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage shared export templates" ON public.export_templates
+    FOR ALL USING (
+        user_id IS NULL AND EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Report themes policies (organization-wide themes are managed by admins)
+CREATE POLICY "Users can view own and shared report themes" ON public.report_themes
+    FOR SELECT USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own report themes" ON public.report_themes
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage shared report themes" ON public.report_themes
+    FOR ALL USING (
+        user_id IS NULL AND EXISTS (
+            SELECT 1 FROM public.users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Exports policies (history is written by the server only)
+CREATE POLICY "Users can view own exports" ON public.exports
+    FOR SELECT USING (auth.uid() = user_id);
+
 -- Storage policies for uploaded files
 INSERT INTO storage.buckets (id, name, public) VALUES ('uploaded-files', 'uploaded-files', false);
 INSERT INTO storage.buckets (id, name, public) VALUES ('exported-reports', 'exported-reports', false);
@@ -254,4 +536,56 @@ BEGIN
   
   RETURN (max_uploads = -1 OR current_count < max_uploads);
 END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
\ No newline at end of file
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Answer feedback per prompt version and model since a date, for the admin
+-- quality report. Counts every user's answers: only the service role may call
+-- it, from the admin-only feedback route.
+CREATE OR REPLACE FUNCTION public.chat_feedback_summary(since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  prompt_version TEXT,
+  model TEXT,
+  answers BIGINT,
+  rated BIGINT,
+  up BIGINT,
+  down BIGINT,
+  corrections BIGINT
+) AS $$
+  SELECT m.prompt_version,
+         m.model,
+         COUNT(*),
+         COUNT(m.feedback),
+         COUNT(*) FILTER (WHERE m.feedback = 'up'),
+         COUNT(*) FILTER (WHERE m.feedback = 'down'),
+         COUNT(m.feedback_correction)
+  FROM public.chat_messages m
+  WHERE m.timestamp >= since
+  GROUP BY m.prompt_version, m.model;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.chat_feedback_summary(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.chat_feedback_summary(TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Atomically claim the next runnable analysis job. Running jobs whose lock
+-- is older than the timeout are treated as abandoned by a crashed worker;
+-- workers refresh locked_at as each stage and document section completes.
+CREATE OR REPLACE FUNCTION public.claim_analysis_job(worker_id TEXT, lock_timeout_seconds INTEGER DEFAULT 600)
+RETURNS SETOF public.analysis_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.analysis_jobs
+  SET status = 'running',
+      locked_at = NOW(),
+      locked_by = worker_id,
+      attempts = attempts + 1
+  WHERE id = (
+    SELECT id FROM public.analysis_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,112 @@
+import { AnalysisSection } from '@/types';
+
+export interface DocumentChunk extends AnalysisSection {
+  text: string;
+}
+
+interface DocumentUnit {
+  kind: 'page' | 'sheet' | 'text';
+  name: string;
+  start: number;
+  end: number;
+}
+
+// Characters of report content sent to the model per call
+export const ANALYSIS_CHUNK_CHARS = parseInt(process.env.ANALYSIS_CHUNK_CHARS || '60000');
+
+// Page and sheet markers written by FileParsingService
+const UNIT_MARKER = /^(?:--- Page (\d+) ---|Sheet \d+: (.+?) \([^)]*\))$/gm;
+
+export class DocumentChunker {
+  /**
+   * Split parsed content into sections of at most chunkChars characters,
+   * keeping whole pages and sheets together wherever they fit
+   */
+  static split(content: string, chunkChars: number = ANALYSIS_CHUNK_CHARS): DocumentChunk[] {
+    const units = this.splitOversizedUnits(this.findUnits(content), content, chunkChars);
+
+    const groups: DocumentUnit[][] = [];
+    let current: DocumentUnit[] = [];
+    units.forEach(unit => {
+      const size = unit.end - (current[0]?.start ?? unit.start);
+      if (current.length > 0 && size > chunkChars) {
+        groups.push(current);
+        current = [];
+      }
+      current.push(unit);
+    });
+    if (current.length > 0) groups.push(current);
+
+    return groups.map((group, index) => {
+      const start = group[0].start;
+      const end = group[group.length - 1].end;
+      return {
+        id: `S${index + 1}`,
+        label: this.label(group, index, groups.length),
+        start,
+        end,
+        text: content.slice(start, end)
+      };
+    });
+  }
+
+  private static findUnits(content: string): DocumentUnit[] {
+    const units: DocumentUnit[] = [];
+    const markers = Array.from(content.matchAll(UNIT_MARKER));
+
+    const preambleEnd = markers[0]?.index ?? content.length;
+    if (content.slice(0, preambleEnd).trim()) {
+      units.push({ kind: 'text', name: '', start: 0, end: preambleEnd });
+    }
+
+    markers.forEach((marker, i) => {
+      units.push({
+        kind: marker[1] ? 'page' : 'sheet',
+        name: marker[1] || marker[2],
+        start: marker.index!,
+        end: markers[i + 1]?.index ?? content.length
+      });
+    });
+
+    return units;
+  }
+
+  /**
+   * Break units larger than a chunk at paragraph, then line, boundaries
+   */
+  private static splitOversizedUnits(units: DocumentUnit[], content: string, chunkChars: number): DocumentUnit[] {
+    return units.flatMap(unit => {
+      const parts: DocumentUnit[] = [];
+      let start = unit.start;
+
+      while (unit.end - start > chunkChars) {
+        const window = content.slice(start, start + chunkChars);
+        const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n')]
+          .find(index => index > chunkChars / 2);
+        const end = start + (breakAt !== undefined ? breakAt + 1 : chunkChars);
+        parts.push({ ...unit, start, end });
+        start = end;
+      }
+      parts.push({ ...unit, start, end: unit.end });
+
+      return parts;
+    });
+  }
+
+  private static label(group: DocumentUnit[], index: number, total: number): string {
+    const pages = group.filter(unit => unit.kind === 'page').map(unit => unit.name);
+    const sheets = Array.from(new Set(group.filter(unit => unit.kind === 'sheet').map(unit => unit.name)));
+
+    if (pages.length > 0) {
+      const first = pages[0];
+      const last = pages[pages.length - 1];
+      return first === last ? `Page ${first}` : `Pages ${first}-${last}`;
+    }
+    if (sheets.length > 0) {
+      return `${sheets.length > 1 ? 'Sheets' : 'Sheet'}: ${sheets.join(', ')}`;
+    }
+    return `Part ${index + 1} of ${total}`;
+  }
+}
+
+export default DocumentChunker;
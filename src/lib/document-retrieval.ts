@@ -0,0 +1,202 @@
+import { supabase, TABLES } from '@/lib/supabase';
+import DocumentChunker from '@/lib/document-chunker';
+import { ChatCitation } from '@/types';
+
+// Passage size for retrieval; small enough that several fit in one prompt
+const PASSAGE_CHARS = parseInt(process.env.CHAT_PASSAGE_CHARS || '1500');
+const DEFAULT_PASSAGES = 4;
+const INSERT_BATCH = 200;
+const PAGE_SIZE = 1000; // PostgREST returns at most this many rows per request by default
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'tell', 'that', 'the', 'their',
+  'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Passage of the report selected for a question, cited in prompts as [id]
+export interface ReportPassage {
+  id: string; // "P1", "P2", ...
+  location: string;
+  page?: number;
+  sheet?: string;
+  text: string;
+  score: number;
+}
+
+export class DocumentRetrievalService {
+  /**
+   * Split parsed content into passages and store them with their term
+   * frequencies, replacing any earlier index for the analysis
+   */
+  static async indexDocument(analysisId: string, content: string): Promise<number> {
+    const rows = DocumentChunker.split(content, PASSAGE_CHARS)
+      .filter(chunk => chunk.text.trim())
+      .map((chunk, index) => {
+        const tokens = this.tokenize(chunk.text);
+        const terms: Record<string, number> = {};
+        tokens.forEach(token => {
+          terms[token] = (terms[token] || 0) + 1;
+        });
+
+        const page = chunk.label.match(/^Page (\d+)$/);
+        const sheet = chunk.label.match(/^Sheet: (.+)$/);
+
+        return {
+          analysis_id: analysisId,
+          chunk_index: index,
+          location: chunk.label,
+          page: page ? parseInt(page[1]) : null,
+          sheet: sheet ? sheet[1] : null,
+          content: chunk.text.trim(),
+          terms,
+          term_count: tokens.length
+        };
+      });
+
+    const { error: deleteError } = await supabase
+      .from(TABLES.DOCUMENT_CHUNKS)
+      .delete()
+      .eq('analysis_id', analysisId);
+
+    if (deleteError) {
+      throw new Error(`Failed to clear document index: ${deleteError.message}`);
+    }
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+      const { error } = await supabase
+        .from(TABLES.DOCUMENT_CHUNKS)
+        .insert(rows.slice(i, i + INSERT_BATCH));
+
+      if (error) {
+        throw new Error(`Failed to index document: ${error.message}`);
+      }
+    }
+
+    return rows.length;
+  }
+
+  static async hasIndex(analysisId: string): Promise<boolean> {
+    const { count } = await supabase
+      .from(TABLES.DOCUMENT_CHUNKS)
+      .select('id', { count: 'exact', head: true })
+      .eq('analysis_id', analysisId);
+
+    return (count || 0) > 0;
+  }
+
+  /**
+   * Passages most relevant to a question, ranked by BM25 over the
+   * analysis's document
+   */
+  static async retrieve(analysisId: string, query: string, limit: number = DEFAULT_PASSAGES): Promise<ReportPassage[]> {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const chunks = await this.loadChunks(analysisId);
+
+    return this.rank(chunks, queryTerms)
+      .slice(0, limit)
+      .map(({ chunk, score }, index) => ({
+        id: `P${index + 1}`,
+        location: chunk.location,
+        page: chunk.page ?? undefined,
+        sheet: chunk.sheet ?? undefined,
+        text: chunk.content,
+        score
+      }));
+  }
+
+  /**
+   * Passages the answer actually cites, in the order they were provided
+   */
+  static citationsFor(response: string, passages: ReportPassage[]): ChatCitation[] {
+    const cited = new Set(Array.from(response.matchAll(/\[(P\d+)\]/g)).map(match => match[1]));
+
+    return passages
+      .filter(passage => cited.has(passage.id))
+      .map(passage => ({
+        id: passage.id,
+        location: passage.location,
+        page: passage.page,
+        sheet: passage.sheet,
+        excerpt: passage.text,
+        before: '',
+        after: ''
+      }));
+  }
+
+  // Every stored passage of the analysis, a page at a time so long reports are not cut off
+  private static async loadChunks(analysisId: string): Promise<any[]> {
+    const chunks: any[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(TABLES.DOCUMENT_CHUNKS)
+        .select('chunk_index, location, page, sheet, content, terms, term_count')
+        .eq('analysis_id', analysisId)
+        .order('chunk_index', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load document index: ${error.message}`);
+      }
+
+      chunks.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return chunks;
+    }
+  }
+
+  // Chunks with a positive score, best first
+  private static rank(chunks: any[], queryTerms: string[]): { chunk: any; score: number }[] {
+    if (chunks.length === 0) return [];
+
+    const averageLength = chunks.reduce((sum, chunk) => sum + chunk.term_count, 0) / chunks.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    queryTerms.forEach(term => {
+      documentFrequency.set(term, chunks.filter(chunk => chunk.terms[term]).length);
+    });
+
+    return chunks
+      .map(chunk => {
+        const score = queryTerms.reduce((sum, term) => {
+          const frequency = chunk.terms[term] || 0;
+          if (frequency === 0) return sum;
+
+          const df = documentFrequency.get(term)!;
+          const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+          const norm = frequency + K1 * (1 - B + B * chunk.term_count / averageLength);
+          return sum + idf * (frequency * (K1 + 1)) / norm;
+        }, 0);
+
+        return { chunk, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.chunk.chunk_index - b.chunk.chunk_index);
+  }
+
+  /**
+   * Lower-cased words and numbers with thousands separators removed and
+   * simple plurals folded, so "Expenses" matches "expense" and "1,200" matches "1200"
+   */
+  private static tokenize(text: string): string[] {
+    return text.toLowerCase()
+      .replace(/(\d),(?=\d{3}\b)/g, '$1')
+      .split(/[^a-z0-9.]+/)
+      .map(token => token.replace(/^\.+|\.+$/g, ''))
+      .filter(token => token.length > 1 && !STOPWORDS.has(token))
+      .map(token => {
+        if (/\d/.test(token)) return token;
+        if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+        if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+        return token;
+      });
+  }
+}
+
+export default DocumentRetrievalService;
@@ -0,0 +1,307 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Tab,
+  Table,
+  TableCell,
+  TableRow,
+  TabStopPosition,
+  TabStopType,
+  TextRun,
+  WidthType
+} from 'docx';
+import ChartImageService from '@/lib/chart-image';
+import ReportThemeService from '@/lib/report-themes';
+import { ChartData, ExportData, Insight, KPIs, ReportTheme } from '@/types';
+
+// Theme colours resolved for Word, which wants hex without the leading "#"
+interface WordStyle {
+  theme: ReportTheme;
+  primary: string;
+  text: string;
+  muted: string;
+  logo: ReturnType<typeof ReportThemeService.decodeLogo>;
+}
+
+const BORDER_COLOR = 'E5E7EB';
+
+// Chart images fill the text width of an A4 page with 1" margins
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 300;
+
+const IMPORTANCE_COLORS: Record<Exclude<Insight['importance'], 'low'>, string> = {
+  high: 'B91C1C',
+  medium: 'B45309'
+};
+
+export class DocxExportService {
+  /**
+   * Render the export data as an editable Word document: a cover page, then
+   * headings, a KPI table, chart images, insights and bulleted findings,
+   * styled by the data's theme
+   */
+  static async generate(data: ExportData, originalFileName: string): Promise<Buffer> {
+    const theme = data.theme || ReportThemeService.getDefaultTheme();
+    const style: WordStyle = {
+      theme,
+      primary: theme.colors.primary.slice(1),
+      text: theme.colors.text.slice(1),
+      muted: theme.colors.muted.slice(1),
+      logo: ReportThemeService.decodeLogo(theme)
+    };
+    const bodyFont = ReportThemeService.wordFont(theme.fonts.body);
+    const headingFont = ReportThemeService.wordFont(theme.fonts.heading);
+
+    const children: (Paragraph | Table)[] = [];
+
+    if (data.summary) {
+      children.push(this.heading('Executive Summary'));
+      data.summary.split(/\n{2,}/).forEach(paragraph => {
+        children.push(new Paragraph({ children: [new TextRun(paragraph.trim())], spacing: { after: 160 } }));
+      });
+    }
+
+    if (data.kpis) {
+      children.push(this.heading('Key Performance Indicators'));
+      children.push(this.kpiTable(style, data.kpis));
+    }
+
+    if (data.charts && data.charts.length > 0) {
+      const charts = data.charts.flatMap(chart => this.chart(chart, theme.colors.chart));
+      if (charts.length > 0) {
+        children.push(this.heading('Charts'), ...charts);
+      }
+    }
+
+    if (data.insights && data.insights.length > 0) {
+      children.push(this.heading('Key Insights'));
+      data.insights.forEach(insight => {
+        children.push(
+          new Paragraph({
+            keepNext: true,
+            children: [
+              new TextRun({ text: insight.title, bold: true }),
+              new TextRun({ text: `  ${insight.importance} importance`, color: IMPORTANCE_COLORS[insight.importance as keyof typeof IMPORTANCE_COLORS] || style.muted, size: 18 })
+            ]
+          }),
+          new Paragraph({ children: [new TextRun(insight.description)], spacing: { after: 200 } })
+        );
+      });
+    }
+
+    children.push(
+      ...this.list('Identified Risks', data.risks),
+      ...this.list('Growth Opportunities', data.opportunities),
+      ...this.list('Recommendations', data.recommendations)
+    );
+
+    const doc = new Document({
+      creator: 'Financial Report Analyzer',
+      title: data.title,
+      description: `Analysis of ${originalFileName}`,
+      styles: {
+        default: {
+          document: { run: { font: bodyFont, size: 22, color: style.text } },
+          title: { run: { font: headingFont } },
+          heading1: {
+            run: { font: headingFont, size: 32, bold: true, color: style.text },
+            paragraph: { spacing: { before: 360, after: 160 } }
+          },
+          heading2: {
+            run: { font: headingFont, size: 24, bold: true, color: style.text },
+            paragraph: { spacing: { before: 240, after: 120 } }
+          }
+        }
+      },
+      sections: [
+        {
+          headers: { default: this.header(style, false) },
+          children: this.cover(style, data, originalFileName)
+        },
+        {
+          properties: { page: { pageNumbers: { start: 1 } } },
+          headers: { default: this.header(style, true) },
+          footers: {
+            default: new Footer({
+              children: [
+                ...(theme.footerDisclaimer
+                  ? [new Paragraph({ spacing: { after: 80 }, children: [new TextRun({ text: theme.footerDisclaimer, size: 14, color: style.muted })] })]
+                  : []),
+                new Paragraph({
+                  alignment: AlignmentType.RIGHT,
+                  children: [
+                    new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES_IN_SECTION], size: 16, color: style.muted })
+                  ]
+                })
+              ]
+            })
+          },
+          children
+        }
+      ]
+    });
+
+    return Packer.toBuffer(doc);
+  }
+
+  private static cover(style: WordStyle, data: ExportData, originalFileName: string): Paragraph[] {
+    const generatedAt = new Date(data.metadata.generatedAt).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' });
+    const { coverText } = style.theme;
+
+    return [
+      style.logo
+        ? new Paragraph({ spacing: { after: 2400 }, children: [this.logo(style.logo, 180, 70)] })
+        : new Paragraph({ spacing: { before: 3600 }, children: [] }),
+      new Paragraph({
+        heading: HeadingLevel.TITLE,
+        border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: style.primary, space: 8 } },
+        children: [new TextRun({ text: data.title, bold: true, size: 56, color: style.text })]
+      }),
+      new Paragraph({ spacing: { before: 240, after: coverText ? 240 : 480 }, children: [new TextRun({ text: originalFileName, size: 28, color: style.muted })] }),
+      ...(coverText ? [new Paragraph({ spacing: { after: 480 }, children: [new TextRun({ text: coverText, size: 24 })] })] : []),
+      new Paragraph({ children: [new TextRun({ text: `Generated ${generatedAt}`, color: style.muted })] }),
+      new Paragraph({ children: [new TextRun({ text: `Analysis ID: ${data.metadata.analysisId}`, color: style.muted })] })
+    ];
+  }
+
+  /**
+   * Page header with the confidentiality label on the right and, after the
+   * cover, the logo on the left
+   */
+  private static header(style: WordStyle, withLogo: boolean): Header {
+    const { confidentialityLabel } = style.theme;
+    const children: (ImageRun | TextRun)[] = [];
+
+    if (withLogo && style.logo) {
+      children.push(this.logo(style.logo, 72, 18));
+    }
+    if (confidentialityLabel) {
+      children.push(new TextRun({ children: [new Tab(), confidentialityLabel.toUpperCase()], bold: true, size: 16, color: style.primary, characterSpacing: 20 }));
+    }
+
+    return new Header({
+      children: [new Paragraph({ tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }], children })]
+    });
+  }
+
+  /**
+   * Logo scaled to fit the box while keeping its aspect ratio
+   */
+  private static logo(logo: NonNullable<WordStyle['logo']>, maxWidth: number, maxHeight: number): ImageRun {
+    const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height);
+    return new ImageRun({
+      type: logo.type,
+      data: logo.data,
+      transformation: { width: Math.round(logo.width * scale), height: Math.round(logo.height * scale) },
+      altText: { name: 'Logo', title: 'Logo', description: 'Organization logo' }
+    });
+  }
+
+  private static heading(title: string): Paragraph {
+    return new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      keepNext: true,
+      border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: BORDER_COLOR, space: 4 } },
+      children: [new TextRun(title)]
+    });
+  }
+
+  /**
+   * Two-column metric table with a shaded header that repeats across pages
+   * and zebra-striped rows
+   */
+  private static kpiTable(style: WordStyle, kpis: KPIs): Table {
+    const border = { style: BorderStyle.SINGLE, size: 4, color: BORDER_COLOR };
+    const borders = { top: border, bottom: border, left: border, right: border };
+    const margins = { top: 80, bottom: 80, left: 120, right: 120 };
+
+    const cell = (text: string, options: { bold?: boolean; muted?: boolean; fill?: string; align?: typeof AlignmentType[keyof typeof AlignmentType] }) =>
+      new TableCell({
+        borders,
+        margins,
+        width: { size: 50, type: WidthType.PERCENTAGE },
+        shading: options.fill ? { type: ShadingType.CLEAR, color: 'auto', fill: options.fill } : undefined,
+        children: [
+          new Paragraph({
+            alignment: options.align,
+            children: [new TextRun({ text, bold: options.bold, color: options.muted ? style.muted : style.text })]
+          })
+        ]
+      });
+
+    const header = new TableRow({
+      tableHeader: true,
+      children: [
+        cell('Metric', { bold: true, fill: 'F3F4F6' }),
+        cell('Value', { bold: true, fill: 'F3F4F6', align: AlignmentType.RIGHT })
+      ]
+    });
+
+    const rows = Object.entries(kpis)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value], index) => {
+        const fill = index % 2 === 1 ? 'F9FAFB' : undefined;
+        const missing = value === 'N/A';
+        return new TableRow({
+          cantSplit: true,
+          children: [
+            cell(this.formatLabel(key), { fill }),
+            cell(String(value), { fill, bold: !missing, muted: missing, align: AlignmentType.RIGHT })
+          ]
+        });
+      });
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [header, ...rows]
+    });
+  }
+
+  /**
+   * Chart title and PNG image; charts without plottable values are skipped
+   */
+  private static chart(chart: ChartData, colors: readonly string[]): Paragraph[] {
+    const image = ChartImageService.renderPNG(chart, CHART_WIDTH, CHART_HEIGHT, 2, colors);
+    if (!image) return [];
+
+    return [
+      new Paragraph({ heading: HeadingLevel.HEADING_2, keepNext: true, children: [new TextRun(chart.title)] }),
+      new Paragraph({
+        spacing: { after: 240 },
+        children: [
+          new ImageRun({
+            type: 'png',
+            data: image,
+            transformation: { width: CHART_WIDTH, height: CHART_HEIGHT },
+            altText: { name: chart.title, title: chart.title, description: `${chart.type} chart: ${chart.title}` }
+          })
+        ]
+      })
+    ];
+  }
+
+  private static list(title: string, items?: string[]): Paragraph[] {
+    if (!items || items.length === 0) return [];
+
+    return [
+      this.heading(title),
+      ...items.map(item => new Paragraph({ bullet: { level: 0 }, spacing: { after: 80 }, children: [new TextRun(item)] }))
+    ];
+  }
+
+  private static formatLabel(key: string): string {
+    return key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+  }
+}
+
+export default DocxExportService;
@@ -0,0 +1,445 @@
+import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+import ChartImageService, { CHART_COLORS } from '@/lib/chart-image';
+import { EXPENSE_CONCEPTS } from '@/lib/kpi-engine';
+import { ChartData, ComputedKPI, ExportData, FinancialStatement, KPIs } from '@/types';
+
+const SHEETS = {
+  SUMMARY: 'Summary',
+  KPIS: 'KPIs',
+  CHART_DATA: 'Chart Data',
+  INSIGHTS: 'Insights',
+  LINE_ITEMS: 'Line Items'
+} as const;
+
+const NUMBER_FORMATS: Record<ComputedKPI['unit'], string> = {
+  currency: '#,##0',
+  percent: '0.0"%"',
+  ratio: '0.00',
+  days: '0.0" days"'
+};
+
+// Native charts sit to the right of the chart data, one below the other
+const CHART_ANCHOR_COLUMN = 8;
+const CHART_ANCHOR_WIDTH = 8; // columns
+const CHART_ANCHOR_HEIGHT = 18; // rows
+
+// A chart's data block on the Chart Data sheet, as absolute A1 references
+interface ChartBlock {
+  chart: ChartData;
+  categories: { ref: string; values: string[] };
+  series: { nameRef: string; name: string; ref: string; values: (number | null)[] }[];
+}
+
+export class ExcelExportService {
+  /**
+   * Render the export data as a workbook: KPIs with live formulas over the
+   * parsed line items, chart data with native Excel charts, and insights
+   */
+  static async generate(data: ExportData, originalFileName: string): Promise<Buffer> {
+    const workbook = XLSX.utils.book_new();
+    workbook.Props = { Title: data.title, Subject: originalFileName, Author: 'Financial Report Analyzer' };
+
+    XLSX.utils.book_append_sheet(workbook, this.summarySheet(data, originalFileName), SHEETS.SUMMARY);
+
+    // Built up front so KPI formulas can reference its cells; the sheet itself goes last
+    const lineItems = this.lineItemsSheet(data.statements || []);
+
+    if (data.kpis || (data.computedKpis && data.computedKpis.length > 0)) {
+      XLSX.utils.book_append_sheet(
+        workbook,
+        this.kpiSheet(data.kpis, data.computedKpis || [], lineItems.cells),
+        SHEETS.KPIS
+      );
+    }
+
+    let chartBlocks: ChartBlock[] = [];
+    if (data.charts && data.charts.length > 0) {
+      const chartData = this.chartDataSheet(data.charts);
+      chartBlocks = chartData.blocks;
+      if (chartBlocks.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, chartData.sheet, SHEETS.CHART_DATA);
+      }
+    }
+
+    const insights = this.insightsSheet(data);
+    if (insights) {
+      XLSX.utils.book_append_sheet(workbook, insights, SHEETS.INSIGHTS);
+    }
+
+    if (data.statements && data.statements.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, lineItems.sheet, SHEETS.LINE_ITEMS);
+    }
+
+    const buffer: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true });
+    if (chartBlocks.length === 0) return buffer;
+
+    return this.addCharts(buffer, workbook.SheetNames.indexOf(SHEETS.CHART_DATA) + 1, chartBlocks);
+  }
+
+  private static summarySheet(data: ExportData, originalFileName: string): XLSX.WorkSheet {
+    const rows: (string | number)[][] = [
+      [data.title],
+      [],
+      ['Source file', originalFileName],
+      ['Generated', new Date(data.metadata.generatedAt).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })],
+      ['Analysis ID', data.metadata.analysisId]
+    ];
+
+    if (data.summary) {
+      rows.push([], ['Executive Summary']);
+      data.summary.split(/\n{2,}/).forEach(paragraph => rows.push([paragraph.trim()]));
+    }
+
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = [{ wch: 18 }, { wch: 100 }];
+    return sheet;
+  }
+
+  /**
+   * Headline KPIs as reported, next to computed values whose cells are
+   * formulas over the Line Items sheet so analysts can trace and rework them
+   */
+  private static kpiSheet(kpis: KPIs | undefined, computedKpis: ComputedKPI[], lineItemCells: Map<string, string>): XLSX.WorkSheet {
+    const rows: (string | number | XLSX.CellObject)[][] = [['Metric', 'Reported', 'Computed', 'Calculation', 'Period']];
+    const listed = new Set<string>();
+
+    const computedCell = (metric: ComputedKPI): XLSX.CellObject => {
+      const refs = metric.inputs.map(input => {
+        const cell = lineItemCells.get(this.lineItemKey(input.concept, input.label, input.period));
+        if (!cell) return null;
+        const ref = `'${SHEETS.LINE_ITEMS}'!${cell}`;
+        return EXPENSE_CONCEPTS.includes(input.concept) ? `ABS(${ref})` : ref;
+      });
+      // Inputs the engine derived (e.g. gross profit less opex) have no cell; keep the value
+      const formula = refs.every((ref): ref is string => ref !== null) ? this.kpiFormula(metric, refs) : null;
+      return { t: 'n', v: metric.value, z: NUMBER_FORMATS[metric.unit], ...(formula ? { f: formula } : {}) };
+    };
+
+    Object.entries(kpis || {}).forEach(([key, value]) => {
+      if (value === undefined) return;
+      const metric = computedKpis.find(candidate => candidate.key === key);
+      listed.add(key);
+      rows.push([
+        metric?.label || this.formatLabel(key),
+        String(value),
+        metric ? computedCell(metric) : '',
+        metric?.formula || '',
+        metric?.period || ''
+      ]);
+    });
+
+    computedKpis.filter(metric => !listed.has(metric.key)).forEach(metric => {
+      rows.push([metric.label, '', computedCell(metric), metric.formula, metric.period]);
+    });
+
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = [{ wch: 28 }, { wch: 18 }, { wch: 18 }, { wch: 48 }, { wch: 14 }];
+    sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length - 1, c: 4 } }) };
+    return sheet;
+  }
+
+  /**
+   * Excel formula equivalent to the KPI engine's calculation, given cell
+   * references for the metric's inputs in order
+   */
+  private static kpiFormula(metric: ComputedKPI, refs: string[]): string | null {
+    const [a, b, c] = refs;
+    const concepts = metric.inputs.map(input => input.concept);
+
+    switch (metric.key) {
+      case 'revenue':
+      case 'netProfit':
+      case 'totalAssets':
+      case 'cashFlow':
+        return a;
+      case 'totalLiabilities':
+        return refs.length === 1 ? a : `${a}-${b}`;
+      case 'expenses':
+        return concepts[0] === 'revenue' ? `${a}-${b}` : refs.join('+');
+      case 'growthRate':
+        return `(${a}-${b})/ABS(${b})*100`;
+      case 'profitMargin':
+      case 'operatingMargin':
+      case 'returnOnInvestment':
+        return `${a}/${b}*100`;
+      case 'grossMargin':
+        return concepts[0] === 'gross_profit' ? `${a}/${b}*100` : `(${a}-${b})/${a}*100`;
+      case 'debtToEquityRatio':
+      case 'currentRatio':
+      case 'interestCoverage':
+        return `${a}/${b}`;
+      case 'quickRatio':
+        return concepts[1] === 'inventory' ? `(${a}-${b})/${c}` : `(${a}+${b})/${c}`;
+      case 'daysSalesOutstanding':
+      case 'daysPayablesOutstanding': {
+        const days = metric.formula.match(/× (\d+)$/);
+        return days ? `${a}/${b}*${days[1]}` : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * One row per line item and period with values in base units. Returns the
+   * cell holding each value, keyed by concept, label and period.
+   */
+  private static lineItemsSheet(statements: FinancialStatement[]): { sheet: XLSX.WorkSheet; cells: Map<string, string> } {
+    const rows: (string | number | XLSX.CellObject)[][] = [
+      ['Statement', 'Source', 'Section', 'Line Item', 'Concept', 'Period', 'Value', 'Currency', 'Total']
+    ];
+    const cells = new Map<string, string>();
+
+    statements.forEach(statement => {
+      const title = statement.title || this.formatLabel(statement.type.replace(/_(\w)/g, (_, letter) => letter.toUpperCase()));
+      const source = statement.source.pageNumber !== undefined
+        ? `Page ${statement.source.pageNumber}`
+        : statement.source.sheetName
+          ? `Sheet ${statement.source.sheetName}`
+          : statement.source.fileType.toUpperCase();
+
+      statement.lineItems.forEach(item => {
+        statement.periods.forEach((period, periodIndex) => {
+          const raw = item.values[periodIndex];
+          if (raw === null || raw === undefined) return;
+
+          const cell = XLSX.utils.encode_cell({ r: rows.length, c: 6 });
+          if (item.concept) {
+            const key = this.lineItemKey(item.concept, item.label, period);
+            // The KPI engine reads the first statement carrying a concept
+            if (!cells.has(key)) cells.set(key, this.absolute(cell));
+          }
+
+          rows.push([
+            title,
+            source,
+            item.section || '',
+            item.label,
+            item.concept || '',
+            period,
+            { t: 'n', v: raw * statement.multiplier, z: '#,##0' },
+            statement.currency || '',
+            item.isTotal ? 'Yes' : ''
+          ]);
+        });
+      });
+    });
+
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = [{ wch: 22 }, { wch: 14 }, { wch: 18 }, { wch: 36 }, { wch: 20 }, { wch: 14 }, { wch: 16 }, { wch: 10 }, { wch: 8 }];
+    sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length - 1, c: 8 } }) };
+    return { sheet, cells };
+  }
+
+  /**
+   * Lay each chart's categories and series out as a table the native
+   * charts reference
+   */
+  private static chartDataSheet(charts: ChartData[]): { sheet: XLSX.WorkSheet; blocks: ChartBlock[] } {
+    const rows: (string | number | null)[][] = [];
+    const blocks: ChartBlock[] = [];
+    const cell = (r: number, c: number) => this.absolute(XLSX.utils.encode_cell({ r, c }));
+    const ref = (start: string, end?: string) => `'${SHEETS.CHART_DATA}'!${start}${end ? `:${end}` : ''}`;
+
+    charts.forEach(chart => {
+      const xKey = chart.xAxisKey || 'name';
+      const series = chart.type === 'pie'
+        ? [{ dataKey: chart.dataKey || chart.yAxisKey || 'value', name: chart.title }]
+        : ChartImageService.seriesFor(chart);
+      const hasValues = chart.data.some(row => series.some(({ dataKey }) => typeof row[dataKey] === 'number'));
+      if (!hasValues) return;
+
+      const titleRow = rows.length;
+      const headerRow = titleRow + 1;
+      const firstRow = headerRow + 1;
+      const lastRow = firstRow + chart.data.length - 1;
+
+      rows.push([chart.title]);
+      rows.push(['Category', ...series.map(({ name }) => name)]);
+      const categories = chart.data.map(row => String(row[xKey] ?? row.name ?? ''));
+      chart.data.forEach((row, index) => {
+        rows.push([categories[index], ...series.map(({ dataKey }) => typeof row[dataKey] === 'number' ? row[dataKey] : null)]);
+      });
+      rows.push([]);
+
+      blocks.push({
+        chart,
+        categories: { ref: ref(cell(firstRow, 0), cell(lastRow, 0)), values: categories },
+        series: series.map(({ dataKey, name }, index) => ({
+          nameRef: ref(cell(headerRow, index + 1)),
+          name,
+          ref: ref(cell(firstRow, index + 1), cell(lastRow, index + 1)),
+          values: chart.data.map(row => typeof row[dataKey] === 'number' ? row[dataKey] : null)
+        }))
+      });
+    });
+
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = [{ wch: 24 }, { wch: 16 }, { wch: 16 }, { wch: 16 }, { wch: 16 }];
+    return { sheet, blocks };
+  }
+
+  private static insightsSheet(data: ExportData): XLSX.WorkSheet | null {
+    const rows: string[][] = [['Category', 'Title', 'Detail', 'Importance']];
+
+    (data.insights || []).forEach(insight => rows.push(['Insight', insight.title, insight.description, insight.importance]));
+    (data.risks || []).forEach(risk => rows.push(['Risk', '', risk, '']));
+    (data.opportunities || []).forEach(opportunity => rows.push(['Opportunity', '', opportunity, '']));
+    (data.recommendations || []).forEach(recommendation => rows.push(['Recommendation', '', recommendation, '']));
+
+    if (rows.length === 1) return null;
+
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    sheet['!cols'] = [{ wch: 16 }, { wch: 30 }, { wch: 90 }, { wch: 12 }];
+    sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length - 1, c: 3 } }) };
+    return sheet;
+  }
+
+  /**
+   * SheetJS cannot write charts, so add DrawingML chart parts to the
+   * package and anchor them on the chart data sheet
+   */
+  private static async addCharts(buffer: Buffer, sheetNumber: number, blocks: ChartBlock[]): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(buffer);
+    const sheetPath = `xl/worksheets/sheet${sheetNumber}.xml`;
+    const sheetXML = await zip.file(sheetPath)!.async('string');
+
+    const anchors = blocks.map((block, index) => {
+      zip.file(`xl/charts/chart${index + 1}.xml`, this.chartXML(block));
+      const top = index * (CHART_ANCHOR_HEIGHT + 2);
+      return `<xdr:twoCellAnchor><xdr:from><xdr:col>${CHART_ANCHOR_COLUMN}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${top}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>` +
+        `<xdr:to><xdr:col>${CHART_ANCHOR_COLUMN + CHART_ANCHOR_WIDTH}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${top + CHART_ANCHOR_HEIGHT}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>` +
+        `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="${index + 2}" name="${this.escape(block.chart.title)}"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>` +
+        '<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>' +
+        '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">' +
+        `<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" r:id="rId${index + 1}"/>` +
+        '</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:twoCellAnchor>';
+    });
+
+    zip.file('xl/drawings/drawing1.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      anchors.join('') +
+      '</xdr:wsDr>');
+
+    zip.file('xl/drawings/_rels/drawing1.xml.rels', this.relationships(
+      blocks.map((_, index) => ({ id: `rId${index + 1}`, type: 'chart', target: `../charts/chart${index + 1}.xml` }))
+    ));
+    zip.file(`xl/worksheets/_rels/sheet${sheetNumber}.xml.rels`, this.relationships([
+      { id: 'rId1', type: 'drawing', target: '../drawings/drawing1.xml' }
+    ]));
+    zip.file(sheetPath, sheetXML.replace('</worksheet>', '<drawing r:id="rId1"/></worksheet>'));
+
+    const contentTypesXML = await zip.file('[Content_Types].xml')!.async('string');
+    const overrides = [
+      '<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>',
+      ...blocks.map((_, index) =>
+        `<Override PartName="/xl/charts/chart${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>`)
+    ];
+    zip.file('[Content_Types].xml', contentTypesXML.replace('</Types>', `${overrides.join('')}</Types>`));
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Chart part for one data block: clustered columns, lines with markers,
+   * areas, or a pie with percentage labels
+   */
+  private static chartXML(block: ChartBlock): string {
+    const { chart } = block;
+    const color = (index: number) => CHART_COLORS[index % CHART_COLORS.length].slice(1);
+    const fill = (index: number) => `<a:solidFill><a:srgbClr val="${color(index)}"/></a:solidFill>`;
+
+    const strCache = (values: string[]) =>
+      `<c:strCache><c:ptCount val="${values.length}"/>${values.map((value, index) => `<c:pt idx="${index}"><c:v>${this.escape(value)}</c:v></c:pt>`).join('')}</c:strCache>`;
+    const numCache = (values: (number | null)[]) =>
+      `<c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="${values.length}"/>${values
+        .map((value, index) => value === null ? '' : `<c:pt idx="${index}"><c:v>${value}</c:v></c:pt>`).join('')}</c:numCache>`;
+
+    const series = block.series.map((entry, index) => {
+      const head = `<c:idx val="${index}"/><c:order val="${index}"/>` +
+        `<c:tx><c:strRef><c:f>${this.escape(entry.nameRef)}</c:f>${strCache([entry.name])}</c:strRef></c:tx>`;
+      const data = `<c:cat><c:strRef><c:f>${this.escape(block.categories.ref)}</c:f>${strCache(block.categories.values)}</c:strRef></c:cat>` +
+        `<c:val><c:numRef><c:f>${this.escape(entry.ref)}</c:f>${numCache(entry.values)}</c:numRef></c:val>`;
+
+      switch (chart.type) {
+        case 'pie':
+          return `<c:ser>${head}${block.categories.values.map((_, point) =>
+            `<c:dPt><c:idx val="${point}"/><c:bubble3D val="0"/><c:spPr>${fill(point)}</c:spPr></c:dPt>`).join('')}` +
+            '<c:dLbls><c:showLegendKey val="0"/><c:showVal val="0"/><c:showCatName val="0"/><c:showSerName val="0"/>' +
+            `<c:showPercent val="1"/><c:showBubbleSize val="0"/><c:showLeaderLines val="1"/></c:dLbls>${data}</c:ser>`;
+        case 'line':
+          return `<c:ser>${head}<c:spPr><a:ln w="28575">${fill(index)}</a:ln></c:spPr>` +
+            `<c:marker><c:symbol val="circle"/><c:size val="5"/><c:spPr>${fill(index)}</c:spPr></c:marker>${data}<c:smooth val="0"/></c:ser>`;
+        case 'area':
+          return `<c:ser>${head}<c:spPr><a:solidFill><a:srgbClr val="${color(index)}"><a:alpha val="40000"/></a:srgbClr></a:solidFill>` +
+            `<a:ln w="19050">${fill(index)}</a:ln></c:spPr>${data}</c:ser>`;
+        default:
+          return `<c:ser>${head}<c:spPr>${fill(index)}</c:spPr><c:invertIfNegative val="0"/>${data}</c:ser>`;
+      }
+    }).join('');
+
+    const axes = '<c:catAx><c:axId val="1"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/>' +
+      '<c:numFmt formatCode="General" sourceLinked="1"/><c:tickLblPos val="low"/><c:crossAx val="2"/><c:crosses val="autoZero"/>' +
+      '<c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/></c:catAx>' +
+      '<c:valAx><c:axId val="2"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="l"/>' +
+      '<c:majorGridlines/><c:numFmt formatCode="#,##0" sourceLinked="0"/><c:tickLblPos val="nextTo"/><c:crossAx val="1"/>' +
+      '<c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>';
+    const axisIds = '<c:axId val="1"/><c:axId val="2"/>';
+
+    let plot: string;
+    switch (chart.type) {
+      case 'pie':
+        plot = `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+        break;
+      case 'line':
+        plot = `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}<c:marker val="1"/>${axisIds}</c:lineChart>${axes}`;
+        break;
+      case 'area':
+        plot = `<c:areaChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}${axisIds}</c:areaChart>${axes}`;
+        break;
+      default:
+        plot = `<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>${series}<c:gapWidth val="80"/>${axisIds}</c:barChart>${axes}`;
+    }
+
+    const showLegend = chart.type === 'pie' || block.series.length > 1;
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<c:roundedCorners val="0"/><c:chart>' +
+      `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${this.escape(chart.title)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title>` +
+      `<c:autoTitleDeleted val="0"/><c:plotArea><c:layout/>${plot}</c:plotArea>` +
+      (showLegend ? '<c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend>' : '') +
+      '<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>';
+  }
+
+  private static relationships(entries: { id: string; type: string; target: string }[]): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      entries.map(({ id, type, target }) =>
+        `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`).join('') +
+      '</Relationships>';
+  }
+
+  /**
+   * A1 reference to absolute form, e.g. G5 -> $G$5
+   */
+  private static absolute(cell: string): string {
+    return cell.replace(/^([A-Z]+)(\d+)$/, '$$$1$$$2');
+  }
+
+  private static lineItemKey(concept: string, label: string, period: string): string {
+    return `${concept}\u0000${label}\u0000${period}`;
+  }
+
+  private static formatLabel(key: string): string {
+    return key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
+
+export default ExcelExportService;
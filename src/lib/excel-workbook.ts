@@ -0,0 +1,310 @@
+import * as XLSX from 'xlsx';
+import FinancialStatementService from '@/lib/financial-statements';
+
+type CellValue = string | number | boolean | null;
+
+export type SheetClassification =
+  | 'income_statement'
+  | 'balance_sheet'
+  | 'cash_flow'
+  | 'trial_balance'
+  | 'notes'
+  | 'lookup'
+  | 'cover'
+  | 'data';
+
+export interface WorkbookSheet {
+  name: string;
+  classification: SheetClassification;
+  rows: CellValue[][]; // merged ranges filled, formulas resolved to cached values, dates as YYYY-MM-DD
+  firstRow: number; // 0-based worksheet row of rows[0]
+  firstColumn: number; // 0-based worksheet column of rows[n][0]
+  headerRow: number | null; // index into rows
+  uncalculatedFormulas: number;
+}
+
+export interface WorkbookSheetSummary {
+  name: string;
+  classification: SheetClassification;
+  rowCount: number;
+  columnCount: number;
+  headerRow?: number; // 1-based worksheet row
+  includedRanges: string[]; // A1 ranges sent to the model
+  omittedRows: number;
+  uncalculatedFormulas: number;
+}
+
+export interface WorkbookSummary {
+  text: string;
+  sheets: WorkbookSheetSummary[];
+  estimatedTokens: number;
+}
+
+// Rough prompt budget for workbook content, ~4 characters per token
+const EXCEL_TOKEN_BUDGET = parseInt(process.env.EXCEL_TOKEN_BUDGET || '15000');
+const CHARS_PER_TOKEN = 4;
+
+// Lower sorts first when spending the budget; cover sheets are never sent
+const SHEET_PRIORITY: Record<SheetClassification, number> = {
+  income_statement: 0,
+  balance_sheet: 1,
+  cash_flow: 2,
+  trial_balance: 3,
+  data: 4,
+  notes: 5,
+  lookup: 6,
+  cover: 7
+};
+
+const SHEET_NAME_PATTERNS: { classification: SheetClassification; pattern: RegExp }[] = [
+  { classification: 'income_statement', pattern: /\b(p\s?&\s?l|pl|pnl|income|profit|operations|is)\b/i },
+  { classification: 'balance_sheet', pattern: /\b(bs|balance|financial position)\b/i },
+  { classification: 'cash_flow', pattern: /\b(cf|cash\s?flows?)\b/i },
+  { classification: 'trial_balance', pattern: /\b(tb|trial\s?balance)\b/i },
+  { classification: 'notes', pattern: /\bnotes?\b/i },
+  { classification: 'lookup', pattern: /\b(lookups?|lists?|mapping|settings|config|codes|ref(erence)?|dropdowns?)\b/i },
+  { classification: 'cover', pattern: /\b(cover|contents|toc|index|instructions|readme|about)\b/i }
+];
+
+const TOTAL_ROW_PATTERN = /^(sub-?total|total|net|gross)\b|\btotal\b/i;
+
+export class ExcelWorkbookService {
+  /**
+   * Read every sheet into a grid, filling merged ranges with their anchor
+   * value and using cached results for formula cells
+   */
+  static readSheets(workbook: XLSX.WorkBook): WorkbookSheet[] {
+    return workbook.SheetNames.map(name => {
+      const worksheet = workbook.Sheets[name];
+      const ref = worksheet['!ref'];
+      if (!ref) {
+        return {
+          name,
+          classification: 'cover' as SheetClassification,
+          rows: [],
+          firstRow: 0,
+          firstColumn: 0,
+          headerRow: null,
+          uncalculatedFormulas: 0
+        };
+      }
+
+      const range = XLSX.utils.decode_range(ref);
+      const rows: CellValue[][] = [];
+      let uncalculatedFormulas = 0;
+
+      for (let r = range.s.r; r <= range.e.r; r++) {
+        const row: CellValue[] = [];
+        for (let c = range.s.c; c <= range.e.c; c++) {
+          const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })];
+          if (cell?.f && cell.v === undefined) uncalculatedFormulas++;
+          row.push(this.cellValue(cell));
+        }
+        rows.push(row);
+      }
+
+      // Merged headings ("2023" spanning two columns) apply to every cell they cover
+      (worksheet['!merges'] || []).forEach(merge => {
+        const anchor = rows[merge.s.r - range.s.r]?.[merge.s.c - range.s.c];
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+          for (let c = merge.s.c; c <= merge.e.c; c++) {
+            const row = rows[r - range.s.r];
+            if (row && c - range.s.c < row.length) row[c - range.s.c] = anchor ?? null;
+          }
+        }
+      });
+
+      const headerRow = FinancialStatementService.findHeaderRow(rows, 0);
+      return {
+        name,
+        classification: this.classifySheet(name, rows),
+        rows,
+        firstRow: range.s.r,
+        firstColumn: range.s.c,
+        headerRow: headerRow >= 0 ? headerRow : null,
+        uncalculatedFormulas
+      };
+    });
+  }
+
+  /**
+   * Classify a sheet by its name, falling back to its content
+   */
+  static classifySheet(name: string, rows: CellValue[][]): SheetClassification {
+    const nameMatch = SHEET_NAME_PATTERNS.find(({ pattern }) => pattern.test(name));
+    if (nameMatch) return nameMatch.classification;
+
+    const cells = rows.flat().filter(cell => cell !== null && cell !== '');
+    if (cells.length === 0) return 'cover';
+
+    const numericCells = cells.filter(cell => typeof cell === 'number').length;
+    const labels = rows.map(row => row.find(cell => typeof cell === 'string') as string | undefined)
+      .filter(Boolean)
+      .join(' ');
+
+    const headingText = rows.slice(0, 10).flat().join(' ');
+    if (/\bdebit\b/i.test(headingText) && /\bcredit\b/i.test(headingText)) {
+      return 'trial_balance';
+    }
+
+    const statementType = FinancialStatementService.classify(labels);
+    if (statementType !== 'other' && numericCells > 0) return statementType;
+
+    const numericShare = numericCells / cells.length;
+    const filledRows = rows.filter(row => !this.isBlankRow(row));
+    const widestRow = Math.max(...filledRows.map(row => row.filter(cell => cell !== null && cell !== '').length));
+
+    if (numericShare < 0.05) {
+      if (cells.some(cell => typeof cell === 'string' && cell.length > 80)) return 'notes';
+      // Title pages hold one cell per line; lookups are narrow code/name tables
+      return widestRow >= 2 ? 'lookup' : 'cover';
+    }
+    if (widestRow <= 2 && numericShare < 0.5) {
+      return 'lookup';
+    }
+    return 'data';
+  }
+
+  /**
+   * Render sheets for the prompt within a token budget. Each sheet keeps its
+   * header row plus total, subtotal and recognised line-item rows first;
+   * remaining budget is spent on other rows in sheet priority order.
+   */
+  static summarize(sheets: WorkbookSheet[], tokenBudget = EXCEL_TOKEN_BUDGET): WorkbookSummary {
+    const budget = tokenBudget * CHARS_PER_TOKEN;
+    const candidates = sheets
+      .map((sheet, index) => ({ sheet, index }))
+      .filter(({ sheet }) => sheet.classification !== 'cover' && sheet.rows.length > 0)
+      .sort((a, b) => SHEET_PRIORITY[a.sheet.classification] - SHEET_PRIORITY[b.sheet.classification] || a.index - b.index);
+
+    const selected = new Map<string, Set<number>>(sheets.map(sheet => [sheet.name, new Set<number>()]));
+    let used = 0;
+
+    const take = (sheet: WorkbookSheet, rowIndex: number): boolean => {
+      const rows = selected.get(sheet.name)!;
+      if (rows.has(rowIndex) || this.isBlankRow(sheet.rows[rowIndex])) return true;
+      const cost = this.renderRow(sheet, rowIndex).length + 1;
+      if (used + cost > budget) return false;
+      rows.add(rowIndex);
+      used += cost;
+      return true;
+    };
+
+    // Pass 1: headers, totals and rows mapped to known concepts
+    candidates.forEach(({ sheet }) => {
+      if (sheet.headerRow !== null) take(sheet, sheet.headerRow);
+      sheet.rows.forEach((row, rowIndex) => {
+        const label = this.rowLabel(row);
+        if (label && (TOTAL_ROW_PATTERN.test(label) || FinancialStatementService.matchConcept(label))) {
+          take(sheet, rowIndex);
+        }
+      });
+    });
+
+    // Pass 2: everything else, top to bottom
+    candidates.forEach(({ sheet }) => {
+      for (let rowIndex = 0; rowIndex < sheet.rows.length; rowIndex++) {
+        if (!take(sheet, rowIndex)) break;
+      }
+    });
+
+    const summaries: WorkbookSheetSummary[] = [];
+    let text = '';
+
+    sheets.forEach((sheet, index) => {
+      const rows = Array.from(selected.get(sheet.name)!).sort((a, b) => a - b);
+      const nonBlankRows = sheet.rows.filter(row => !this.isBlankRow(row)).length;
+      const columnCount = Math.max(0, ...sheet.rows.map(row => row.length));
+
+      summaries.push({
+        name: sheet.name,
+        classification: sheet.classification,
+        rowCount: sheet.rows.length,
+        columnCount,
+        headerRow: sheet.headerRow !== null ? sheet.firstRow + sheet.headerRow + 1 : undefined,
+        includedRanges: this.toRanges(sheet, rows, columnCount),
+        omittedRows: nonBlankRows - rows.length,
+        uncalculatedFormulas: sheet.uncalculatedFormulas
+      });
+
+      text += `Sheet ${index + 1}: ${sheet.name} (${sheet.classification.replace(/_/g, ' ')})\n`;
+      text += `Rows: ${sheet.rows.length}\n`;
+      if (sheet.rows.length > 0) {
+        text += `Range: ${XLSX.utils.encode_range({
+          s: { r: sheet.firstRow, c: sheet.firstColumn },
+          e: { r: sheet.firstRow + sheet.rows.length - 1, c: sheet.firstColumn + Math.max(columnCount, 1) - 1 }
+        })}\n`;
+      }
+      if (rows.length === 0) {
+        text += sheet.classification === 'cover' ? '[Skipped: cover or contents sheet]\n\n' : '[Skipped: token budget exhausted]\n\n';
+        return;
+      }
+
+      let previous = -1;
+      rows.forEach(rowIndex => {
+        const skipped = sheet.rows.slice(previous + 1, rowIndex).filter(row => !this.isBlankRow(row)).length;
+        if (previous >= 0 && skipped > 0) {
+          text += `... ${skipped} rows omitted ...\n`;
+        }
+        text += `${this.renderRow(sheet, rowIndex)}\n`;
+        previous = rowIndex;
+      });
+      if (sheet.uncalculatedFormulas > 0) {
+        text += `[${sheet.uncalculatedFormulas} formula cells had no saved value]\n`;
+      }
+      text += '\n';
+    });
+
+    return {
+      text,
+      sheets: summaries,
+      estimatedTokens: Math.ceil(used / CHARS_PER_TOKEN)
+    };
+  }
+
+  private static renderRow(sheet: WorkbookSheet, rowIndex: number): string {
+    const cells = sheet.rows[rowIndex].map(cell => cell === null ? '' : String(cell));
+    while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+    return `Row ${sheet.firstRow + rowIndex + 1}: ${cells.join(' | ')}`;
+  }
+
+  private static rowLabel(row: CellValue[]): string | undefined {
+    const label = row.find(cell => typeof cell === 'string' && cell.trim() !== '');
+    return typeof label === 'string' ? label.trim() : undefined;
+  }
+
+  private static isBlankRow(row: CellValue[] | undefined): boolean {
+    return !row || row.every(cell => cell === null || cell === '');
+  }
+
+  /**
+   * Collapse selected row indexes into A1 ranges ("A1:F12")
+   */
+  private static toRanges(sheet: WorkbookSheet, rows: number[], columnCount: number): string[] {
+    const ranges: string[] = [];
+    const lastColumn = sheet.firstColumn + Math.max(columnCount, 1) - 1;
+    let start = -1;
+
+    rows.forEach((rowIndex, i) => {
+      if (start < 0) start = rowIndex;
+      if (rows[i + 1] !== rowIndex + 1) {
+        ranges.push(XLSX.utils.encode_range({
+          s: { r: sheet.firstRow + start, c: sheet.firstColumn },
+          e: { r: sheet.firstRow + rowIndex, c: lastColumn }
+        }));
+        start = -1;
+      }
+    });
+
+    return ranges;
+  }
+
+  private static cellValue(cell: XLSX.CellObject | undefined): CellValue {
+    if (!cell || cell.v === undefined || cell.t === 'e' || cell.t === 'z') return null;
+    if (cell.v instanceof Date) return cell.v.toISOString().slice(0, 10);
+    if (typeof cell.v === 'string') return cell.v.trim() === '' ? null : cell.v;
+    return cell.v;
+  }
+}
+
+export default ExcelWorkbookService;
@@ -0,0 +1,183 @@
+import { supabase, STORAGE_BUCKETS, TABLES } from '@/lib/supabase';
+import { ExportRecord, ExportRequest } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+const SIGNED_URL_TTL_SECONDS = 3600;
+const RETENTION_DAYS = parseInt(process.env.EXPORT_RETENTION_DAYS || '7');
+const MAX_PURGES_PER_RUN = 500;
+const STORAGE_REMOVE_BATCH = 100; // objects per storage delete request
+
+export class ExportHistoryService {
+  /**
+   * Persist a generated export; stored files expire after the retention period
+   */
+  static async record(userId: string, entry: {
+    analysisId: string;
+    format: ExportRequest['format'];
+    sections: string[];
+    templateId?: string | null;
+    themeId?: string | null;
+    storagePath?: string;
+    pageUrl?: string;
+    fileSize?: number;
+  }): Promise<ExportRecord> {
+    const { data, error } = await supabase
+      .from(TABLES.EXPORTS)
+      .insert({
+        id: uuidv4(),
+        user_id: userId,
+        analysis_id: entry.analysisId,
+        format: entry.format,
+        sections: entry.sections,
+        template_id: entry.templateId || null,
+        theme_id: entry.themeId || null,
+        storage_path: entry.storagePath || null,
+        page_url: entry.pageUrl || null,
+        file_size: entry.fileSize ?? null,
+        file_expires_at: entry.storagePath
+          ? new Date(Date.now() + RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+          : null
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to record export: ${error?.message || 'no row returned'}`);
+    }
+
+    return this.toRecord(data);
+  }
+
+  /**
+   * Page through a user's exports, newest first
+   */
+  static async list(
+    userId: string,
+    options: { page: number; limit: number; analysisId?: string | null; format?: string | null }
+  ): Promise<{ records: ExportRecord[]; total: number }> {
+    const offset = (options.page - 1) * options.limit;
+
+    let query = supabase
+      .from(TABLES.EXPORTS)
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (options.analysisId) {
+      query = query.eq('analysis_id', options.analysisId);
+    }
+
+    if (options.format) {
+      query = query.eq('format', options.format);
+    }
+
+    const { data, error, count } = await query.range(offset, offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch exports: ${error.message}`);
+    }
+
+    return { records: (data || []).map(row => this.toRecord(row)), total: count || 0 };
+  }
+
+  static async get(userId: string, exportId: string): Promise<ExportRecord | null> {
+    const { data } = await supabase
+      .from(TABLES.EXPORTS)
+      .select('*')
+      .eq('id', exportId)
+      .eq('user_id', userId)
+      .single();
+
+    return data ? this.toRecord(data) : null;
+  }
+
+  /**
+   * Short-lived download URL for a stored export file
+   */
+  static async createSignedUrl(storagePath: string): Promise<{ url: string; expiresAt: Date }> {
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKETS.EXPORTS)
+      .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+
+    if (error || !data) {
+      throw new Error(`Failed to generate download URL: ${error?.message || 'no URL returned'}`);
+    }
+
+    return {
+      url: data.signedUrl,
+      expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000)
+    };
+  }
+
+  /**
+   * Delete stored files past their retention period and mark their exports
+   * as purged. Returns the number of exports purged.
+   */
+  static async purgeExpired(): Promise<number> {
+    const { data: expired, error } = await supabase
+      .from(TABLES.EXPORTS)
+      .select('id, storage_path')
+      .is('purged_at', null)
+      .not('storage_path', 'is', null)
+      .lt('file_expires_at', new Date().toISOString())
+      .order('file_expires_at', { ascending: true })
+      .limit(MAX_PURGES_PER_RUN);
+
+    if (error) {
+      throw new Error(`Failed to find expired exports: ${error.message}`);
+    }
+
+    let purged = 0;
+    for (let i = 0; i < (expired || []).length; i += STORAGE_REMOVE_BATCH) {
+      const batch = expired!.slice(i, i + STORAGE_REMOVE_BATCH);
+
+      // Objects that are already gone are not reported as errors
+      const { error: removeError } = await supabase.storage
+        .from(STORAGE_BUCKETS.EXPORTS)
+        .remove(batch.map(row => row.storage_path));
+
+      if (removeError) {
+        console.error('Export file purge error:', removeError);
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from(TABLES.EXPORTS)
+        .update({ purged_at: new Date().toISOString() })
+        .in('id', batch.map(row => row.id));
+
+      if (updateError) {
+        console.error('Export purge update error:', updateError);
+        continue;
+      }
+
+      purged += batch.length;
+    }
+
+    return purged;
+  }
+
+  static toRecord(row: any): ExportRecord {
+    const fileExpiresAt = row.file_expires_at ? new Date(row.file_expires_at) : undefined;
+    const expired = Boolean(row.purged_at) || (fileExpiresAt !== undefined && fileExpiresAt.getTime() <= Date.now());
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      analysisId: row.analysis_id,
+      format: row.format,
+      sections: row.sections || [],
+      templateId: row.template_id || undefined,
+      themeId: row.theme_id || undefined,
+      storagePath: row.storage_path || undefined,
+      pageUrl: row.page_url || undefined,
+      fileSize: row.file_size ?? undefined,
+      status: expired ? 'expired' : 'available',
+      fileExpiresAt,
+      purgedAt: row.purged_at ? new Date(row.purged_at) : undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
+
+export default ExportHistoryService;
@@ -0,0 +1,351 @@
+import Handlebars from 'handlebars';
+import ChartImageService from '@/lib/chart-image';
+import ReportThemeService from '@/lib/report-themes';
+import { supabase, TABLES } from '@/lib/supabase';
+import { ChartData, ExportData, ExportTemplate } from '@/types';
+
+type TemplateFormat = ExportTemplate['format'];
+
+// Templates get their own Handlebars environment so helpers stay local
+const handlebars = Handlebars.create();
+
+handlebars.registerHelper('formatLabel', (key: string) =>
+  String(key ?? '').replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()));
+
+handlebars.registerHelper('date', (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' }));
+
+handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+
+handlebars.registerHelper('join', (items: unknown, separator: unknown) =>
+  Array.isArray(items) ? items.join(typeof separator === 'string' ? separator : ', ') : '');
+
+// Inline SVG for html templates, coloured with the theme's chart palette
+handlebars.registerHelper('chartSvg', (chart: ChartData, options: Handlebars.HelperOptions) =>
+  new Handlebars.SafeString(chart ? ChartImageService.renderSVG(chart, 640, 320, options.data.root.theme?.colors.chart) || '' : ''));
+
+// Markdown table of a chart's categories and series
+handlebars.registerHelper('chartTable', (chart: ChartData) => {
+  if (!chart) return '';
+  const xKey = chart.xAxisKey || 'name';
+  const series = ChartImageService.seriesFor(chart);
+  const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+
+  return new Handlebars.SafeString([
+    `| ${['Category', ...series.map(({ name }) => name)].map(cell).join(' | ')} |`,
+    `| ${['---', ...series.map(() => '---:')].join(' | ')} |`,
+    ...chart.data.map(row =>
+      `| ${[row[xKey] ?? row.name, ...series.map(({ dataKey }) => typeof row[dataKey] === 'number' ? row[dataKey].toLocaleString('en-US') : '')].map(cell).join(' | ')} |`)
+  ].join('\n'));
+});
+
+const DEFAULT_MARKDOWN_TEMPLATE = `# {{title}}
+
+_Source: {{fileName}} · Generated {{date metadata.generatedAt}}_
+
+{{#if summary}}
+## Executive Summary
+
+{{summary}}
+
+{{/if}}
+{{#if kpiList.length}}
+## Key Performance Indicators
+
+| Metric | Value |
+| --- | ---: |
+{{#each kpiList}}
+| {{label}} | {{value}} |
+{{/each}}
+
+{{/if}}
+{{#if charts.length}}
+## Charts
+
+{{#each charts}}
+### {{title}}
+
+{{chartTable this}}
+
+{{/each}}
+{{/if}}
+{{#if insights.length}}
+## Key Insights
+
+{{#each insights}}
+- **{{title}}** ({{importance}} importance): {{description}}
+{{/each}}
+
+{{/if}}
+{{#if risks.length}}
+## Identified Risks
+
+{{#each risks}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if opportunities.length}}
+## Growth Opportunities
+
+{{#each opportunities}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if recommendations.length}}
+## Recommendations
+
+{{#each recommendations}}
+- [ ] {{this}}
+{{/each}}
+{{/if}}
+`;
+
+const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>{{title}}</title>
+<style>
+  body { font-family: {{{fonts.body}}}; color: {{theme.colors.text}}; max-width: 760px; margin: 40px auto; padding: 0 20px; line-height: 1.5; }
+  header { border-top: 6px solid {{theme.colors.primary}}; padding-top: 16px; margin-bottom: 32px; }
+  h1, h2 { font-family: {{{fonts.heading}}}; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  h2 { font-size: 20px; border-bottom: 1px solid #E5E7EB; padding-bottom: 4px; margin-top: 32px; }
+  .meta { color: {{theme.colors.muted}}; font-size: 14px; }
+  .logo { max-height: 56px; max-width: 200px; margin-bottom: 16px; }
+  .label { float: right; color: {{theme.colors.primary}}; font-size: 12px; font-weight: bold; letter-spacing: 1px; text-transform: uppercase; }
+  .cover-text { font-size: 16px; }
+  footer { border-top: 1px solid #E5E7EB; margin-top: 48px; padding-top: 12px; color: {{theme.colors.muted}}; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 8px 12px; border-bottom: 1px solid #E5E7EB; }
+  th { background: #F3F4F6; }
+  td.value { text-align: right; font-weight: bold; }
+  figure { margin: 16px 0; }
+  figure svg { max-width: 100%; height: auto; }
+  .insight { border-left: 4px solid {{theme.colors.primary}}; padding: 8px 12px; margin: 12px 0; background: #F9FAFB; }
+  .insight.positive { border-color: #10B981; }
+  .insight.negative { border-color: #EF4444; }
+  .importance { color: {{theme.colors.muted}}; font-size: 12px; text-transform: uppercase; }
+</style>
+</head>
+<body>
+<header>
+  {{#if theme.confidentialityLabel}}<div class="label">{{theme.confidentialityLabel}}</div>{{/if}}
+  {{#if theme.logo}}<img class="logo" src="{{theme.logo}}" alt="Logo">{{/if}}
+  <h1>{{title}}</h1>
+  <div class="meta">{{fileName}} · Generated {{date metadata.generatedAt}}</div>
+  {{#if theme.coverText}}<p class="cover-text">{{theme.coverText}}</p>{{/if}}
+</header>
+{{#if summary}}
+<section>
+  <h2>Executive Summary</h2>
+  {{#each summaryParagraphs}}
+  <p>{{this}}</p>
+  {{/each}}
+</section>
+{{/if}}
+{{#if kpiList.length}}
+<section>
+  <h2>Key Performance Indicators</h2>
+  <table>
+    <thead><tr><th>Metric</th><th>Value</th></tr></thead>
+    <tbody>
+      {{#each kpiList}}
+      <tr><td>{{label}}</td><td class="value">{{value}}</td></tr>
+      {{/each}}
+    </tbody>
+  </table>
+</section>
+{{/if}}
+{{#if charts.length}}
+<section>
+  <h2>Charts</h2>
+  {{#each charts}}
+  <figure>
+    <figcaption><strong>{{title}}</strong></figcaption>
+    {{chartSvg this}}
+  </figure>
+  {{/each}}
+</section>
+{{/if}}
+{{#if insights.length}}
+<section>
+  <h2>Key Insights</h2>
+  {{#each insights}}
+  <div class="insight {{type}}">
+    <strong>{{title}}</strong> <span class="importance">{{importance}} importance</span>
+    <div>{{description}}</div>
+  </div>
+  {{/each}}
+</section>
+{{/if}}
+{{#if risks.length}}
+<section>
+  <h2>Identified Risks</h2>
+  <ul>{{#each risks}}<li>{{this}}</li>{{/each}}</ul>
+</section>
+{{/if}}
+{{#if opportunities.length}}
+<section>
+  <h2>Growth Opportunities</h2>
+  <ul>{{#each opportunities}}<li>{{this}}</li>{{/each}}</ul>
+</section>
+{{/if}}
+{{#if recommendations.length}}
+<section>
+  <h2>Recommendations</h2>
+  <ul>{{#each recommendations}}<li>{{this}}</li>{{/each}}</ul>
+</section>
+{{/if}}
+{{#if theme.footerDisclaimer}}
+<footer>{{theme.footerDisclaimer}}</footer>
+{{/if}}
+</body>
+</html>
+`;
+
+const DEFAULT_TEMPLATES: Record<TemplateFormat, string> = {
+  markdown: DEFAULT_MARKDOWN_TEMPLATE,
+  html: DEFAULT_HTML_TEMPLATE
+};
+
+export class ExportTemplateService {
+  /**
+   * Check a template compiles; returns the syntax error message, or null
+   */
+  static validate(content: string): string | null {
+    try {
+      handlebars.precompile(content);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid template';
+    }
+  }
+
+  /**
+   * Built-in template used when neither the user nor the organization has
+   * a default for the format
+   */
+  static getBuiltInTemplate(format: TemplateFormat): ExportTemplate {
+    const now = new Date(0);
+    return {
+      id: `default-${format}`,
+      userId: null,
+      name: `Default ${format === 'html' ? 'HTML' : 'Markdown'}`,
+      format,
+      content: DEFAULT_TEMPLATES[format],
+      sections: [],
+      isDefault: true,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  static isBuiltIn(templateId: string): boolean {
+    return templateId.startsWith('default-');
+  }
+
+  /**
+   * Template for an export: the requested one (own or shared), else the
+   * user's default, the organization's default, then the built-in one.
+   * Returns null when a requested template is not available to the user.
+   */
+  static async resolve(userId: string, format: TemplateFormat, templateId?: string): Promise<ExportTemplate | null> {
+    if (templateId) {
+      if (this.isBuiltIn(templateId)) return templateId === `default-${format}` ? this.getBuiltInTemplate(format) : null;
+
+      const { data } = await supabase
+        .from(TABLES.EXPORT_TEMPLATES)
+        .select('*')
+        .eq('id', templateId)
+        .eq('format', format)
+        .or(`user_id.eq.${userId},user_id.is.null`)
+        .single();
+      return data ? this.toTemplate(data) : null;
+    }
+
+    const { data: defaults } = await supabase
+      .from(TABLES.EXPORT_TEMPLATES)
+      .select('*')
+      .eq('format', format)
+      .eq('is_default', true)
+      .or(`user_id.eq.${userId},user_id.is.null`);
+
+    // Personal defaults win over organization-wide ones
+    const row = (defaults || []).find((template: any) => template.user_id === userId) ||
+      (defaults || []).find((template: any) => template.user_id === null);
+    return row ? this.toTemplate(row) : this.getBuiltInTemplate(format);
+  }
+
+  /**
+   * Render export data through a template. Templates see every ExportData
+   * field plus fileName, kpiList, summaryParagraphs and the theme's CSS font
+   * stacks as fonts; markdown output is not HTML-escaped.
+   */
+  static render(template: Pick<ExportTemplate, 'format' | 'content'>, data: ExportData, originalFileName: string): string {
+    const render = handlebars.compile(template.content, {
+      noEscape: template.format === 'markdown',
+      strict: false
+    });
+
+    const theme = data.theme || ReportThemeService.getDefaultTheme();
+
+    return render({
+      ...data,
+      theme,
+      fonts: {
+        heading: ReportThemeService.cssFont(theme.fonts.heading),
+        body: ReportThemeService.cssFont(theme.fonts.body)
+      },
+      fileName: originalFileName,
+      kpiList: Object.entries(data.kpis || {})
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({
+          key,
+          label: key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()),
+          value
+        })),
+      summaryParagraphs: (data.summary || '').split(/\n{2,}/).map(paragraph => paragraph.trim()).filter(Boolean)
+    });
+  }
+
+  /**
+   * Unset the current default template for an owner (null for shared) and format
+   */
+  static async clearDefault(ownerId: string | null, format: TemplateFormat, exceptId?: string): Promise<void> {
+    let query = supabase
+      .from(TABLES.EXPORT_TEMPLATES)
+      .update({ is_default: false })
+      .eq('format', format)
+      .eq('is_default', true);
+
+    query = ownerId ? query.eq('user_id', ownerId) : query.is('user_id', null);
+    if (exceptId) {
+      query = query.neq('id', exceptId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      throw new Error(`Failed to reset default template: ${error.message}`);
+    }
+  }
+
+  static toTemplate(row: any): ExportTemplate {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      format: row.format,
+      content: row.content,
+      sections: row.sections || [],
+      isDefault: row.is_default,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+export default ExportTemplateService;
@@ -1,16 +1,48 @@
 import * as XLSX from 'xlsx';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import FinancialStatementService from '@/lib/financial-statements';
+import CSVParser from '@/lib/csv-parser';
+import ExcelWorkbookService, { WorkbookSheetSummary } from '@/lib/excel-workbook';
+import { FinancialStatement, StatementType } from '@/types';
+
+export interface ParsedPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ParsedTable {
+  pageNumber: number;
+  title?: string;
+  caption?: string;
+  statementType: StatementType;
+  headers: string[];
+  rows: string[][];
+}
 
 export interface ParsedFileContent {
   text: string;
+  pages?: ParsedPage[];
+  tables?: ParsedTable[];
+  statements?: FinancialStatement[];
   metadata: {
     fileName: string;
     fileType: string;
     pageCount?: number;
     sheetCount?: number;
+    sheets?: WorkbookSheetSummary[]; // which ranges of each sheet were sent to the model
+    estimatedTokens?: number;
+    encoding?: string;
+    delimiter?: string;
     extractedAt: Date;
   };
 }
 
+interface PDFLine {
+  y: number;
+  items: { text: string; x: number; y: number; width: number; height: number }[];
+  cells: { text: string; x: number; xEnd: number }[];
+}
+
 export class FileParsingService {
   /**
    * Parse different file types and extract text content
@@ -38,19 +70,14 @@ export class FileParsingService {
   }
 
   /**
-   * Parse PDF file and extract text content
-   * Note: This is a simplified implementation
-   * In production, you might want to use a more robust PDF parser
+   * Parse PDF file page by page and detect tabular regions such as
+   * income statements and balance sheets
    */
   private static async parsePDF(
     file: File | Buffer,
     fileName: string
   ): Promise<ParsedFileContent> {
     try {
-      // For now, we'll provide a placeholder implementation
-      // In a real app, you'd use a library like pdf-parse
-      // const pdfParse = require('pdf-parse');
-      
       // Convert File to Buffer if needed
       let buffer: Buffer;
       if (file instanceof File) {
@@ -60,27 +87,70 @@ export class FileParsingService {
         buffer = file;
       }
 
-      // Placeholder text extraction
-      // In reality, you would use: const data = await pdfParse(buffer);
-      const extractedText = `PDF content extraction is not fully implemented yet. 
-      This is a placeholder for PDF file: ${fileName}
-      
-      Sample financial data for demonstration:
-      Revenue: $1,200,000
-      Expenses: $800,000
-      Net Income: $400,000
-      Total Assets: $2,500,000
-      Total Liabilities: $1,000,000
-      Cash Flow from Operations: $350,000
-      
-      Note: Implement proper PDF parsing using libraries like pdf-parse or PDF.js for production use.`;
+      const pageLines: PDFLine[][] = [];
+
+      // pdf.js reads the whole underlying ArrayBuffer, and small Node buffers
+      // share a pool, so hand it a standalone copy of the bytes
+      const data = await pdfParse(new Uint8Array(buffer), {
+        pagerender: async (pageData) => {
+          const textContent = await pageData.getTextContent({
+            normalizeWhitespace: true,
+            disableCombineTextItems: false
+          });
+          const lines = this.groupPDFTextIntoLines(textContent.items);
+          pageLines[pageData.pageIndex] = lines;
+          return lines.map(line => line.cells.map(cell => cell.text).join(' ')).join('\n');
+        }
+      });
+
+      const pages: ParsedPage[] = [];
+      const tables: ParsedTable[] = [];
+
+      for (let i = 0; i < data.numpages; i++) {
+        const lines = pageLines[i] || [];
+        const pageNumber = i + 1;
+        const pageTables = this.detectPDFTables(lines, pageNumber);
+        tables.push(...pageTables);
+
+        pages.push({
+          pageNumber,
+          text: this.renderPDFPageText(lines, pageTables)
+        });
+      }
+
+      const documentUnit = FinancialStatementService.detectDocumentUnit(
+        tables.map(table => [table.title, table.caption].filter(Boolean).join(' '))
+      );
+      const statements = tables
+        .map(table => FinancialStatementService.fromTable(table, documentUnit))
+        .filter((statement): statement is FinancialStatement => statement !== null);
+
+      if (pages.every(page => !page.text.trim())) {
+        throw new Error('No extractable text found. The PDF may be a scanned image.');
+      }
+
+      let extractedText = `PDF Document: ${fileName}\n`;
+      extractedText += `Pages: ${data.numpages}\n`;
+      if (tables.length > 0) {
+        extractedText += `Tables detected: ${tables.length}\n`;
+      }
+      extractedText += '\n';
+
+      pages.forEach(page => {
+        if (page.text.trim()) {
+          extractedText += `--- Page ${page.pageNumber} ---\n${page.text}\n\n`;
+        }
+      });
 
       return {
         text: extractedText,
+        pages,
+        tables,
+        statements,
         metadata: {
           fileName,
           fileType: 'pdf',
-          pageCount: 1, // Would be extracted from actual PDF
+          pageCount: data.numpages,
           extractedAt: new Date()
         }
       };
@@ -91,7 +161,187 @@ export class FileParsingService {
   }
 
   /**
-   * Parse Excel file and extract text content
+   * Group positioned PDF text items into lines, and each line into cells
+   * separated by wide horizontal gaps
+   */
+  private static groupPDFTextIntoLines(
+    items: { str: string; transform: number[]; width: number; height: number }[]
+  ): PDFLine[] {
+    const positioned = items
+      .filter(item => item.str && item.str.trim())
+      .map(item => ({
+        text: item.str.replace(/\s+/g, ' ').trim(),
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        height: item.height || Math.abs(item.transform[3]) || 10
+      }));
+
+    // Sort top-to-bottom (PDF y grows upwards), then left-to-right
+    positioned.sort((a, b) => (b.y - a.y) || (a.x - b.x));
+
+    const lines: PDFLine[] = [];
+    positioned.forEach(item => {
+      const current = lines[lines.length - 1];
+      const tolerance = Math.max(2, item.height * 0.3);
+      if (current && Math.abs(current.y - item.y) <= tolerance) {
+        current.items.push(item);
+      } else {
+        lines.push({ y: item.y, items: [item], cells: [] });
+      }
+    });
+
+    lines.forEach(line => {
+      line.items.sort((a, b) => a.x - b.x);
+      line.items.forEach(item => {
+        const lastCell = line.cells[line.cells.length - 1];
+        const gap = lastCell ? item.x - lastCell.xEnd : Infinity;
+        // A gap wider than roughly two characters starts a new column
+        if (lastCell && gap < item.height * 1.2) {
+          lastCell.text += gap > item.height * 0.15 ? ` ${item.text}` : item.text;
+          lastCell.xEnd = Math.max(lastCell.xEnd, item.x + item.width);
+        } else {
+          line.cells.push({ text: item.text, x: item.x, xEnd: item.x + item.width });
+        }
+      });
+    });
+
+    return lines;
+  }
+
+  /**
+   * Find runs of lines that look like financial table rows (a label followed
+   * by numeric or period columns)
+   */
+  private static detectPDFTables(lines: PDFLine[], pageNumber: number): ParsedTable[] {
+    const tables: ParsedTable[] = [];
+    const isTabular = (line: PDFLine) =>
+      line.cells.length >= 2 && line.cells.slice(1).some(cell => this.isNumericCell(cell.text));
+
+    let i = 0;
+    while (i < lines.length) {
+      if (!isTabular(lines[i])) {
+        i++;
+        continue;
+      }
+
+      // Extend the region while rows stay tabular, tolerating single-cell
+      // section headings ("Current assets") that precede another table row
+      const start = i;
+      let end = i;
+      while (end + 1 < lines.length) {
+        const next = lines[end + 1];
+        if (isTabular(next)) {
+          end++;
+        } else if (next.cells.length === 1 && end + 2 < lines.length && isTabular(lines[end + 2])) {
+          end += 2;
+        } else {
+          break;
+        }
+      }
+
+      // Pull in a preceding period header row such as "2023  2022"
+      let regionStart = start;
+      if (regionStart > 0 && this.isPeriodHeaderLine(lines[regionStart - 1])) {
+        regionStart--;
+      }
+
+      const regionLines = lines.slice(regionStart, end + 1);
+      const dataRowCount = regionLines.filter(isTabular).length;
+
+      if (dataRowCount >= 3) {
+        const labelX = Math.min(...regionLines.map(line => line.cells[0].x));
+        const rows = regionLines.map(line => {
+          const cells = line.cells.map(cell => cell.text);
+          const first = line.cells[0];
+          // Rows without a label (e.g. the period header) get an empty first column
+          return first.x - labelX > 20 || this.isNumericCell(first.text) ? ['', ...cells] : cells;
+        });
+
+        let headers: string[] = [];
+        if (this.isPeriodHeaderLine(regionLines[0])) {
+          headers = rows.shift() || [];
+        }
+
+        const title = this.findPDFTableTitle(lines, regionStart);
+        const caption = lines
+          .slice(Math.max(0, regionStart - 3), regionStart)
+          .map(line => line.cells.map(cell => cell.text).join(' '))
+          .find(text => /thousands|millions|billions|'000/i.test(text));
+        tables.push({
+          pageNumber,
+          title,
+          caption,
+          statementType: FinancialStatementService.classify(
+            [title || '', ...rows.map(row => row[0])].join(' ')
+          ),
+          headers,
+          rows
+        });
+      }
+
+      i = end + 1;
+    }
+
+    return tables;
+  }
+
+  /**
+   * Look a few lines above a table for a heading-like line
+   */
+  private static findPDFTableTitle(lines: PDFLine[], tableStart: number): string | undefined {
+    for (let i = tableStart - 1; i >= Math.max(0, tableStart - 3); i--) {
+      const text = lines[i].cells.map(cell => cell.text).join(' ').trim();
+      if (lines[i].cells.length === 1 && text && !this.isNumericCell(text)) {
+        // Skip unit captions such as "(in thousands of USD)"
+        if (/^\(.*\)$/.test(text) && i > 0) {
+          continue;
+        }
+        return text;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Render page text, joining table cells with " | " so column structure
+   * survives for the model
+   */
+  private static renderPDFPageText(lines: PDFLine[], tables: ParsedTable[]): string {
+    const tableTitles = new Set(tables.map(table => table.title).filter(Boolean));
+
+    return lines.map(line => {
+      const cells = line.cells.map(cell => cell.text);
+      const text = cells.join(' ');
+      if (tableTitles.has(text)) {
+        const table = tables.find(t => t.title === text);
+        return table && table.statementType !== 'other'
+          ? `[Table: ${text} (${table.statementType.replace(/_/g, ' ')})]`
+          : `[Table: ${text}]`;
+      }
+      return cells.length > 1 ? cells.join(' | ') : text;
+    }).join('\n');
+  }
+
+  /**
+   * Check whether a header line lists periods (years, quarters, FY labels)
+   */
+  private static isPeriodHeaderLine(line: PDFLine): boolean {
+    return line.cells.length >= 1 && line.cells.every(cell =>
+      /^(FY\s?)?\d{4}$|^Q[1-4]\s?\d{2,4}$|^\d{4}\s?Q[1-4]$|^(H[12]|FY)\s?\d{2,4}$/i.test(cell.text.trim())
+    );
+  }
+
+  /**
+   * Check whether a cell holds a financial figure, e.g. "1,200", "(700)", "-5.2%", "$3.1"
+   */
+  private static isNumericCell(text: string): boolean {
+    return /^[(\-–]?\s?[$€£¥]?\s?\d[\d,.\s]*\)?\s?%?$/.test(text.trim()) || /^[-–—]$/.test(text.trim());
+  }
+
+  /**
+   * Parse Excel file: classify sheets, build statements from the full
+   * grids and send a token-budgeted selection of rows to the model
    */
   private static async parseExcel(
     file: File | Buffer,
@@ -106,41 +356,44 @@ export class FileParsingService {
         buffer = file;
       }
 
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const sheetNames = workbook.SheetNames;
-      
-      let extractedText = `Excel Workbook: ${fileName}\n`;
-      extractedText += `Sheets: ${sheetNames.join(', ')}\n\n`;
-
-      // Process each sheet
-      sheetNames.forEach((sheetName, index) => {
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        extractedText += `Sheet ${index + 1}: ${sheetName}\n`;
-        extractedText += `Rows: ${jsonData.length}\n`;
-        
-        // Convert data to text format
-        jsonData.forEach((row: any, rowIndex) => {
-          if (rowIndex < 50) { // Limit to first 50 rows to prevent overwhelming the AI
-            const rowText = Array.isArray(row) 
-              ? row.join(' | ') 
-              : Object.values(row || {}).join(' | ');
-            if (rowText.trim()) {
-              extractedText += `Row ${rowIndex + 1}: ${rowText}\n`;
-            }
+      const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+      const sheets = ExcelWorkbookService.readSheets(workbook);
+
+      // Sheets that state no unit inherit the one stated by the rest of the workbook
+      const documentUnit = FinancialStatementService.detectDocumentUnit(
+        sheets.map(sheet => sheet.rows.slice(0, 3).flat().join(' '))
+      );
+
+      const statements: FinancialStatement[] = [];
+      sheets
+        .filter(sheet => !['cover', 'notes', 'lookup'].includes(sheet.classification))
+        .forEach(sheet => {
+          const statement = FinancialStatementService.fromRows(sheet.rows, {
+            fileType: 'excel',
+            sheetName: sheet.name,
+            firstRow: sheet.firstRow,
+            defaultUnit: documentUnit
+          });
+          if (statement) {
+            statements.push(statement);
           }
         });
-        
-        extractedText += '\n';
-      });
+
+      const summary = ExcelWorkbookService.summarize(sheets);
+
+      let extractedText = `Excel Workbook: ${fileName}\n`;
+      extractedText += `Sheets: ${sheets.map(sheet => `${sheet.name} (${sheet.classification.replace(/_/g, ' ')})`).join(', ')}\n\n`;
+      extractedText += summary.text;
 
       return {
         text: extractedText,
+        statements,
         metadata: {
           fileName,
           fileType: 'excel',
-          sheetCount: sheetNames.length,
+          sheetCount: sheets.length,
+          sheets: summary.sheets,
+          estimatedTokens: summary.estimatedTokens,
           extractedAt: new Date()
         }
       };
@@ -151,47 +404,60 @@ export class FileParsingService {
   }
 
   /**
-   * Parse CSV file and extract text content
+   * Parse CSV file, handling quoted fields, sniffed delimiters, non-UTF-8
+   * encodings and locale-specific number formats
    */
   private static async parseCSV(
     file: File | Buffer,
     fileName: string
   ): Promise<ParsedFileContent> {
     try {
-      let text: string;
-      
+      // Decode from raw bytes so the encoding can be detected
+      let buffer: Buffer;
       if (file instanceof File) {
-        text = await file.text();
+        buffer = Buffer.from(await file.arrayBuffer());
       } else {
-        text = file.toString('utf-8');
+        buffer = file;
       }
 
-      // Parse CSV content
-      const lines = text.split('\n').filter(line => line.trim());
-      const headers = lines[0]?.split(',').map(h => h.trim()) || [];
-      
+      const { rows, delimiter, encoding, decimalSeparator } = CSVParser.parse(buffer);
+      if (rows.length === 0) {
+        throw new Error('The CSV file is empty');
+      }
+
+      const headers = rows[0];
+      const delimiterName = delimiter === '\t' ? 'tab' : delimiter;
+
       let extractedText = `CSV File: ${fileName}\n`;
+      extractedText += `Format: ${encoding}, "${delimiterName}"-delimited, decimal separator "${decimalSeparator}"\n`;
       extractedText += `Headers: ${headers.join(' | ')}\n`;
-      extractedText += `Total Rows: ${lines.length - 1}\n\n`;
+      extractedText += `Total Rows: ${rows.length - 1}\n\n`;
 
       // Process data rows (limit to first 100 rows)
-      const maxRows = Math.min(100, lines.length);
+      const maxRows = Math.min(100, rows.length);
       for (let i = 0; i < maxRows; i++) {
-        const line = lines[i];
-        if (line && line.trim()) {
-          extractedText += `Row ${i + 1}: ${line.trim()}\n`;
-        }
+        // Quoted cells may span lines; keep one row per line
+        extractedText += `Row ${i + 1}: ${rows[i].map(cell => cell.replace(/\s*[\r\n]+\s*/g, ' ')).join(' | ')}\n`;
       }
 
-      if (lines.length > 100) {
-        extractedText += `\n... and ${lines.length - 100} more rows\n`;
+      if (rows.length > 100) {
+        extractedText += `\n... and ${rows.length - 100} more rows\n`;
       }
 
+      const statement = FinancialStatementService.fromRows(rows, {
+        fileType: 'csv',
+        title: fileName,
+        decimalSeparator
+      });
+
       return {
         text: extractedText,
+        statements: statement ? [statement] : [],
         metadata: {
           fileName,
           fileType: 'csv',
+          encoding,
+          delimiter,
           extractedAt: new Date()
         }
       };
@@ -0,0 +1,353 @@
+import {
+  FinancialConcept,
+  FinancialStatement,
+  StatementLineItem,
+  StatementType,
+  StatementUnit
+} from '@/types';
+import KPIEngine from '@/lib/kpi-engine';
+
+type CellValue = string | number | boolean | null | undefined;
+
+export interface StatementSourceOptions {
+  fileType: 'pdf' | 'excel' | 'csv';
+  title?: string;
+  caption?: string;
+  pageNumber?: number;
+  sheetName?: string;
+  firstRow?: number; // 0-based worksheet row of rows[0], for sheets whose used range starts below row 1
+  headers?: string[];
+  defaultUnit?: StatementUnit; // used when the statement itself states no unit
+  decimalSeparator?: '.' | ','; // "," for locales writing 1.234,56
+}
+
+const UNIT_MULTIPLIERS: Record<StatementUnit, number> = {
+  ones: 1,
+  thousands: 1_000,
+  millions: 1_000_000,
+  billions: 1_000_000_000
+};
+
+// Ordered so that more specific labels win ("total current assets" before "total assets")
+const CONCEPT_PATTERNS: { concept: FinancialConcept; pattern: RegExp }[] = [
+  { concept: 'cost_of_sales', pattern: /^(total )?cost of (sales|revenues?|goods sold)|^cogs$/ },
+  { concept: 'gross_profit', pattern: /^gross (profit|margin)$/ },
+  { concept: 'revenue', pattern: /^(total |net )?(revenues?|sales|turnover)( revenue)?$/ },
+  { concept: 'operating_expenses', pattern: /^(total )?operating expenses|^opex$/ },
+  // US GAAP "Total costs and expenses" already includes cost of sales
+  { concept: 'total_expenses', pattern: /^total (operating )?costs and expenses$|^total expenses$/ },
+  { concept: 'operating_income', pattern: /^operating (income|profit|loss)|^(income|profit) from operations$|^ebit$/ },
+  { concept: 'interest_expense', pattern: /^(net )?interest expense|^finance costs?$/ },
+  { concept: 'income_tax', pattern: /^(provision for )?income tax(es)?( expense)?$|^tax expense$/ },
+  { concept: 'net_income', pattern: /^net (income|profit|earnings|loss)|^profit for the (year|period)$|^net income \(loss\)$/ },
+  { concept: 'cash', pattern: /^cash( and cash equivalents)?$|^cash & cash equivalents$/ },
+  { concept: 'accounts_receivable', pattern: /^(trade )?(accounts )?receivables?( net)?$|^accounts receivable/ },
+  { concept: 'inventory', pattern: /^inventor(y|ies)$/ },
+  { concept: 'current_assets', pattern: /^total current assets$/ },
+  { concept: 'total_assets', pattern: /^total assets$/ },
+  { concept: 'accounts_payable', pattern: /^(trade )?(accounts )?payables?$|^accounts payable/ },
+  { concept: 'current_liabilities', pattern: /^total current liabilities$/ },
+  { concept: 'total_debt', pattern: /^total (debt|borrowings)$|^(long-term )?debt$|^borrowings$/ },
+  { concept: 'total_liabilities', pattern: /^total liabilities$/ },
+  { concept: 'total_equity', pattern: /^total (shareholders'?|stockholders'?)? ?equity$|^total equity$/ },
+  { concept: 'operating_cash_flow', pattern: /^net cash (provided by|from|used in|generated from) operating activities|^cash flows? from operating activities$/ },
+  { concept: 'investing_cash_flow', pattern: /^net cash (provided by|from|used in) investing activities|^cash flows? from investing activities$/ },
+  { concept: 'financing_cash_flow', pattern: /^net cash (provided by|from|used in) financing activities|^cash flows? from financing activities$/ }
+];
+
+export class FinancialStatementService {
+  /**
+   * Build a statement from a table detected in a PDF
+   */
+  static fromTable(
+    table: { title?: string; caption?: string; headers: string[]; rows: string[][]; pageNumber: number },
+    defaultUnit?: StatementUnit
+  ): FinancialStatement | null {
+    return this.fromRows(table.rows, {
+      fileType: 'pdf',
+      title: table.title,
+      caption: table.caption,
+      pageNumber: table.pageNumber,
+      headers: table.headers,
+      defaultUnit
+    });
+  }
+
+  /**
+   * Build a statement from a grid of cells (Excel sheet, CSV or PDF table).
+   * The first non-empty column is treated as the line item label. When no
+   * headers are given, the first row whose value columns look like periods
+   * is used.
+   */
+  static fromRows(rows: CellValue[][], options: StatementSourceOptions): FinancialStatement | null {
+    const filled = rows.filter(row => row.some(cell => this.cellText(cell) !== ''));
+    if (filled.length === 0) return null;
+
+    // Sheets often leave column A empty as a margin
+    const labelColumn = Math.min(...filled.map(row => row.findIndex(cell => this.cellText(cell) !== '')));
+    const grid = filled.map(row => row.slice(labelColumn));
+
+    let title = options.title;
+    let dataStart = 0;
+    // A lone text cell on the first row is the sheet's title ("Income Statement FY2023")
+    const firstRowCells = grid[0].filter(cell => this.cellText(cell) !== '');
+    const decimalSeparator = options.decimalSeparator || '.';
+    if (firstRowCells.length === 1 && this.parseNumber(firstRowCells[0], decimalSeparator) === null && this.cellText(grid[0][0]) !== '') {
+      title = title || this.cellText(grid[0][0]);
+      dataStart = 1;
+    }
+
+    let headers = options.headers?.slice(labelColumn);
+    if (!headers || headers.length === 0) {
+      const headerIndex = this.findHeaderRow(grid, dataStart, decimalSeparator);
+      if (headerIndex >= 0) {
+        headers = grid[headerIndex].map(cell => this.cellText(cell));
+        dataStart = headerIndex + 1;
+      }
+    }
+
+    const width = Math.max(...grid.map(row => row.length), headers?.length || 0);
+    const valueColumnCount = Math.max(1, width - 1);
+    const periods = Array.from({ length: valueColumnCount }, (_, i) =>
+      headers?.[i + 1] || `Period ${i + 1}`
+    );
+
+    const lineItems: StatementLineItem[] = [];
+    let section: string | undefined;
+
+    grid.slice(dataStart).forEach((row, index) => {
+      const label = this.cellText(row[0]);
+      const values = periods.map((_, i) => this.parseNumber(row[i + 1], decimalSeparator));
+
+      if (values.every(value => value === null)) {
+        // Label-only rows are section headings ("Current assets:")
+        if (label) section = label.replace(/:$/, '');
+        return;
+      }
+      if (!label) return;
+
+      lineItems.push({
+        label,
+        concept: this.matchConcept(label),
+        values,
+        sign: this.getSign(values),
+        isTotal: /^(total|net|gross)\b/i.test(label),
+        section,
+        row: (options.firstRow || 0) + rows.indexOf(filled[dataStart + index]) + 1
+      });
+
+      // "Total current assets" closes the "Current assets" section
+      if (section && label.toLowerCase() === `total ${section.toLowerCase()}`) {
+        section = undefined;
+      }
+    });
+
+    // Drop empty trailing period columns
+    while (periods.length > 1 && lineItems.every(item => item.values[periods.length - 1] === null)) {
+      periods.pop();
+      lineItems.forEach(item => item.values.pop());
+    }
+
+    if (lineItems.length === 0) return null;
+
+    const context = [title, options.sheetName, ...lineItems.map(item => item.label)].join(' ');
+    const type = this.classify(context);
+    if (type === 'other') return null;
+
+    const unitText = [options.caption, title, ...(headers || [])].filter(Boolean).join(' ');
+    const unit = this.detectUnit(unitText) || options.defaultUnit || 'ones';
+
+    return {
+      type,
+      title: title || options.sheetName,
+      periods,
+      unit,
+      multiplier: UNIT_MULTIPLIERS[unit],
+      currency: this.detectCurrency([unitText, ...grid.flat().slice(0, 50).map(cell => this.cellText(cell))].join(' ')),
+      lineItems,
+      source: {
+        fileType: options.fileType,
+        pageNumber: options.pageNumber,
+        sheetName: options.sheetName
+      }
+    };
+  }
+
+  /**
+   * Classify a statement from its title and row labels
+   */
+  static classify(text: string): StatementType {
+    const lower = text.toLowerCase();
+    if (/cash flows?|operating activities|investing activities|financing activities/.test(lower)) {
+      return 'cash_flow';
+    }
+    if (/balance sheet|financial position|total assets|total liabilities|shareholders'? equity|stockholders'? equity/.test(lower)) {
+      return 'balance_sheet';
+    }
+    if (/income statement|statement of (comprehensive )?income|profit (and|&) loss|p&l|statement of operations|revenue|net income|gross profit|cost of sales/.test(lower)) {
+      return 'income_statement';
+    }
+    return 'other';
+  }
+
+  /**
+   * Parse a financial figure such as "1,200", "(700)", "-5.2", "$3.1" or "—",
+   * or "1.234,56" when the source uses a decimal comma
+   */
+  static parseNumber(value: CellValue, decimalSeparator: '.' | ',' = '.'): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    // A lone dash is the accounting convention for nil
+    if (/^[-–—]$/.test(trimmed)) return 0;
+
+    // Accounting systems also write negatives with a trailing minus ("1.234,56-")
+    const isNegative = /^\(.*\)$/.test(trimmed) || /^[-–]/.test(trimmed) || /\d-$/.test(trimmed);
+    const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+    let cleaned = trimmed.replace(/[()$€£¥%\s'–-]/g, '').split(groupSeparator).join('');
+    if (decimalSeparator === ',') cleaned = cleaned.replace(',', '.');
+    if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+
+    const number = parseFloat(cleaned);
+    return isNegative ? -number : number;
+  }
+
+  /**
+   * Map a line item label to a canonical concept
+   */
+  static matchConcept(label: string): FinancialConcept | undefined {
+    const normalized = label
+      .toLowerCase()
+      .replace(/[:*]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return CONCEPT_PATTERNS.find(({ pattern }) => pattern.test(normalized))?.concept;
+  }
+
+  /**
+   * Detect the unit a statement is presented in, e.g. "(in thousands)" or "$m".
+   * Returns null when the text states no unit.
+   */
+  static detectUnit(text: string): StatementUnit | null {
+    const lower = text.toLowerCase();
+    if (/\bbillions?\b|\$\s?bn?\b|\bbn\b/.test(lower)) return 'billions';
+    if (/\bmillions?\b|\$\s?m\b|\bmn\b|\bmm\b|\$'?000,000/.test(lower)) return 'millions';
+    if (/\bthousands?\b|\$\s?k\b|'000|\b000s\b/.test(lower)) return 'thousands';
+    return null;
+  }
+
+  /**
+   * Pick the unit a whole document states, if its captions agree on one.
+   * Reports usually say "in thousands" once for every statement.
+   */
+  static detectDocumentUnit(captions: string[]): StatementUnit | undefined {
+    const units = new Set(
+      captions
+        .map(caption => this.detectUnit(caption))
+        .filter((unit): unit is StatementUnit => unit !== null)
+    );
+    return units.size === 1 ? Array.from(units)[0] : undefined;
+  }
+
+  /**
+   * Detect an ISO currency code from symbols or codes in the text
+   */
+  static detectCurrency(text: string): string | undefined {
+    const code = text.match(/\b(USD|EUR|GBP|JPY|CAD|AUD|CHF|CNY|INR)\b/);
+    if (code) return code[1];
+    if (text.includes('$')) return 'USD';
+    if (text.includes('€')) return 'EUR';
+    if (text.includes('£')) return 'GBP';
+    if (text.includes('¥')) return 'JPY';
+    return undefined;
+  }
+
+  /**
+   * Find the first line item for a concept across statements
+   */
+  static findLineItem(
+    statements: FinancialStatement[],
+    concept: FinancialConcept
+  ): { statement: FinancialStatement; item: StatementLineItem } | null {
+    for (const statement of statements) {
+      const item = statement.lineItems.find(lineItem => lineItem.concept === concept);
+      if (item) return { statement, item };
+    }
+    return null;
+  }
+
+  /**
+   * Get a line item value in base units for a period column (latest by default)
+   */
+  static getValue(
+    statement: FinancialStatement,
+    item: StatementLineItem,
+    periodIndex: number = KPIEngine.getPeriodOrder(statement.periods)[0]
+  ): number | null {
+    const value = item.values[periodIndex];
+    return value === null || value === undefined ? null : value * statement.multiplier;
+  }
+
+  /**
+   * Render statements as compact text for inclusion in an AI prompt
+   */
+  static toPromptText(statements: FinancialStatement[]): string {
+    return statements.map(statement => {
+      const unitLabel = statement.unit === 'ones' ? '' : ` in ${statement.unit}`;
+      const currencyLabel = statement.currency ? ` ${statement.currency}` : '';
+      let text = `${statement.type.replace(/_/g, ' ').toUpperCase()}`;
+      text += statement.title ? ` - ${statement.title}` : '';
+      text += ` (values${unitLabel}${currencyLabel})\n`;
+      text += `Line item | ${statement.periods.join(' | ')}\n`;
+      statement.lineItems.forEach(item => {
+        text += `${item.label} | ${item.values.map(value => value === null ? '' : value).join(' | ')}\n`;
+      });
+      return text;
+    }).join('\n');
+  }
+
+  /**
+   * Find the header row: the first row whose value columns are period-like
+   * labels (years, quarters) or text headings followed by numeric data
+   */
+  static findHeaderRow(rows: CellValue[][], start: number, decimalSeparator: '.' | ',' = '.'): number {
+    const limit = Math.min(rows.length - 1, start + 15);
+    for (let i = start; i < limit; i++) {
+      const valueCells = rows[i].slice(1).filter(cell => this.cellText(cell) !== '');
+      if (valueCells.length === 0) continue;
+
+      const allPeriods = valueCells.every(cell => this.isPeriodLabel(cell));
+      const allText = valueCells.every(cell => this.parseNumber(cell, decimalSeparator) === null);
+      const nextValueCells = rows[i + 1].slice(1).filter(cell => this.cellText(cell) !== '');
+      const nextHasNumbers = nextValueCells.some(cell => this.parseNumber(cell, decimalSeparator) !== null);
+      // A merged group heading ("FY" over "2023 | 2022") defers to the period row below it
+      const nextIsPeriods = nextValueCells.length > 0 && nextValueCells.every(cell => this.isPeriodLabel(cell));
+
+      if (allPeriods || (allText && nextHasNumbers && !nextIsPeriods)) return i;
+    }
+    return -1;
+  }
+
+  private static isPeriodLabel(cell: CellValue): boolean {
+    if (typeof cell === 'number') return Number.isInteger(cell) && cell >= 1900 && cell <= 2100;
+    const text = this.cellText(cell);
+    return /^(FY\s?)?\d{4}$|^Q[1-4]\s?\d{2,4}$|^\d{4}\s?Q[1-4]$|^(H[12]|FY)\s?\d{2,4}$/i.test(text)
+      || /\b(19|20)\d{2}\b/.test(text) && text.length <= 30;
+  }
+
+  private static getSign(values: (number | null)[]): StatementLineItem['sign'] {
+    const present = values.filter((value): value is number => value !== null && value !== 0);
+    if (present.every(value => value > 0)) return 'positive';
+    if (present.every(value => value < 0)) return 'negative';
+    return 'mixed';
+  }
+
+  private static cellText(cell: CellValue): string {
+    if (cell === null || cell === undefined) return '';
+    return String(cell).trim();
+  }
+}
+
+export default FinancialStatementService;
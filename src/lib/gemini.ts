@@ -1,7 +1,23 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { KPIs } from '@/types';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+import { AnalysisCitations, AnalysisSection, ChatToolCall, ComputedKPI, FinancialStatement, FindingSources, KPIDiscrepancy, KPIs } from '@/types';
+import FinancialStatementService from '@/lib/financial-statements';
+import KPIEngine from '@/lib/kpi-engine';
+import { getDefaultLLMProvider, LLMProvider } from '@/lib/llm-provider';
+import AnalysisOutputValidator, { InvalidAnalysisOutputError } from '@/lib/analysis-output';
+import AnalysisMergeService, { SectionAnalysis } from '@/lib/analysis-merge';
+import DocumentChunker, { ANALYSIS_CHUNK_CHARS } from '@/lib/document-chunker';
+import CitationService, { AnalysisEvidence, DocumentIndex } from '@/lib/citations';
+import { ReportPassage } from '@/lib/document-retrieval';
+import ChatToolService, { CHAT_TOOLS, ChatToolRequest, MAX_TOOL_CALLS } from '@/lib/chat-tools';
+
+// Version of the chat prompts (getChatPrompt, planToolCalls); bump it whenever
+// they change so answer feedback can be compared before and after
+export const CHAT_PROMPT_VERSION = 'chat-5';
+
+// Model calls per analysis before giving up on malformed output
+const MAX_OUTPUT_ATTEMPTS = 3;
+
+// Upper bound on parsed content; anything over ANALYSIS_CHUNK_CHARS is analyzed in sections
+const MAX_CONTENT_CHARS = parseInt(process.env.ANALYSIS_MAX_CHARS || '2000000');
 
 export interface AnalysisResult {
   summary: string;
@@ -9,28 +25,104 @@ export interface AnalysisResult {
   risks: string[];
   opportunities: string[];
   recommendations: string[];
+  computedKpis?: ComputedKPI[];
+  kpiDiscrepancies?: KPIDiscrepancy[];
+  sections?: AnalysisSection[]; // set when the document was analyzed in sections
+  findingSources?: FindingSources;
+  citations?: AnalysisCitations;
+  evidence?: AnalysisEvidence; // excerpts quoted by the model, resolved into citations
+}
+
+export interface ChatTurn {
+  message: string;
+  response: string;
+}
+
+// Earlier turns of a conversation, oldest first; older turns may be condensed into summary
+export interface ChatHistory {
+  summary?: string;
+  turns: ChatTurn[];
+}
+
+// An analysis a chat question is about; several are compared side by side
+export interface ChatReportContext {
+  label: string; // "Report A", "Report B", ...
+  fileName: string;
+  companyName?: string;
+  periods: string[]; // statement period columns, e.g. ["Q3 2024", "Q3 2023"]
+  statements: FinancialStatement[]; // parsed line items that calculations run against
+  analysis: AnalysisResult;
+}
+
+// What the starter questions for an analysis are drawn from
+export interface SuggestionContext {
+  fileName: string;
+  summary: string;
+  risks: string[];
+  anomalies: { label: string; value: string; note: string }[]; // unusual or disputed KPIs
+  missing: string[]; // KPIs the analysis could not determine
 }
 
+// Metrics listed for each report when comparing several
+const COMPARISON_KPIS: { key: keyof KPIs; label: string }[] = [
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'expenses', label: 'Expenses' },
+  { key: 'netProfit', label: 'Net Profit' },
+  { key: 'profitMargin', label: 'Profit Margin' },
+  { key: 'growthRate', label: 'Growth Rate' },
+  { key: 'cashFlow', label: 'Cash Flow' },
+  { key: 'totalAssets', label: 'Total Assets' },
+  { key: 'totalLiabilities', label: 'Total Liabilities' },
+  { key: 'debtToEquityRatio', label: 'Debt to Equity' },
+  { key: 'returnOnInvestment', label: 'Return on Investment' }
+];
+
 export class GeminiAnalysisService {
-  private model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+  constructor(private provider: LLMProvider = getDefaultLLMProvider()) {}
+
+  /**
+   * Provider and model used for generation, e.g. "gemini/gemini-1.5-flash"
+   */
+  get modelId(): string {
+    return `${this.provider.name}/${this.provider.model}`;
+  }
 
   /**
-   * Analyze financial report content and extract insights
+   * Analyze financial report content and extract insights. Content longer
+   * than ANALYSIS_CHUNK_CHARS is analyzed section by section and merged.
    */
   async analyzeFinancialReport(
     content: string,
     fileName: string,
-    customPrompt?: string
+    customPrompt?: string,
+    statements: FinancialStatement[] = [],
+    onProgress?: (completedSections: number, totalSections: number) => Promise<void> | void
   ): Promise<AnalysisResult> {
     const prompt = customPrompt || this.getDefaultPrompt();
-    
-    const fullPrompt = `
+
+    const computedKpis = KPIEngine.compute(statements);
+
+    const statementSection = statements.length > 0
+      ? `
+Structured Financial Statements (figures extracted exactly from the document; prefer these over re-reading numbers from the text):
+${FinancialStatementService.toPromptText(statements)}
+`
+      : '';
+
+    const computedSection = computedKpis.length > 0
+      ? `
+Computed KPIs (calculated from the statements above; quote these exactly and do not recalculate them, your role is to explain what they mean):
+${KPIEngine.toPromptText(computedKpis)}
+`
+      : '';
+
+    const buildPrompt = (reportContent: string, sectionNote: string = '') => `
 ${prompt}
 
 File Name: ${fileName}
-
+${statementSection}${computedSection}${sectionNote}
 Financial Report Content:
-${content}
+${reportContent}
 
 Please provide your analysis in the following JSON format:
 {
@@ -58,25 +150,70 @@ Please provide your analysis in the following JSON format:
   "recommendations": [
     "List of actionable recommendations",
     "Each recommendation as a separate string"
-  ]
+  ],
+  "evidence": {
+    "kpis": {
+      "revenue": "Short verbatim excerpt from the report content that states this value"
+    },
+    "risks": ["Verbatim excerpt supporting each risk, in the same order as risks"],
+    "opportunities": ["Verbatim excerpt supporting each opportunity, in the same order"],
+    "recommendations": ["Verbatim excerpt motivating each recommendation, in the same order"]
+  }
 }
 
 Important: Respond only with valid JSON. If a KPI value is not available in the report, use "N/A" as the value.
+Evidence excerpts must be copied exactly from the report content (at most one line each); omit a KPI from "evidence" when it is "N/A".
 `;
 
-    try {
-      const result = await this.model.generateContent(fullPrompt);
-      const response = await result.response;
-      const text = response.text();
+    const documentIndex = CitationService.index(content);
 
-      // Parse JSON response
-      const analysisResult = this.parseAnalysisResponse(text);
-      return analysisResult;
+    const chunks = content.length > ANALYSIS_CHUNK_CHARS ? DocumentChunker.split(content) : [];
+    let analysisResult: AnalysisResult;
 
-    } catch (error) {
-      console.error('Gemini API error:', error);
-      throw new Error('Failed to analyze financial report with AI');
+    if (chunks.length > 1) {
+      const partials: SectionAnalysis[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const { id, label, start, end, text } = chunks[i];
+        const sectionNote = `
+Document Section: ${id} (${label}), part ${i + 1} of ${chunks.length} of a long document. Analyze only this section and use "N/A" for KPIs it does not state.
+`;
+        partials.push({
+          section: { id, label, start, end },
+          result: this.attachCitations(
+            await this.generateValidatedAnalysis(buildPrompt(text, sectionNote)),
+            documentIndex
+          )
+        });
+        await onProgress?.(i + 1, chunks.length);
+      }
+
+      analysisResult = AnalysisMergeService.merge(partials, await this.combineSummaries(partials, fileName));
+    } else {
+      analysisResult = this.attachCitations(await this.generateValidatedAnalysis(buildPrompt(content)), documentIndex);
+      await onProgress?.(1, 1);
     }
+
+    // Computed values override whatever the model wrote for the same KPI
+    const { kpis, discrepancies } = KPIEngine.reconcile(analysisResult.kpis, computedKpis);
+    if (discrepancies.length > 0) {
+      console.warn('AI KPI values differ from computed values:', discrepancies);
+    }
+
+    // Computed KPIs cite the statement rows they were calculated from
+    const citations = analysisResult.citations!;
+    computedKpis.forEach(metric => {
+      const key = metric.key as keyof KPIs;
+      if (kpis[key] !== metric.formatted) return;
+      const rows = CitationService.forComputedKPI(documentIndex, metric, statements);
+      if (rows.length > 0) citations.kpis[key] = rows;
+    });
+
+    return {
+      ...analysisResult,
+      kpis,
+      computedKpis,
+      kpiDiscrepancies: discrepancies
+    };
   }
 
   /**
@@ -84,16 +221,223 @@ Important: Respond only with valid JSON. If a KPI value is not available in the
    */
   async generateCustomResponse(
     query: string,
-    analysisContext?: AnalysisResult,
-    reportContent?: string
+    reports: ChatReportContext[] = [],
+    passages: ReportPassage[] = [],
+    history?: ChatHistory,
+    toolCalls: ChatToolCall[] = []
   ): Promise<string> {
+    const prompt = this.getChatPrompt(query, reports, passages, history, toolCalls);
+
+    try {
+      return await this.provider.generate(prompt);
+
+    } catch (error) {
+      console.error(`${this.provider.name} chat error:`, error);
+      throw new Error('Failed to generate response');
+    }
+  }
+
+  /**
+   * Stream a chat response as it is generated; aborting the signal stops
+   * generation at the provider
+   */
+  async *streamCustomResponse(
+    query: string,
+    reports: ChatReportContext[] = [],
+    passages: ReportPassage[] = [],
+    history?: ChatHistory,
+    toolCalls: ChatToolCall[] = [],
+    signal?: AbortSignal
+  ): AsyncIterable<string> {
+    const prompt = this.getChatPrompt(query, reports, passages, history, toolCalls);
+
+    try {
+      yield* this.provider.stream(prompt, { signal });
+
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${this.provider.name} chat stream error:`, error);
+      throw new Error('Failed to generate response');
+    }
+  }
+
+  /**
+   * Ask the model which calculations over the reports' parsed statements a
+   * question needs, so figures come from ChatToolService instead of prose
+   * arithmetic. Returns no calls when none are needed.
+   */
+  async planToolCalls(
+    query: string,
+    reports: ChatReportContext[],
+    history?: ChatHistory,
+    signal?: AbortSignal
+  ): Promise<ChatToolRequest[]> {
+    const catalog = reports
+      .filter(report => report.statements.length > 0)
+      .map(report => ChatToolService.describeReport(report))
+      .join('\n');
+    if (!catalog) return [];
+
+    const prompt = `
+You are preparing exact calculations for a financial analysis assistant.
+Decide which of the tools below are needed to answer the user's question from the parsed financial statements.
+Use tools for any arithmetic: totals, ratios, margins, growth and what-if scenarios. Do not call tools for questions that need no figures.
+
+Tools:
+${CHAT_TOOLS.map(tool => `- ${tool.name}: ${tool.description}. Arguments: ${tool.arguments}`).join('\n')}
+
+Refer to line items by their [concept] where one is shown, otherwise by label. "report" is the report letter
+(default A) and "period" a period label (default the latest period).
+
+Available statements:
+${catalog}
+${history?.turns.length ? `
+Most recent conversation turns (oldest first):
+${history.turns.map(turn => `User: ${turn.message}\nAssistant: ${turn.response}`).join('\n\n')}
+` : ''}
+User Query: ${query}
+
+Respond with JSON only, in the form {"calls": [{"tool": "compute_ratio", "arguments": {...}}]}, with at most ${MAX_TOOL_CALLS} calls, or {"calls": []}.
+`;
+
+    let text: string;
+    try {
+      text = await this.provider.generate(prompt, { json: true, temperature: 0, signal });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${this.provider.name} tool planning error:`, error);
+      throw new Error('Failed to plan calculations');
+    }
+
+    const parsed = JSON.parse(text.replace(/^\s*```(?:json)?|```\s*$/g, '').trim());
+    if (!Array.isArray(parsed?.calls)) {
+      throw new Error('AI returned malformed tool calls');
+    }
+
+    return parsed.calls
+      .filter((call: any) => call && typeof call.tool === 'string')
+      .slice(0, MAX_TOOL_CALLS);
+  }
+
+  /**
+   * Starter questions for chatting about an analysis, aimed at its risks,
+   * unusual KPIs and the figures it could not find
+   */
+  async generateSuggestedQuestions(context: SuggestionContext, count: number): Promise<string[]> {
+    const prompt = `
+You are helping a user start a conversation with a financial analysis assistant about the report "${context.fileName}".
+Write ${count} short questions (at most 15 words each) the user is likely to find useful, specific to this report.
+Cover the most important risks, the unusual metrics and the missing data below; do not ask about anything else.
+
+Summary: ${context.summary}
+Risks: ${context.risks.length > 0 ? context.risks.join('; ') : 'none identified'}
+Unusual metrics:
+${context.anomalies.length > 0 ? context.anomalies.map(anomaly => `- ${anomaly.label} ${anomaly.value}: ${anomaly.note}`).join('\n') : '- none'}
+Missing data: ${context.missing.length > 0 ? context.missing.join(', ') : 'none'}
+
+Respond with JSON only, in the form {"questions": ["..."]}.
+`;
+
+    try {
+      return this.parseQuestions(await this.provider.generate(prompt, { json: true }), count);
+    } catch (error) {
+      console.error(`${this.provider.name} suggested questions error:`, error);
+      throw new Error('Failed to generate suggested questions');
+    }
+  }
+
+  /**
+   * Questions the user might ask next, given the latest exchange
+   */
+  async generateFollowUpQuestions(
+    query: string,
+    response: string,
+    reports: ChatReportContext[],
+    count: number,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const prompt = `
+A user is chatting with a financial analysis assistant${reports.length > 0 ? ` about ${reports.map(report => `"${report.fileName}"`).join(', ')}` : ''}.
+Suggest ${count} short follow-up questions (at most 15 words each) the user could ask next. They should go deeper into
+the answer below or cover a closely related topic, and must not repeat the question already asked.
+
+User: ${query}
+Assistant: ${response.slice(0, 3000)}
+
+Respond with JSON only, in the form {"questions": ["..."]}.
+`;
+
+    try {
+      return this.parseQuestions(await this.provider.generate(prompt, { json: true, signal }), count);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${this.provider.name} follow-up questions error:`, error);
+      throw new Error('Failed to generate follow-up questions');
+    }
+  }
+
+  /**
+   * Fold earlier conversation turns into a running summary so long threads
+   * stay within the prompt budget
+   */
+  async summarizeConversation(previousSummary: string | undefined, turns: ChatTurn[]): Promise<string> {
+    const prompt = `
+You are summarizing a conversation between a user and a financial analysis assistant.
+Update the summary below with the new exchanges. Keep every figure, company name, time period and
+conclusion the user may refer back to; drop pleasantries. Respond with the summary text only (at most 200 words).
+
+Summary so far:
+${previousSummary || '(none)'}
+
+New exchanges:
+${turns.map(turn => `User: ${turn.message}\nAssistant: ${turn.response}`).join('\n\n')}
+`;
+
+    let summary: string;
+    try {
+      summary = (await this.provider.generate(prompt)).trim();
+    } catch (error) {
+      console.error(`${this.provider.name} conversation summary error:`, error);
+      throw new Error('Failed to summarize conversation');
+    }
+
+    if (!summary) {
+      throw new Error('AI returned an empty conversation summary');
+    }
+    return summary;
+  }
+
+  private getChatPrompt(
+    query: string,
+    reports: ChatReportContext[] = [],
+    passages: ReportPassage[] = [],
+    history?: ChatHistory,
+    toolCalls: ChatToolCall[] = []
+  ): string {
     let prompt = `
 You are a financial analysis expert. Answer the following query about financial data.
+`;
+
+    if (history?.summary) {
+      prompt += `
+Summary of the earlier conversation:
+${history.summary}
+`;
+    }
 
+    if (history?.turns.length) {
+      prompt += `
+Most recent conversation turns (oldest first):
+${history.turns.map(turn => `User: ${turn.message}\nAssistant: ${turn.response}`).join('\n\n')}
+`;
+    }
+
+    prompt += `
 User Query: ${query}
 `;
 
-    if (analysisContext) {
+    if (reports.length === 1) {
+      const analysisContext = reports[0].analysis;
       prompt += `
 Previous Analysis Summary: ${analysisContext.summary}
 
@@ -106,88 +450,142 @@ Key Financial Metrics:
 Known Risks: ${analysisContext.risks.join(', ')}
 Known Opportunities: ${analysisContext.opportunities.join(', ')}
 `;
+    } else if (reports.length > 1) {
+      prompt += `
+The user is comparing ${reports.length} financial reports:
+${reports.map(report => this.describeReport(report)).join('\n')}`;
     }
 
-    if (reportContent) {
+    if (passages.length > 0) {
       prompt += `
-Original Report Content (first 2000 characters):
-${reportContent.substring(0, 2000)}...
+Relevant Excerpts from the Original ${reports.length > 1 ? 'Reports' : 'Report'}:
+${passages.map(passage => `[${passage.id}] (${passage.location})\n${passage.text}`).join('\n\n')}
+`;
+    }
+
+    if (toolCalls.length > 0) {
+      prompt += `
+Calculation Results (computed exactly from the parsed statements, values in base units):
+${toolCalls.map(call => `[${call.id}] ${call.tool} ${JSON.stringify(call.arguments)}: ${call.error ? `failed - ${call.error}` : call.summary}`).join('\n')}
 `;
     }
 
     prompt += `
 Please provide a helpful, accurate, and professional response to the user's query. 
 If you cannot answer based on the available data, clearly state that limitation.
-`;
+${reports.length > 1 ? 'Refer to the reports by their labels. When comparing figures across reports, include a Markdown table with one row per metric and one column per report, then explain the most important differences. Point out when reports cover different periods, units or currencies.\n' : ''}${toolCalls.length > 0 ? 'Use the calculation results for every figure they cover instead of doing the arithmetic yourself, and cite them inline by id, e.g. [T1]. If a calculation failed, say that the figure could not be computed.\n' : ''}${passages.length > 0 ? 'Base figures on the report excerpts where possible and cite each excerpt you use inline by its id, e.g. [P1].\n' : ''}${history?.summary || history?.turns.length ? 'Use the earlier conversation to resolve follow-up questions such as "what about last year?".\n' : ''}`;
 
-    try {
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
+    return prompt;
+  }
 
-    } catch (error) {
-      console.error('Gemini chat error:', error);
-      throw new Error('Failed to generate response');
+  /**
+   * One report's block in a comparison prompt
+   */
+  private describeReport(report: ChatReportContext): string {
+    const details = [
+      report.companyName,
+      report.periods.length > 0 ? `periods: ${report.periods.join(', ')}` : undefined
+    ].filter(Boolean);
+
+    const metrics = COMPARISON_KPIS
+      .filter(({ key }) => report.analysis.kpis?.[key] && report.analysis.kpis[key] !== 'N/A')
+      .map(({ key, label }) => `- ${label}: ${report.analysis.kpis[key]}`);
+
+    return `
+${report.label}: "${report.fileName}"${details.length > 0 ? ` (${details.join('; ')})` : ''}
+Summary: ${report.analysis.summary}
+Key Financial Metrics:
+${metrics.length > 0 ? metrics.join('\n') : '- None extracted'}
+Known Risks: ${report.analysis.risks.join(', ')}
+Known Opportunities: ${report.analysis.opportunities.join(', ')}
+`;
+  }
+
+  /**
+   * Distinct, non-empty questions from a {"questions": [...]} response
+   */
+  private parseQuestions(text: string, count: number): string[] {
+    const parsed = JSON.parse(text.replace(/^\s*```(?:json)?|```\s*$/g, '').trim());
+    if (!Array.isArray(parsed?.questions)) {
+      throw new Error('AI returned malformed questions');
     }
+
+    const questions = parsed.questions
+      .filter((question: unknown): question is string => typeof question === 'string')
+      .map((question: string) => question.trim())
+      .filter((question: string) => question.length > 0 && question.length <= 200);
+
+    return Array.from(new Set<string>(questions)).slice(0, count);
   }
 
   /**
-   * Parse the AI response and extract structured data
+   * Generate until the response passes schema validation, feeding the
+   * validation errors back to the model on each retry
    */
-  private parseAnalysisResponse(text: string): AnalysisResult {
-    try {
-      // Clean the response to extract JSON
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
+  private async generateValidatedAnalysis(prompt: string): Promise<AnalysisResult> {
+    let errors: string[] = [];
+    let attemptPrompt = prompt;
+
+    for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+      let text: string;
+      try {
+        text = await this.provider.generate(attemptPrompt, { json: true });
+      } catch (error) {
+        console.error(`${this.provider.name} API error:`, error);
+        throw new Error('Failed to analyze financial report with AI');
+      }
+
+      const validation = AnalysisOutputValidator.parse(text);
+      if (validation.valid) {
+        return validation.result;
       }
 
-      const jsonStr = jsonMatch[0];
-      const parsed = JSON.parse(jsonStr);
-
-      // Validate and structure the response
-      return {
-        summary: parsed.summary || 'Analysis summary not available',
-        kpis: {
-          revenue: parsed.kpis?.revenue || 'N/A',
-          expenses: parsed.kpis?.expenses || 'N/A',
-          netProfit: parsed.kpis?.netProfit || 'N/A',
-          growthRate: parsed.kpis?.growthRate || 'N/A',
-          totalAssets: parsed.kpis?.totalAssets || 'N/A',
-          totalLiabilities: parsed.kpis?.totalLiabilities || 'N/A',
-          cashFlow: parsed.kpis?.cashFlow || 'N/A',
-          debtToEquityRatio: parsed.kpis?.debtToEquityRatio || 'N/A',
-          returnOnInvestment: parsed.kpis?.returnOnInvestment || 'N/A',
-          profitMargin: parsed.kpis?.profitMargin || 'N/A'
-        },
-        risks: Array.isArray(parsed.risks) ? parsed.risks : [],
-        opportunities: Array.isArray(parsed.opportunities) ? parsed.opportunities : [],
-        recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : []
-      };
+      errors = validation.errors;
+      console.warn(`Invalid analysis output from ${this.modelId} (attempt ${attempt} of ${MAX_OUTPUT_ATTEMPTS}):`, errors);
 
+      attemptPrompt = `${prompt}
+Your previous response could not be used because it did not match the required JSON format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with a single complete JSON object in the format above and nothing else.
+`;
+    }
+
+    throw new InvalidAnalysisOutputError(errors, MAX_OUTPUT_ATTEMPTS);
+  }
+
+  /**
+   * Replace the model's quoted evidence with citations resolved against the document
+   */
+  private attachCitations(result: AnalysisResult, documentIndex: DocumentIndex): AnalysisResult {
+    const { evidence, ...rest } = result;
+    return { ...rest, citations: CitationService.resolve(documentIndex, evidence) };
+  }
+
+  /**
+   * Write one summary for a document analyzed in sections
+   */
+  private async combineSummaries(partials: SectionAnalysis[], fileName: string): Promise<string> {
+    const prompt = `
+You are an expert financial analyst. The financial report "${fileName}" was analyzed in ${partials.length} sections.
+Combine the section summaries below into one comprehensive summary of the whole report (3-4 sentences).
+Respond with the summary text only.
+
+${partials.map(({ section, result }) => `[${section.id}: ${section.label}]\n${result.summary}`).join('\n\n')}
+`;
+
+    let summary: string;
+    try {
+      summary = (await this.provider.generate(prompt)).trim();
     } catch (error) {
-      console.error('Failed to parse analysis response:', error);
-      
-      // Return fallback response
-      return {
-        summary: 'Unable to generate detailed analysis. Please try again or contact support.',
-        kpis: {
-          revenue: 'N/A',
-          expenses: 'N/A', 
-          netProfit: 'N/A',
-          growthRate: 'N/A',
-          totalAssets: 'N/A',
-          totalLiabilities: 'N/A',
-          cashFlow: 'N/A',
-          debtToEquityRatio: 'N/A',
-          returnOnInvestment: 'N/A',
-          profitMargin: 'N/A'
-        },
-        risks: ['Analysis unavailable - please review the report manually'],
-        opportunities: ['Analysis unavailable - please review the report manually'],
-        recommendations: ['Analysis unavailable - please review the report manually']
-      };
+      console.error(`${this.provider.name} API error:`, error);
+      throw new Error('Failed to analyze financial report with AI');
+    }
+
+    if (!summary) {
+      throw new Error('AI returned an empty summary for the merged analysis');
     }
+    return summary;
   }
 
   /**
@@ -231,7 +629,7 @@ If specific numerical data is not clearly stated in the report, indicate "N/A" r
       return { isValid: false, error: 'Content too short for meaningful analysis' };
     }
 
-    if (content.length > 100000) {
+    if (content.length > MAX_CONTENT_CHARS) {
       return { isValid: false, error: 'Content too long - please upload a smaller file' };
     }
 
@@ -0,0 +1,374 @@
+import {
+  ComputedKPI,
+  ComputedKPIKey,
+  FinancialConcept,
+  FinancialStatement,
+  KPIDiscrepancy,
+  KPIs,
+  PeriodGranularity
+} from '@/types';
+
+export interface ParsedPeriod {
+  label: string;
+  granularity: PeriodGranularity;
+  year: number;
+  sortKey: number;
+}
+
+interface ResolvedValue {
+  label: string;
+  concept: FinancialConcept;
+  value: number;
+  period: string;
+}
+
+// Concepts that statements commonly present as negative numbers but which
+// every formula below treats as magnitudes
+export const EXPENSE_CONCEPTS: FinancialConcept[] = [
+  'cost_of_sales',
+  'operating_expenses',
+  'total_expenses',
+  'interest_expense',
+  'income_tax'
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Relative difference above which an AI-written KPI is flagged as a discrepancy
+const DISCREPANCY_TOLERANCE = 0.02;
+
+export class KPIEngine {
+  /**
+   * Compute KPIs from parsed statements. Only metrics whose inputs are all
+   * present are returned, each with the formula and inputs used.
+   */
+  static compute(statements: FinancialStatement[]): ComputedKPI[] {
+    if (statements.length === 0) return [];
+
+    const currency = statements.find(statement => statement.currency)?.currency;
+    const metrics: ComputedKPI[] = [];
+    const get = (concept: FinancialConcept, offset: number = 0) => this.resolve(statements, concept, offset);
+
+    const add = (
+      key: ComputedKPIKey,
+      label: string,
+      unit: ComputedKPI['unit'],
+      formula: string,
+      inputs: (ResolvedValue | null)[],
+      calculate: (...values: number[]) => number | null
+    ) => {
+      if (inputs.some(input => input === null)) return;
+      const resolved = inputs as ResolvedValue[];
+      const value = calculate(...resolved.map(input => input.value));
+      if (value === null || !isFinite(value)) return;
+
+      metrics.push({
+        key,
+        label,
+        value,
+        unit,
+        formatted: this.format(value, unit, currency),
+        formula,
+        period: resolved[0].period,
+        inputs: resolved
+      });
+    };
+
+    const revenue = get('revenue');
+    const priorRevenue = get('revenue', 1);
+    const costOfSales = get('cost_of_sales');
+    const grossProfit = get('gross_profit');
+    const operatingExpenses = get('operating_expenses');
+    const totalExpenses = get('total_expenses');
+    const operatingIncome = get('operating_income');
+    const interestExpense = get('interest_expense');
+    const netIncome = get('net_income');
+    const cash = get('cash');
+    const receivables = get('accounts_receivable');
+    const inventory = get('inventory');
+    const currentAssets = get('current_assets');
+    const totalAssets = get('total_assets');
+    const payables = get('accounts_payable');
+    const currentLiabilities = get('current_liabilities');
+    const totalDebt = get('total_debt');
+    const totalLiabilities = get('total_liabilities');
+    const totalEquity = get('total_equity');
+    const operatingCashFlow = get('operating_cash_flow');
+    const days = this.getPeriodDays(revenue?.period);
+
+    // Absolute figures
+    add('revenue', 'Revenue', 'currency', 'Revenue', [revenue], r => r);
+
+    if (totalExpenses) {
+      add('expenses', 'Expenses', 'currency', totalExpenses.label, [totalExpenses], te => te);
+    } else if (costOfSales || operatingExpenses) {
+      const parts = [costOfSales, operatingExpenses].filter((part): part is ResolvedValue => part !== null);
+      add('expenses', 'Expenses', 'currency', parts.map(part => part.label).join(' + '), parts,
+        (...values) => values.reduce((sum, value) => sum + value, 0));
+    } else {
+      add('expenses', 'Expenses', 'currency', 'Revenue − Net income', [revenue, netIncome], (r, ni) => r - ni);
+    }
+
+    add('netProfit', 'Net Profit', 'currency', 'Net income', [netIncome], ni => ni);
+    add('totalAssets', 'Total Assets', 'currency', 'Total assets', [totalAssets], ta => ta);
+
+    if (totalLiabilities) {
+      add('totalLiabilities', 'Total Liabilities', 'currency', 'Total liabilities', [totalLiabilities], tl => tl);
+    } else {
+      add('totalLiabilities', 'Total Liabilities', 'currency', 'Total assets − Total equity',
+        [totalAssets, totalEquity], (ta, te) => ta - te);
+    }
+
+    add('cashFlow', 'Operating Cash Flow', 'currency', 'Net cash from operating activities', [operatingCashFlow], cf => cf);
+
+    // Growth
+    add('growthRate', 'Revenue Growth', 'percent', '(Revenue − Prior revenue) ÷ |Prior revenue| × 100',
+      [revenue, priorRevenue], (r, pr) => pr === 0 ? null : ((r - pr) / Math.abs(pr)) * 100);
+
+    // Margins and returns
+    add('profitMargin', 'Net Profit Margin', 'percent', 'Net income ÷ Revenue × 100',
+      [netIncome, revenue], (ni, r) => r === 0 ? null : (ni / r) * 100);
+
+    if (grossProfit) {
+      add('grossMargin', 'Gross Margin', 'percent', 'Gross profit ÷ Revenue × 100',
+        [grossProfit, revenue], (gp, r) => r === 0 ? null : (gp / r) * 100);
+    } else {
+      add('grossMargin', 'Gross Margin', 'percent', '(Revenue − Cost of sales) ÷ Revenue × 100',
+        [revenue, costOfSales], (r, cogs) => r === 0 ? null : ((r - cogs) / r) * 100);
+    }
+
+    const operatingProfit = operatingIncome || this.derive(grossProfit, operatingExpenses,
+      '(Gross profit − Operating expenses)', (gp, opex) => gp - opex);
+
+    add('operatingMargin', 'Operating Margin', 'percent', `${operatingProfit?.label || 'Operating income'} ÷ Revenue × 100`,
+      [operatingProfit, revenue], (oi, r) => r === 0 ? null : (oi / r) * 100);
+
+    add('returnOnInvestment', 'Return on Investment', 'percent', 'Net income ÷ Total assets × 100',
+      [netIncome, totalAssets], (ni, ta) => ta === 0 ? null : (ni / ta) * 100);
+
+    // Leverage and liquidity
+    const debt = totalDebt || totalLiabilities;
+    add('debtToEquityRatio', 'Debt to Equity', 'ratio', `${debt?.label || 'Total liabilities'} ÷ Total equity`,
+      [debt, totalEquity], (d, te) => te <= 0 ? null : d / te);
+
+    add('currentRatio', 'Current Ratio', 'ratio', 'Current assets ÷ Current liabilities',
+      [currentAssets, currentLiabilities], (ca, cl) => cl === 0 ? null : ca / cl);
+
+    if (currentAssets && inventory) {
+      add('quickRatio', 'Quick Ratio', 'ratio', '(Current assets − Inventory) ÷ Current liabilities',
+        [currentAssets, inventory, currentLiabilities], (ca, inv, cl) => cl === 0 ? null : (ca - inv) / cl);
+    } else {
+      add('quickRatio', 'Quick Ratio', 'ratio', '(Cash + Receivables) ÷ Current liabilities',
+        [cash, receivables, currentLiabilities], (c, ar, cl) => cl === 0 ? null : (c + ar) / cl);
+    }
+
+    add('interestCoverage', 'Interest Coverage', 'ratio', `${operatingProfit?.label || 'Operating income'} ÷ Interest expense`,
+      [operatingProfit, interestExpense], (oi, ie) => ie === 0 ? null : oi / ie);
+
+    // Working capital cycle
+    add('daysSalesOutstanding', 'Days Sales Outstanding', 'days', `Receivables ÷ Revenue × ${days}`,
+      [receivables, revenue], (ar, r) => r === 0 ? null : (ar / r) * days);
+
+    add('daysPayablesOutstanding', 'Days Payables Outstanding', 'days', `Payables ÷ Cost of sales × ${days}`,
+      [payables, costOfSales], (ap, cogs) => cogs === 0 ? null : (ap / cogs) * days);
+
+    return metrics;
+  }
+
+  /**
+   * Check AI-written KPIs against computed values. Computed values replace
+   * the AI's wherever they exist; mismatches are reported.
+   */
+  static reconcile(
+    aiKpis: KPIs,
+    computed: ComputedKPI[]
+  ): { kpis: KPIs; discrepancies: KPIDiscrepancy[] } {
+    const kpis: KPIs = { ...aiKpis };
+    const discrepancies: KPIDiscrepancy[] = [];
+
+    computed.forEach(metric => {
+      if (!this.isKPIsKey(metric.key)) return;
+      const key = metric.key;
+      const aiValue = aiKpis[key];
+
+      if (aiValue && aiValue !== 'N/A') {
+        const aiNumber = this.parseAIValue(aiValue);
+        const differencePercent = aiNumber === null
+          ? null
+          : metric.value === 0
+            ? (aiNumber === 0 ? 0 : 100)
+            : (Math.abs(aiNumber - metric.value) / Math.abs(metric.value)) * 100;
+
+        if (differencePercent === null || differencePercent > DISCREPANCY_TOLERANCE * 100) {
+          discrepancies.push({
+            key,
+            aiValue,
+            computedValue: metric.formatted,
+            differencePercent: differencePercent === null ? null : Math.round(differencePercent * 10) / 10
+          });
+        }
+      }
+
+      kpis[key] = metric.formatted;
+    });
+
+    return { kpis, discrepancies };
+  }
+
+  /**
+   * Render computed KPIs for inclusion in an AI prompt
+   */
+  static toPromptText(metrics: ComputedKPI[]): string {
+    return metrics
+      .map(metric => `- ${metric.label} (${metric.period}): ${metric.formatted}  [${metric.formula}]`)
+      .join('\n');
+  }
+
+  /**
+   * Format a metric value for display
+   */
+  static format(value: number, unit: ComputedKPI['unit'], currency?: string): string {
+    switch (unit) {
+      case 'currency':
+        return currency
+          ? new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value)
+          : new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(value);
+      case 'percent':
+        return `${value.toFixed(1)}%`;
+      case 'days':
+        return `${value.toFixed(1)} days`;
+      default:
+        return value.toFixed(2);
+    }
+  }
+
+  /**
+   * Parse a figure the AI wrote, e.g. "$1.2M", "1,200,000 USD", "(5.2%)", "3.4 billion", "1.5x"
+   */
+  static parseAIValue(value: string): number | null {
+    const match = value.replace(/,/g, '').match(/(\(?-?)\s*[^\d(-]*?(\d+(?:\.\d+)?)(?:\s*(k|m|mn|b|bn|thousand|million|billion)\b)?(?!\d|\.\d)/i);
+    if (!match) return null;
+
+    const scale: Record<string, number> = {
+      k: 1e3, thousand: 1e3,
+      m: 1e6, mn: 1e6, million: 1e6,
+      b: 1e9, bn: 1e9, billion: 1e9
+    };
+    const number = parseFloat(match[2]) * (match[3] ? scale[match[3].toLowerCase()] : 1);
+    return match[1].includes('(') || match[1].includes('-') ? -number : number;
+  }
+
+  /**
+   * Resolve a concept's value in base units for the latest period
+   * (offset 0) or an earlier one (offset 1 = prior period)
+   */
+  private static resolve(
+    statements: FinancialStatement[],
+    concept: FinancialConcept,
+    offset: number
+  ): ResolvedValue | null {
+    for (const statement of statements) {
+      const item = statement.lineItems.find(lineItem => lineItem.concept === concept);
+      if (!item) continue;
+
+      const columnIndex = this.getPeriodOrder(statement.periods)[offset];
+      if (columnIndex === undefined) return null;
+
+      const raw = item.values[columnIndex];
+      if (raw === null || raw === undefined) return null;
+
+      const value = raw * statement.multiplier;
+      return {
+        label: item.label,
+        concept,
+        value: EXPENSE_CONCEPTS.includes(concept) ? Math.abs(value) : value,
+        period: statement.periods[columnIndex]
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Order period columns from latest to earliest. Columns without a
+   * recognisable year keep their presented order (most reports list the
+   * latest period first).
+   */
+  static getPeriodOrder(periods: string[]): number[] {
+    const parsed = periods.map(period => this.parsePeriod(period));
+
+    const indexes = periods.map((_, i) => i);
+    if (parsed.some(period => period === null)) return indexes;
+    return indexes.sort((a, b) => parsed[b]!.sortKey - parsed[a]!.sortKey);
+  }
+
+  /**
+   * Normalize a period column label: "2023", "FY23", "Q1 2024", "1Q24",
+   * "H1 2023", "December 31, 2023", "Three months ended March 31, 2024".
+   * The sort key orders periods by the month they end in.
+   */
+  static parsePeriod(label: string): ParsedPeriod | null {
+    const text = String(label).trim();
+    if (!text) return null;
+
+    const fourDigitYear = text.match(/(?:^|\D)((?:19|20)\d{2})(?!\d)/);
+    const shortYear = text.match(/(?:FY|Q[1-4]|[1-4]Q|H[12])[\s\-']*(\d{2})(?!\d)/i);
+    const year = fourDigitYear
+      ? parseInt(fourDigitYear[1], 10)
+      : shortYear ? 2000 + parseInt(shortYear[1], 10) : null;
+    if (year === null) return null;
+
+    const quarter = text.match(/\bQ([1-4])|\b([1-4])Q/i);
+    if (quarter) {
+      const q = parseInt(quarter[1] || quarter[2], 10);
+      return { label: `Q${q} ${year}`, granularity: 'quarterly', year, sortKey: year * 100 + q * 3 };
+    }
+
+    const half = text.match(/\bH([12])\b|\b(first|second) half/i);
+    if (half) {
+      const h = half[1] ? parseInt(half[1], 10) : half[2].toLowerCase() === 'first' ? 1 : 2;
+      return { label: `H${h} ${year}`, granularity: 'half-year', year, sortKey: year * 100 + h * 6 };
+    }
+
+    const lower = text.toLowerCase();
+    const monthIndex = MONTHS.findIndex(month => lower.includes(month));
+    if (monthIndex >= 0 && /three months|quarter/.test(lower)) {
+      const q = Math.floor(monthIndex / 3) + 1;
+      return { label: `Q${q} ${year}`, granularity: 'quarterly', year, sortKey: year * 100 + q * 3 };
+    }
+    if (monthIndex >= 0 && /six months/.test(lower)) {
+      const h = monthIndex < 6 ? 1 : 2;
+      return { label: `H${h} ${year}`, granularity: 'half-year', year, sortKey: year * 100 + h * 6 };
+    }
+
+    return { label: `FY${year}`, granularity: 'annual', year, sortKey: year * 100 + 12 };
+  }
+
+  /**
+   * Number of days in a reporting period, used for DSO and DPO
+   */
+  private static getPeriodDays(period?: string): number {
+    const granularity = period ? this.parsePeriod(period)?.granularity : undefined;
+    if (granularity === 'quarterly') return 91;
+    if (granularity === 'half-year') return 182;
+    return 365;
+  }
+
+  private static derive(
+    a: ResolvedValue | null,
+    b: ResolvedValue | null,
+    label: string,
+    calculate: (a: number, b: number) => number
+  ): ResolvedValue | null {
+    if (!a || !b) return null;
+    return { label, concept: a.concept, value: calculate(a.value, b.value), period: a.period };
+  }
+
+  private static isKPIsKey(key: ComputedKPIKey): key is keyof KPIs {
+    return [
+      'revenue', 'expenses', 'netProfit', 'growthRate', 'totalAssets', 'totalLiabilities',
+      'cashFlow', 'debtToEquityRatio', 'returnOnInvestment', 'profitMargin'
+    ].includes(key);
+  }
+}
+
+export default KPIEngine;
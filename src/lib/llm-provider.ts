@@ -0,0 +1,398 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { readFileSync } from 'fs';
+import { supabase, TABLES } from '@/lib/supabase';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean; // ask the provider for a JSON-only response when supported
+  signal?: AbortSignal; // cancels the request, e.g. when a streaming client disconnects
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  /**
+   * Yield the response text as it is generated
+   */
+  stream(prompt: string, options?: LLMGenerateOptions): AsyncIterable<string>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface MockFixture {
+  match: string; // substring of the prompt, or /regex/flags
+  response: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  mock: 'mock-fixtures'
+};
+
+// Used by the mock when no fixture matches: a well-formed analysis for
+// analysis prompts, no calculations for chat tool planning, generic
+// suggested questions and a fixed answer for everything else
+const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: 'Please provide your analysis in the following JSON format',
+    response: JSON.stringify({
+      summary: 'Mock analysis of the uploaded financial report. Figures are taken from the computed KPIs where available.',
+      kpis: {
+        revenue: 'N/A',
+        expenses: 'N/A',
+        netProfit: 'N/A',
+        growthRate: 'N/A',
+        totalAssets: 'N/A',
+        totalLiabilities: 'N/A',
+        cashFlow: 'N/A',
+        debtToEquityRatio: 'N/A',
+        returnOnInvestment: 'N/A',
+        profitMargin: 'N/A'
+      },
+      risks: ['Mock risk: customer concentration'],
+      opportunities: ['Mock opportunity: expansion into adjacent markets'],
+      recommendations: ['Mock recommendation: review operating expense growth']
+    })
+  },
+  {
+    match: 'You are preparing exact calculations',
+    response: JSON.stringify({ calls: [] })
+  },
+  {
+    match: 'Respond with JSON only, in the form {"questions"',
+    response: JSON.stringify({
+      questions: ['What are the key financial highlights?', 'What risks should I be aware of?', 'Which figures are missing from this report?']
+    })
+  },
+  {
+    match: '',
+    response: 'This is a mock response generated without contacting a language model.'
+  }
+];
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_MODELS.gemini) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens,
+        responseMimeType: options.json ? 'application/json' : undefined
+      }
+    });
+
+    const result = await model.generateContent(prompt, { signal: options.signal });
+    const response = await result.response;
+    return response.text();
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncIterable<string> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens
+      }
+    });
+
+    const result = await model.generateContentStream(prompt, { signal: options.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API
+ * (OpenAI, Azure OpenAI, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private apiKey: string | undefined,
+    readonly model: string = DEFAULT_MODELS.openai,
+    private baseUrl: string = 'https://api.openai.com/v1'
+  ) {}
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxOutputTokens,
+        response_format: options.json ? { type: 'json_object' } : undefined
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncIterable<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxOutputTokens,
+        stream: true
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI-compatible API error ${response.status}: ${await response.text()}`);
+    }
+
+    // Server-sent events: one JSON delta per "data:" line, ending with [DONE]
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Local models served over the Ollama HTTP API
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(
+    readonly model: string = DEFAULT_MODELS.ollama,
+    private baseUrl: string = 'http://localhost:11434'
+  ) {}
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        prompt,
+        stream: false,
+        format: options.json ? 'json' : undefined,
+        options: {
+          temperature: options.temperature,
+          num_predict: options.maxOutputTokens
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return data.response || '';
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncIterable<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        prompt,
+        stream: true,
+        options: {
+          temperature: options.temperature,
+          num_predict: options.maxOutputTokens
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Ollama API error ${response.status}: ${await response.text()}`);
+    }
+
+    // Newline-delimited JSON, one object per generated fragment
+    for await (const line of readLines(response.body)) {
+      if (!line.trim()) continue;
+
+      const data = JSON.parse(line);
+      if (data.response) yield data.response;
+      if (data.done) return;
+    }
+  }
+}
+
+/**
+ * Deterministic offline provider: returns the response of the first fixture
+ * whose match appears in the prompt, and records every call
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly calls: { prompt: string; options: LLMGenerateOptions }[] = [];
+
+  constructor(
+    private fixtures: MockFixture[] = [],
+    readonly model: string = DEFAULT_MODELS.mock
+  ) {}
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    this.calls.push({ prompt, options });
+
+    const fixture = [...this.fixtures, ...DEFAULT_MOCK_FIXTURES].find(({ match }) => {
+      const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+      return regex ? new RegExp(regex[1], regex[2]).test(prompt) : prompt.includes(match);
+    });
+
+    return fixture!.response;
+  }
+
+  /**
+   * Replays the matching fixture word by word
+   */
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.generate(prompt, options);
+
+    for (const word of response.match(/\S+\s*|\s+/g) || []) {
+      if (options.signal?.aborted) {
+        throw new Error('Stream aborted');
+      }
+      yield word;
+    }
+  }
+
+  /**
+   * Load fixtures from a JSON file containing an array of { match, response }
+   */
+  static fromFile(path: string): MockLLMProvider {
+    const fixtures = JSON.parse(readFileSync(path, 'utf-8')) as MockFixture[];
+    return new MockLLMProvider(fixtures);
+  }
+}
+
+/**
+ * Split a streamed response body into lines
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop()!;
+      yield* lines;
+    }
+
+    buffered += decoder.decode();
+    if (buffered) yield buffered;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Create a provider from explicit configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey || process.env.GEMINI_API_KEY!, config.model);
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        config.apiKey || process.env.OPENAI_API_KEY,
+        config.model,
+        config.baseUrl || process.env.OPENAI_BASE_URL
+      );
+    case 'ollama':
+      return new OllamaProvider(config.model, config.baseUrl || process.env.OLLAMA_BASE_URL);
+    case 'mock':
+      return process.env.LLM_MOCK_FIXTURES
+        ? MockLLMProvider.fromFile(process.env.LLM_MOCK_FIXTURES)
+        : new MockLLMProvider();
+    default:
+      throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Provider selected for this environment via LLM_PROVIDER and LLM_MODEL
+ */
+export function getDefaultLLMProvider(): LLMProvider {
+  return createLLMProvider({
+    provider: (process.env.LLM_PROVIDER as LLMProviderName) || 'gemini',
+    model: process.env.LLM_MODEL || undefined
+  });
+}
+
+/**
+ * Provider for a user, honouring a per-tenant override stored on their
+ * profile and falling back to the environment default
+ */
+export async function getLLMProviderForUser(userId: string): Promise<LLMProvider> {
+  const { data: profile } = await supabase
+    .from(TABLES.USERS)
+    .select('llm_provider, llm_model')
+    .eq('id', userId)
+    .single();
+
+  if (!profile?.llm_provider || process.env.LLM_PROVIDER === 'mock') {
+    return getDefaultLLMProvider();
+  }
+
+  // The mock is an environment-level switch, never a tenant setting
+  if (profile.llm_provider === 'mock') {
+    throw new Error('The mock LLM provider cannot be configured for a user');
+  }
+
+  return createLLMProvider({
+    provider: profile.llm_provider as LLMProviderName,
+    model: profile.llm_model || undefined
+  });
+}
@@ -0,0 +1,391 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { supabase, TABLES } from '@/lib/supabase';
+import { ExportData, Insight, NotionConnection, NotionParent } from '@/types';
+
+// Point NOTION_API_URL at a local stub (see scripts/notion-stub.mjs) to test without Notion
+const NOTION_API_URL = (process.env.NOTION_API_URL || 'https://api.notion.com').replace(/\/$/, '');
+const NOTION_VERSION = '2022-06-28';
+
+// Notion rejects rich text over 2000 characters and requests with over 100 child blocks
+const MAX_TEXT_LENGTH = 2000;
+const MAX_BLOCKS_PER_REQUEST = 100;
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const INSIGHT_CALLOUTS: Record<Insight['type'], { emoji: string; color: string }> = {
+  positive: { emoji: '✅', color: 'green_background' },
+  negative: { emoji: '⚠️', color: 'red_background' },
+  neutral: { emoji: '💡', color: 'blue_background' }
+};
+
+interface NotionTokenResponse {
+  access_token: string;
+  bot_id: string;
+  workspace_id: string;
+  workspace_name?: string | null;
+  workspace_icon?: string | null;
+}
+
+type NotionBlock = Record<string, any>;
+
+export class NotionService {
+  /**
+   * Notion's OAuth consent URL; state carries the user id, signed so the
+   * callback can trust it without a session
+   */
+  static getAuthorizeUrl(userId: string): string {
+    const { clientId, redirectUri } = this.getOAuthConfig();
+    const params = new URLSearchParams({
+      client_id: clientId,
+      response_type: 'code',
+      owner: 'user',
+      redirect_uri: redirectUri,
+      state: this.signState(userId)
+    });
+    return `${NOTION_API_URL}/v1/oauth/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Return the user id from a state created by getAuthorizeUrl, or null if
+   * it was tampered with or has expired
+   */
+  static verifyState(state: string): string | null {
+    const [payload, signature] = state.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = this.sign(payload);
+    if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null;
+    }
+
+    try {
+      const { userId, expiresAt } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      return typeof userId === 'string' && expiresAt > Date.now() ? userId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Exchange an OAuth code for an access token and store the connection
+   */
+  static async connect(userId: string, code: string): Promise<NotionConnection> {
+    const { clientId, clientSecret, redirectUri } = this.getOAuthConfig();
+    const response = await fetch(`${NOTION_API_URL}/v1/oauth/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/json',
+        'Notion-Version': NOTION_VERSION
+      },
+      body: JSON.stringify({ grant_type: 'authorization_code', code, redirect_uri: redirectUri })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Notion OAuth error ${response.status}: ${await response.text()}`);
+    }
+
+    const token: NotionTokenResponse = await response.json();
+    const { data, error } = await supabase
+      .from(TABLES.NOTION_CONNECTIONS)
+      .upsert({
+        user_id: userId,
+        access_token: token.access_token,
+        bot_id: token.bot_id,
+        workspace_id: token.workspace_id,
+        workspace_name: token.workspace_name || null,
+        workspace_icon: token.workspace_icon || null,
+        // A different workspace invalidates the saved parent
+        parent_id: null,
+        parent_type: null,
+        parent_title: null
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save Notion connection: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.toConnection(data);
+  }
+
+  static async getConnection(userId: string): Promise<NotionConnection | null> {
+    const row = await this.getConnectionRow(userId);
+    return row ? this.toConnection(row) : null;
+  }
+
+  static async disconnect(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLES.NOTION_CONNECTIONS)
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to remove Notion connection: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pages and databases shared with the integration, for choosing where
+   * exports go
+   */
+  static async searchParents(userId: string, query: string = ''): Promise<NotionParent[]> {
+    const row = await this.requireConnectionRow(userId);
+    const result = await this.request(row.access_token, 'POST', '/v1/search', {
+      query,
+      page_size: 50,
+      sort: { direction: 'descending', timestamp: 'last_edited_time' }
+    });
+
+    return (result.results || [])
+      .filter((item: any) => item.object === 'page' || item.object === 'database')
+      .map((item: any) => ({
+        id: item.id,
+        type: item.object,
+        title: this.titleOf(item),
+        url: item.url
+      }));
+  }
+
+  /**
+   * Save the page or database new exports are created under, after
+   * checking the integration can see it
+   */
+  static async setDefaultParent(userId: string, parent: Pick<NotionParent, 'id' | 'type'>): Promise<NotionConnection> {
+    const row = await this.requireConnectionRow(userId);
+    const item = await this.request(row.access_token, 'GET', `/v1/${parent.type === 'database' ? 'databases' : 'pages'}/${parent.id}`);
+
+    const { data, error } = await supabase
+      .from(TABLES.NOTION_CONNECTIONS)
+      .update({ parent_id: item.id, parent_type: parent.type, parent_title: this.titleOf(item) })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save Notion parent: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.toConnection(data);
+  }
+
+  /**
+   * Create a report page under the given parent (or the connection's
+   * default) and return its id and URL
+   */
+  static async exportReport(
+    userId: string,
+    data: ExportData,
+    originalFileName: string,
+    parent?: Pick<NotionParent, 'id' | 'type'>
+  ): Promise<{ id: string; url: string }> {
+    const row = await this.requireConnectionRow(userId);
+    const target = parent || (row.parent_id ? { id: row.parent_id, type: row.parent_type } : null);
+    if (!target) {
+      throw new Error('Choose a Notion page or database to export to');
+    }
+
+    const title = `${data.title} – ${originalFileName}`;
+    let titleProperty = 'title';
+    if (target.type === 'database') {
+      // Database pages are titled through whichever property has the title type
+      const database = await this.request(row.access_token, 'GET', `/v1/databases/${target.id}`);
+      titleProperty = Object.keys(database.properties || {}).find(key => database.properties[key].type === 'title') || 'Name';
+    }
+
+    const blocks = this.buildBlocks(data, originalFileName);
+    const page = await this.request(row.access_token, 'POST', '/v1/pages', {
+      parent: target.type === 'database' ? { database_id: target.id } : { page_id: target.id },
+      icon: { type: 'emoji', emoji: '📊' },
+      properties: { [titleProperty]: { title: this.richText(title) } },
+      children: blocks.slice(0, MAX_BLOCKS_PER_REQUEST)
+    });
+
+    for (let start = MAX_BLOCKS_PER_REQUEST; start < blocks.length; start += MAX_BLOCKS_PER_REQUEST) {
+      await this.request(row.access_token, 'PATCH', `/v1/blocks/${page.id}/children`, {
+        children: blocks.slice(start, start + MAX_BLOCKS_PER_REQUEST)
+      });
+    }
+
+    return { id: page.id, url: page.url };
+  }
+
+  /**
+   * Page content: summary paragraphs, a KPI table, insight callouts,
+   * bulleted risks and opportunities, and recommendations as to-dos
+   */
+  private static buildBlocks(data: ExportData, originalFileName: string): NotionBlock[] {
+    const blocks: NotionBlock[] = [];
+    const generatedAt = new Date(data.metadata.generatedAt).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' });
+
+    blocks.push(this.block('paragraph', {
+      rich_text: this.richText(`Source: ${originalFileName} · Generated ${generatedAt}`, { color: 'gray' })
+    }));
+
+    if (data.summary) {
+      blocks.push(this.block('heading_2', { rich_text: this.richText('Executive Summary') }));
+      data.summary.split(/\n{2,}/).forEach(paragraph => {
+        blocks.push(this.block('paragraph', { rich_text: this.richText(paragraph.trim()) }));
+      });
+    }
+
+    if (data.kpis) {
+      const rows = Object.entries(data.kpis).filter(([, value]) => value !== undefined);
+      blocks.push(this.block('heading_2', { rich_text: this.richText('Key Performance Indicators') }));
+      blocks.push(this.block('table', {
+        table_width: 2,
+        has_column_header: true,
+        has_row_header: false,
+        children: [
+          this.block('table_row', { cells: [this.richText('Metric'), this.richText('Value')] }),
+          ...rows.map(([key, value]) => this.block('table_row', {
+            cells: [this.richText(this.formatLabel(key)), this.richText(String(value), { bold: value !== 'N/A' })]
+          }))
+        ]
+      }));
+    }
+
+    if (data.insights && data.insights.length > 0) {
+      blocks.push(this.block('heading_2', { rich_text: this.richText('Key Insights') }));
+      data.insights.forEach(insight => {
+        const callout = INSIGHT_CALLOUTS[insight.type] || INSIGHT_CALLOUTS.neutral;
+        blocks.push(this.block('callout', {
+          icon: { type: 'emoji', emoji: callout.emoji },
+          color: callout.color,
+          rich_text: [
+            ...this.richText(insight.title, { bold: true }),
+            ...this.richText(` (${insight.importance} importance)\n`, { color: 'gray' }),
+            ...this.richText(insight.description)
+          ]
+        }));
+      });
+    }
+
+    const list = (title: string, type: 'bulleted_list_item' | 'to_do', items?: string[]) => {
+      if (!items || items.length === 0) return;
+      blocks.push(this.block('heading_2', { rich_text: this.richText(title) }));
+      items.forEach(item => {
+        blocks.push(this.block(type, type === 'to_do'
+          ? { rich_text: this.richText(item), checked: false }
+          : { rich_text: this.richText(item) }));
+      });
+    };
+
+    list('Identified Risks', 'bulleted_list_item', data.risks);
+    list('Growth Opportunities', 'bulleted_list_item', data.opportunities);
+    list('Recommendations', 'to_do', data.recommendations);
+
+    return blocks;
+  }
+
+  private static block(type: string, content: Record<string, any>): NotionBlock {
+    return { object: 'block', type, [type]: content };
+  }
+
+  /**
+   * Rich text objects for a string, split to stay under Notion's length limit
+   */
+  private static richText(text: string, annotations: { bold?: boolean; color?: string } = {}): NotionBlock[] {
+    const chunks: NotionBlock[] = [];
+    for (let start = 0; start < Math.max(text.length, 1); start += MAX_TEXT_LENGTH) {
+      chunks.push({
+        type: 'text',
+        text: { content: text.slice(start, start + MAX_TEXT_LENGTH) },
+        ...(annotations.bold || annotations.color ? { annotations } : {})
+      });
+    }
+    return chunks;
+  }
+
+  private static async request(accessToken: string, method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${NOTION_API_URL}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Notion-Version': NOTION_VERSION
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(`Notion API error ${response.status}: ${error?.message || response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  private static async getConnectionRow(userId: string): Promise<any | null> {
+    const { data } = await supabase
+      .from(TABLES.NOTION_CONNECTIONS)
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+    return data || null;
+  }
+
+  private static async requireConnectionRow(userId: string): Promise<any> {
+    const row = await this.getConnectionRow(userId);
+    if (!row) {
+      throw new Error('Notion is not connected');
+    }
+    return row;
+  }
+
+  private static toConnection(row: any): NotionConnection {
+    return {
+      workspaceId: row.workspace_id,
+      workspaceName: row.workspace_name || undefined,
+      workspaceIcon: row.workspace_icon || undefined,
+      defaultParent: row.parent_id
+        ? { id: row.parent_id, type: row.parent_type, title: row.parent_title || 'Untitled' }
+        : undefined,
+      connectedAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Plain-text title of a page (its title-type property) or database
+   */
+  private static titleOf(item: any): string {
+    const title = item.object === 'database'
+      ? item.title
+      : Object.values(item.properties || {}).find((property: any) => property.type === 'title') as any;
+    const parts: any[] = item.object === 'database' ? title || [] : title?.title || [];
+    return parts.map(part => part.plain_text ?? part.text?.content ?? '').join('') || 'Untitled';
+  }
+
+  private static getOAuthConfig(): { clientId: string; clientSecret: string; redirectUri: string } {
+    const clientId = process.env.NOTION_CLIENT_ID;
+    const clientSecret = process.env.NOTION_CLIENT_SECRET;
+    const redirectUri = process.env.NOTION_REDIRECT_URI ||
+      `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/integrations/notion/callback`;
+
+    if (!clientId || !clientSecret) {
+      throw new Error('Notion integration is not configured');
+    }
+
+    return { clientId, clientSecret, redirectUri };
+  }
+
+  private static signState(userId: string): string {
+    const payload = Buffer.from(JSON.stringify({
+      userId,
+      expiresAt: Date.now() + STATE_TTL_MS,
+      nonce: randomBytes(8).toString('hex')
+    })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  private static sign(payload: string): string {
+    return createHmac('sha256', this.getOAuthConfig().clientSecret).update(payload).digest('base64url');
+  }
+
+  private static formatLabel(key: string): string {
+    return key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+  }
+}
+
+export default NotionService;
@@ -0,0 +1,434 @@
+import PDFDocument from 'pdfkit';
+import ChartImageService from '@/lib/chart-image';
+import ReportThemeService from '@/lib/report-themes';
+import { ChartData, ExportData, KPIs, ReportTheme } from '@/types';
+
+type PDFDoc = PDFKit.PDFDocument;
+
+// Theme fonts and colours resolved for PDFKit
+interface PDFStyle {
+  theme: ReportTheme;
+  logo: string | null; // data URL; PDFKit embeds a string source once however often it is drawn
+  font: string;
+  boldFont: string;
+  headingFont: string;
+  text: string;
+  muted: string;
+  primary: string;
+  chart: readonly string[];
+}
+
+const BORDER_COLOR = '#E5E7EB';
+
+const PAGE_MARGIN = 50;
+const CHART_HEIGHT = 200;
+
+export class PDFExportService {
+  /**
+   * Render the export data as a paginated PDF report with a cover page,
+   * KPI table, insight sections and vector charts, styled by the data's theme
+   */
+  static async generate(data: ExportData, originalFileName: string): Promise<Buffer> {
+    const theme = data.theme || ReportThemeService.getDefaultTheme();
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: data.title,
+        Subject: originalFileName,
+        Creator: 'Financial Report Analyzer'
+      }
+    });
+
+    const style: PDFStyle = {
+      theme,
+      logo: ReportThemeService.decodeLogo(theme) ? theme.logo! : null,
+      font: ReportThemeService.pdfFont(theme.fonts.body),
+      boldFont: ReportThemeService.pdfFont(theme.fonts.body, true),
+      headingFont: ReportThemeService.pdfFont(theme.fonts.heading, true),
+      text: theme.colors.text,
+      muted: theme.colors.muted,
+      primary: theme.colors.primary,
+      chart: theme.colors.chart
+    };
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.renderCover(doc, style, data, originalFileName);
+    doc.addPage();
+
+    if (data.summary) {
+      this.heading(doc, style, 'Executive Summary');
+      doc.font(style.font).fontSize(11).fillColor(style.text).text(data.summary, { lineGap: 3 });
+      doc.moveDown(1.5);
+    }
+
+    if (data.kpis) {
+      this.heading(doc, style, 'Key Performance Indicators');
+      this.renderKPITable(doc, style, data.kpis);
+      doc.moveDown(1.5);
+    }
+
+    if (data.charts && data.charts.length > 0) {
+      this.heading(doc, style, 'Charts');
+      data.charts.forEach(chart => this.renderChart(doc, style, chart));
+    }
+
+    if (data.insights && data.insights.length > 0) {
+      this.heading(doc, style, 'Key Insights');
+      data.insights.forEach(insight => {
+        this.ensureSpace(doc, 50);
+        doc.font(style.boldFont).fontSize(11).fillColor(style.text)
+          .text(`${insight.title} `, { continued: true })
+          .font(style.font).fillColor(style.muted).text(`(${insight.importance} importance)`);
+        doc.font(style.font).fontSize(10).fillColor(style.text).text(insight.description, { lineGap: 2 });
+        doc.moveDown(0.8);
+      });
+      doc.moveDown(0.7);
+    }
+
+    this.renderList(doc, style, 'Identified Risks', data.risks);
+    this.renderList(doc, style, 'Growth Opportunities', data.opportunities);
+    this.renderList(doc, style, 'Recommendations', data.recommendations);
+
+    this.renderPageChrome(doc, style);
+    doc.end();
+
+    return finished;
+  }
+
+  private static renderCover(doc: PDFDoc, style: PDFStyle, data: ExportData, originalFileName: string): void {
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    doc.rect(0, 0, doc.page.width, 12).fill(style.primary);
+    if (style.logo) {
+      doc.image(style.logo, PAGE_MARGIN, PAGE_MARGIN, { fit: [180, 70] });
+    }
+
+    doc.font(style.headingFont).fontSize(30).fillColor(style.text)
+      .text(data.title, PAGE_MARGIN, doc.page.height * 0.32, { width });
+    doc.moveDown(0.5);
+    doc.font(style.font).fontSize(14).fillColor(style.muted).text(originalFileName, { width });
+    if (style.theme.coverText) {
+      doc.moveDown(1);
+      doc.font(style.font).fontSize(12).fillColor(style.text).text(style.theme.coverText, { width, lineGap: 2 });
+    }
+    doc.moveDown(2);
+
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + 120, doc.y).lineWidth(2).stroke(style.primary);
+    doc.moveDown(1);
+    doc.font(style.font).fontSize(11).fillColor(style.muted)
+      .text(`Generated ${new Date(data.metadata.generatedAt).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })}`, { width })
+      .text(`Analysis ID: ${data.metadata.analysisId}`, { width });
+  }
+
+  private static heading(doc: PDFDoc, style: PDFStyle, title: string): void {
+    this.ensureSpace(doc, 60);
+    doc.font(style.headingFont).fontSize(16).fillColor(style.text).text(title, PAGE_MARGIN);
+    const y = doc.y + 4;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).lineWidth(1).stroke(BORDER_COLOR);
+    doc.moveDown(0.8);
+  }
+
+  private static renderKPITable(doc: PDFDoc, style: PDFStyle, kpis: KPIs): void {
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const labelWidth = width * 0.5;
+    const rowHeight = 22;
+
+    const rows = Object.entries(kpis).filter(([, value]) => value !== undefined);
+    this.ensureSpace(doc, rowHeight * 2);
+
+    const drawHeader = () => {
+      const y = doc.y;
+      doc.rect(PAGE_MARGIN, y, width, rowHeight).fill('#F3F4F6');
+      doc.font(style.boldFont).fontSize(10).fillColor(style.text)
+        .text('Metric', PAGE_MARGIN + 8, y + 7, { width: labelWidth - 16 })
+        .text('Value', PAGE_MARGIN + labelWidth + 8, y + 7, { width: width - labelWidth - 16 });
+      doc.y = y + rowHeight;
+    };
+
+    drawHeader();
+    rows.forEach(([key, value], index) => {
+      if (doc.y + rowHeight > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+        drawHeader();
+      }
+      const y = doc.y;
+      if (index % 2 === 1) {
+        doc.rect(PAGE_MARGIN, y, width, rowHeight).fill('#F9FAFB');
+      }
+      doc.font(style.font).fontSize(10).fillColor(style.text)
+        .text(this.formatLabel(key), PAGE_MARGIN + 8, y + 7, { width: labelWidth - 16, lineBreak: false, ellipsis: true })
+        .font(value === 'N/A' ? style.font : style.boldFont)
+        .fillColor(value === 'N/A' ? style.muted : style.text)
+        .text(String(value), PAGE_MARGIN + labelWidth + 8, y + 7, { width: width - labelWidth - 16, lineBreak: false, ellipsis: true });
+      doc.moveTo(PAGE_MARGIN, y + rowHeight).lineTo(PAGE_MARGIN + width, y + rowHeight).lineWidth(0.5).stroke(BORDER_COLOR);
+      doc.y = y + rowHeight;
+    });
+
+    doc.x = PAGE_MARGIN;
+  }
+
+  private static renderList(doc: PDFDoc, style: PDFStyle, title: string, items?: string[]): void {
+    if (!items || items.length === 0) return;
+
+    this.heading(doc, style, title);
+    doc.font(style.font).fontSize(10).fillColor(style.text);
+    items.forEach(item => {
+      this.ensureSpace(doc, 30);
+      doc.circle(PAGE_MARGIN + 4, doc.y + 5, 1.5).fill(style.primary);
+      doc.fillColor(style.text);
+      doc.text(item, PAGE_MARGIN + 12, doc.y, {
+        width: doc.page.width - PAGE_MARGIN * 2 - 12,
+        lineGap: 2
+      });
+      doc.moveDown(0.4);
+    });
+    doc.x = PAGE_MARGIN;
+    doc.moveDown(1);
+  }
+
+  /**
+   * Draw a chart as vector graphics: bars, lines and areas on a value
+   * axis, or slices with a legend for pie charts
+   */
+  private static renderChart(doc: PDFDoc, style: PDFStyle, chart: ChartData): void {
+    const xKey = chart.xAxisKey || 'name';
+    const series = ChartImageService.seriesFor(chart);
+
+    const hasValues = chart.data.some(row => series.some(({ dataKey }) => typeof row[dataKey] === 'number'));
+    if (!hasValues) return;
+
+    this.ensureSpace(doc, CHART_HEIGHT + 70);
+    doc.font(style.boldFont).fontSize(12).fillColor(style.text).text(chart.title, PAGE_MARGIN);
+    doc.moveDown(0.5);
+
+    const top = doc.y;
+    const left = PAGE_MARGIN;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    if (chart.type === 'pie') {
+      this.renderPieChart(doc, style, chart, left, top, width);
+    } else {
+      this.renderAxisChart(doc, style, chart, xKey, series, left, top, width);
+    }
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + CHART_HEIGHT + 40;
+  }
+
+  private static renderAxisChart(
+    doc: PDFDoc,
+    style: PDFStyle,
+    chart: ChartData,
+    xKey: string,
+    series: { dataKey: string; name: string }[],
+    left: number,
+    top: number,
+    width: number
+  ): void {
+    const axisWidth = 55;
+    const plotLeft = left + axisWidth;
+    const plotWidth = width - axisWidth;
+    const plotBottom = top + CHART_HEIGHT;
+
+    const values = chart.data.flatMap(row =>
+      series.map(({ dataKey }) => row[dataKey]).filter((value): value is number => typeof value === 'number')
+    );
+    const { min, max, ticks } = ChartImageService.niceScale(Math.min(0, ...values), Math.max(0, ...values));
+    const yFor = (value: number) => plotBottom - ((value - min) / (max - min)) * CHART_HEIGHT;
+
+    // Grid and value axis
+    doc.font(style.font).fontSize(8);
+    ticks.forEach(tick => {
+      const y = yFor(tick);
+      doc.moveTo(plotLeft, y).lineTo(plotLeft + plotWidth, y).lineWidth(0.5).stroke(tick === 0 ? '#9CA3AF' : BORDER_COLOR);
+      doc.fillColor(style.muted).text(ChartImageService.formatAxisValue(tick), left, y - 4, { width: axisWidth - 6, align: 'right' });
+    });
+
+    // Category axis
+    const band = plotWidth / Math.max(chart.data.length, 1);
+    chart.data.forEach((row, index) => {
+      doc.fillColor(style.muted).text(String(row[xKey] ?? ''), plotLeft + band * index, plotBottom + 6, {
+        width: band,
+        align: 'center',
+        lineBreak: false,
+        ellipsis: true
+      });
+    });
+
+    const xFor = (index: number) => plotLeft + band * index + band / 2;
+
+    series.forEach(({ dataKey }, seriesIndex) => {
+      const color = style.chart[seriesIndex % style.chart.length];
+
+      if (chart.type === 'bar') {
+        const barWidth = (band * 0.7) / series.length;
+        chart.data.forEach((row, index) => {
+          const value = row[dataKey];
+          if (typeof value !== 'number') return;
+          const x = plotLeft + band * index + band * 0.15 + barWidth * seriesIndex;
+          const y = Math.min(yFor(value), yFor(0));
+          doc.rect(x, y, barWidth, Math.max(Math.abs(yFor(value) - yFor(0)), 0.5)).fill(color);
+        });
+        return;
+      }
+
+      // Lines break at missing values
+      const segments: [number, number][][] = [[]];
+      chart.data.forEach((row, index) => {
+        const value = row[dataKey];
+        if (typeof value === 'number') {
+          segments[segments.length - 1].push([xFor(index), yFor(value)]);
+        } else if (segments[segments.length - 1].length > 0) {
+          segments.push([]);
+        }
+      });
+
+      segments.filter(points => points.length > 0).forEach(points => {
+        if (chart.type === 'area' && points.length > 1) {
+          doc.moveTo(points[0][0], yFor(0));
+          points.forEach(([x, y]) => doc.lineTo(x, y));
+          doc.lineTo(points[points.length - 1][0], yFor(0)).closePath();
+          doc.fillOpacity(0.3).fill(color).fillOpacity(1);
+        }
+
+        doc.moveTo(points[0][0], points[0][1]);
+        points.slice(1).forEach(([x, y]) => doc.lineTo(x, y));
+        doc.lineWidth(2).stroke(color);
+        points.forEach(([x, y]) => doc.circle(x, y, 2.5).fill(color));
+      });
+    });
+
+    if (series.length > 1) {
+      this.renderLegend(doc, style, series.map(({ name }) => name), plotLeft, plotBottom + 22);
+    }
+  }
+
+  private static renderPieChart(doc: PDFDoc, style: PDFStyle, chart: ChartData, left: number, top: number, width: number): void {
+    const dataKey = chart.dataKey || chart.yAxisKey || 'value';
+    const slices = chart.data
+      .map(row => ({ label: String(row.name ?? row[chart.xAxisKey || 'name'] ?? ''), value: Number(row[dataKey]) || 0, formatted: row.formatted }))
+      .filter(slice => slice.value > 0);
+    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+    if (total === 0) return;
+
+    const radius = CHART_HEIGHT / 2 - 10;
+    const cx = left + radius + 20;
+    const cy = top + CHART_HEIGHT / 2;
+    let angle = -Math.PI / 2;
+
+    slices.forEach((slice, index) => {
+      const sweep = (slice.value / total) * Math.PI * 2;
+      const color = style.chart[index % style.chart.length];
+
+      if (slices.length === 1) {
+        doc.circle(cx, cy, radius).fill(color);
+      } else {
+        const x1 = cx + radius * Math.cos(angle);
+        const y1 = cy + radius * Math.sin(angle);
+        const x2 = cx + radius * Math.cos(angle + sweep);
+        const y2 = cy + radius * Math.sin(angle + sweep);
+        const largeArc = sweep > Math.PI ? 1 : 0;
+        doc.path(`M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`).fill(color);
+      }
+      angle += sweep;
+    });
+
+    const legendLeft = cx + radius + 40;
+    doc.font(style.font).fontSize(10);
+    slices.forEach((slice, index) => {
+      const y = top + 30 + index * 20;
+      doc.rect(legendLeft, y, 10, 10).fill(style.chart[index % style.chart.length]);
+      const share = Math.round((slice.value / total) * 1000) / 10;
+      doc.fillColor(style.text).text(
+        `${slice.label}: ${slice.formatted || ChartImageService.formatAxisValue(slice.value)} (${share}%)`,
+        legendLeft + 16,
+        y,
+        { width: left + width - legendLeft - 16 }
+      );
+    });
+  }
+
+  private static renderLegend(doc: PDFDoc, style: PDFStyle, labels: string[], left: number, top: number): void {
+    let x = left;
+    doc.font(style.font).fontSize(8);
+    labels.forEach((label, index) => {
+      doc.rect(x, top + 1, 8, 8).fill(style.chart[index % style.chart.length]);
+      doc.fillColor(style.text).text(label, x + 12, top, { lineBreak: false });
+      x += 12 + doc.widthOfString(label) + 16;
+    });
+  }
+
+  /**
+   * Confidentiality label on every page; logo, footer disclaimer and page
+   * numbers on every page after the cover
+   */
+  private static renderPageChrome(doc: PDFDoc, style: PDFStyle): void {
+    const { theme } = style;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const range = doc.bufferedPageRange();
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing inside the margins would otherwise start a new page
+      const margins = { ...doc.page.margins };
+      doc.page.margins.top = 0;
+      doc.page.margins.bottom = 0;
+
+      if (theme.confidentialityLabel) {
+        doc.font(style.boldFont).fontSize(8).fillColor(style.primary).text(
+          theme.confidentialityLabel.toUpperCase(),
+          PAGE_MARGIN,
+          PAGE_MARGIN / 2 - 4,
+          { width, align: 'right', lineBreak: false, characterSpacing: 1 }
+        );
+      }
+
+      if (i > range.start) {
+        if (style.logo) {
+          doc.image(style.logo, PAGE_MARGIN, PAGE_MARGIN / 2 - 9, { fit: [72, 18] });
+        }
+
+        const footerTop = doc.page.height - PAGE_MARGIN / 2 - 4;
+        if (theme.footerDisclaimer) {
+          doc.font(style.font).fontSize(7).fillColor(style.muted).text(
+            theme.footerDisclaimer,
+            PAGE_MARGIN,
+            footerTop - 8,
+            { width: width - 80, height: 18, ellipsis: true, lineGap: 1 }
+          );
+        }
+
+        doc.font(style.font).fontSize(8).fillColor(style.muted).text(
+          `Page ${i - range.start + 1} of ${range.count}`, // the cover counts as page 1
+          PAGE_MARGIN,
+          footerTop,
+          { width, align: 'right', lineBreak: false }
+        );
+      }
+
+      doc.page.margins.top = margins.top;
+      doc.page.margins.bottom = margins.bottom;
+    }
+  }
+
+  private static ensureSpace(doc: PDFDoc, height: number): void {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+  }
+
+  private static formatLabel(key: string): string {
+    return key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+  }
+}
+
+export default PDFExportService;
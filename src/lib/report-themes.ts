@@ -0,0 +1,327 @@
+import { CHART_COLORS } from '@/lib/chart-image';
+import { supabase, TABLES } from '@/lib/supabase';
+import { ExportData, ReportTheme, ReportThemeFont } from '@/types';
+
+const THEME_FONTS: ReportThemeFont[] = ['sans', 'serif', 'mono'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const LOGO_DATA_URL = /^data:image\/(png|jpeg);base64,([a-z0-9+/]+=*)$/i;
+const MAX_LOGO_BYTES = 512 * 1024;
+
+// Longest accepted value for each free-text field
+const TEXT_LIMITS = {
+  name: 100,
+  coverTitle: 200,
+  coverText: 1000,
+  footerDisclaimer: 1000,
+  confidentialityLabel: 40
+};
+
+const PDF_FONTS: Record<ReportThemeFont, { regular: string; bold: string }> = {
+  sans: { regular: 'Helvetica', bold: 'Helvetica-Bold' },
+  serif: { regular: 'Times-Roman', bold: 'Times-Bold' },
+  mono: { regular: 'Courier', bold: 'Courier-Bold' }
+};
+
+const WORD_FONTS: Record<ReportThemeFont, string> = {
+  sans: 'Calibri',
+  serif: 'Cambria',
+  mono: 'Consolas'
+};
+
+const CSS_FONTS: Record<ReportThemeFont, string> = {
+  sans: 'Helvetica, Arial, sans-serif',
+  serif: "Georgia, 'Times New Roman', serif",
+  mono: "Menlo, Consolas, 'Courier New', monospace"
+};
+
+// The look exports had before themes existed
+const DEFAULT_THEME: ReportTheme = {
+  id: 'default',
+  userId: null,
+  name: 'Default',
+  colors: {
+    primary: CHART_COLORS[0],
+    text: '#111827',
+    muted: '#6B7280',
+    chart: [...CHART_COLORS]
+  },
+  fonts: { heading: 'sans', body: 'sans' },
+  isDefault: true,
+  createdAt: new Date(0),
+  updatedAt: new Date(0)
+};
+
+// Stand-in report used to preview a theme without running an export
+const PREVIEW_DATA: Omit<ExportData, 'metadata'> = {
+  title: 'Financial Analysis Report',
+  summary: 'Revenue grew 12% year over year on the back of strong subscription renewals, while operating costs stayed flat.\n\nCash reserves cover roughly eighteen months of operating expenses.',
+  kpis: {
+    revenue: '$4,200,000',
+    expenses: '$3,590,000',
+    netProfit: '$610,000',
+    growthRate: '12.0%',
+    profitMargin: '14.5%'
+  },
+  charts: [
+    {
+      type: 'bar',
+      title: 'Revenue vs. Expenses',
+      xAxisKey: 'name',
+      series: [
+        { dataKey: 'revenue', name: 'Revenue' },
+        { dataKey: 'expenses', name: 'Expenses' }
+      ],
+      data: [
+        { name: 'Q1', revenue: 950000, expenses: 720000 },
+        { name: 'Q2', revenue: 1010000, expenses: 740000 },
+        { name: 'Q3', revenue: 1080000, expenses: 760000 },
+        { name: 'Q4', revenue: 1160000, expenses: 770000 }
+      ]
+    }
+  ],
+  insights: [
+    {
+      id: 'preview-insight',
+      type: 'positive',
+      title: 'Margins are expanding',
+      description: 'Gross margin improved by three points as hosting costs were renegotiated.',
+      importance: 'high'
+    }
+  ],
+  risks: ['Two customers account for 30% of revenue'],
+  opportunities: ['Expansion into the mid-market segment'],
+  recommendations: ['Diversify the customer base before the next funding round']
+};
+
+export class ReportThemeService {
+  static getDefaultTheme(): ReportTheme {
+    return DEFAULT_THEME;
+  }
+
+  /**
+   * Validate theme fields from a request body and map them to columns.
+   * With `partial`, omitted fields are left out instead of required.
+   */
+  static parse(body: any, partial = false): { values: Record<string, unknown> } | { error: string } {
+    const values: Record<string, unknown> = {};
+
+    if (body.name !== undefined || !partial) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) return { error: 'Theme name is required' };
+      if (name.length > TEXT_LIMITS.name) return { error: `Theme name must be at most ${TEXT_LIMITS.name} characters` };
+      values.name = name;
+    }
+
+    if (body.logo !== undefined) {
+      if (body.logo === null || body.logo === '') {
+        values.logo = null;
+      } else {
+        const match = typeof body.logo === 'string' ? body.logo.match(LOGO_DATA_URL) : null;
+        if (!match) return { error: 'Logo must be a PNG or JPEG data URL' };
+        if (Buffer.byteLength(match[2], 'base64') > MAX_LOGO_BYTES) {
+          return { error: `Logo must be at most ${MAX_LOGO_BYTES / 1024}KB` };
+        }
+        values.logo = body.logo;
+      }
+    }
+
+    if (body.colors !== undefined || !partial) {
+      const colors = { ...DEFAULT_THEME.colors, ...(body.colors || {}) };
+      const invalid = (['primary', 'text', 'muted'] as const).find(key => !HEX_COLOR.test(String(colors[key])));
+      if (invalid) return { error: `colors.${invalid} must be a hex color such as #1D4ED8` };
+      if (!Array.isArray(colors.chart) || colors.chart.length === 0 || !colors.chart.every((color: unknown) => HEX_COLOR.test(String(color)))) {
+        return { error: 'colors.chart must be a non-empty list of hex colors' };
+      }
+      values.colors = { primary: colors.primary, text: colors.text, muted: colors.muted, chart: colors.chart.slice(0, 12) };
+    }
+
+    if (body.fonts !== undefined || !partial) {
+      const fonts = { ...DEFAULT_THEME.fonts, ...(body.fonts || {}) };
+      if (!THEME_FONTS.includes(fonts.heading) || !THEME_FONTS.includes(fonts.body)) {
+        return { error: `fonts.heading and fonts.body must be one of: ${THEME_FONTS.join(', ')}` };
+      }
+      values.fonts = { heading: fonts.heading, body: fonts.body };
+    }
+
+    const textFields = {
+      coverTitle: 'cover_title',
+      coverText: 'cover_text',
+      footerDisclaimer: 'footer_disclaimer',
+      confidentialityLabel: 'confidentiality_label'
+    } as const;
+
+    for (const [field, column] of Object.entries(textFields) as [keyof typeof textFields, string][]) {
+      const value = body[field];
+      if (value === undefined) continue;
+      if (value !== null && typeof value !== 'string') return { error: `${field} must be a string` };
+
+      const text = value ? value.trim() : '';
+      if (text.length > TEXT_LIMITS[field]) return { error: `${field} must be at most ${TEXT_LIMITS[field]} characters` };
+      values[column] = text || null;
+    }
+
+    return { values };
+  }
+
+  /**
+   * Theme for an export: the requested one (own or shared), else the user's
+   * default, the organization's default, then the built-in look.
+   * Returns null when a requested theme is not available to the user.
+   */
+  static async resolve(userId: string, themeId?: string): Promise<ReportTheme | null> {
+    if (themeId) {
+      if (themeId === DEFAULT_THEME.id) return DEFAULT_THEME;
+
+      const { data } = await supabase
+        .from(TABLES.REPORT_THEMES)
+        .select('*')
+        .eq('id', themeId)
+        .or(`user_id.eq.${userId},user_id.is.null`)
+        .single();
+      return data ? this.toTheme(data) : null;
+    }
+
+    const { data: defaults } = await supabase
+      .from(TABLES.REPORT_THEMES)
+      .select('*')
+      .eq('is_default', true)
+      .or(`user_id.eq.${userId},user_id.is.null`);
+
+    // Personal defaults win over organization-wide ones
+    const row = (defaults || []).find((theme: any) => theme.user_id === userId) ||
+      (defaults || []).find((theme: any) => theme.user_id === null);
+    return row ? this.toTheme(row) : DEFAULT_THEME;
+  }
+
+  /**
+   * Unset the current default theme for an owner (null for shared)
+   */
+  static async clearDefault(ownerId: string | null, exceptId?: string): Promise<void> {
+    let query = supabase
+      .from(TABLES.REPORT_THEMES)
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    query = ownerId ? query.eq('user_id', ownerId) : query.is('user_id', null);
+    if (exceptId) {
+      query = query.neq('id', exceptId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      throw new Error(`Failed to reset default theme: ${error.message}`);
+    }
+  }
+
+  /**
+   * Attach a theme to export data; its cover title replaces the report title
+   */
+  static apply(data: ExportData, theme: ReportTheme): ExportData {
+    return {
+      ...data,
+      title: theme.coverTitle || data.title,
+      theme
+    };
+  }
+
+  /**
+   * Sample report rendered with a theme so it can be checked before exporting
+   */
+  static previewData(theme: ReportTheme): ExportData {
+    return this.apply({
+      ...PREVIEW_DATA,
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        analysisId: 'preview',
+        dashboardId: 'preview'
+      }
+    }, theme);
+  }
+
+  /**
+   * Theme with unsaved changes (column values from parse) layered over it
+   */
+  static withChanges(theme: ReportTheme, values: Record<string, unknown>): ReportTheme {
+    return this.toTheme({
+      id: theme.id,
+      user_id: theme.userId,
+      name: theme.name,
+      logo: theme.logo,
+      colors: theme.colors,
+      fonts: theme.fonts,
+      cover_title: theme.coverTitle,
+      cover_text: theme.coverText,
+      footer_disclaimer: theme.footerDisclaimer,
+      confidentiality_label: theme.confidentialityLabel,
+      is_default: theme.isDefault,
+      created_at: theme.createdAt,
+      updated_at: theme.updatedAt,
+      ...values
+    });
+  }
+
+  static pdfFont(font: ReportThemeFont, bold = false): string {
+    return bold ? PDF_FONTS[font].bold : PDF_FONTS[font].regular;
+  }
+
+  static wordFont(font: ReportThemeFont): string {
+    return WORD_FONTS[font];
+  }
+
+  static cssFont(font: ReportThemeFont): string {
+    return CSS_FONTS[font];
+  }
+
+  /**
+   * Decode a theme logo with its pixel size, or null when the theme has none
+   */
+  static decodeLogo(theme: ReportTheme): { data: Buffer; type: 'png' | 'jpg'; width: number; height: number } | null {
+    const match = theme.logo?.match(LOGO_DATA_URL);
+    if (!match) return null;
+
+    const data = Buffer.from(match[2], 'base64');
+    const type = match[1].toLowerCase() === 'png' ? 'png' : 'jpg';
+    const size = type === 'png' ? this.pngSize(data) : this.jpegSize(data);
+    return size ? { data, type, ...size } : null;
+  }
+
+  static toTheme(row: any): ReportTheme {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      logo: row.logo || undefined,
+      colors: { ...DEFAULT_THEME.colors, ...(row.colors || {}) },
+      fonts: { ...DEFAULT_THEME.fonts, ...(row.fonts || {}) },
+      coverTitle: row.cover_title || undefined,
+      coverText: row.cover_text || undefined,
+      footerDisclaimer: row.footer_disclaimer || undefined,
+      confidentialityLabel: row.confidentiality_label || undefined,
+      isDefault: row.is_default,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  // Width and height from the IHDR chunk
+  private static pngSize(data: Buffer): { width: number; height: number } | null {
+    if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') return null;
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // Width and height from the first start-of-frame marker
+  private static jpegSize(data: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return null;
+  }
+}
+
+export default ReportThemeService;
@@ -31,10 +31,18 @@ export const supabaseAdmin = supabaseServiceRoleKey
 export const TABLES = {
   USERS: 'users',
   FILES: 'files', 
+  COMPANIES: 'companies',
   ANALYSES: 'analyses',
+  ANALYSIS_JOBS: 'analysis_jobs',
   DASHBOARDS: 'dashboards',
+  DOCUMENT_CHUNKS: 'document_chunks',
+  CONVERSATIONS: 'conversations',
   CHAT_MESSAGES: 'chat_messages',
-  NOTIFICATIONS: 'notifications'
+  NOTIFICATIONS: 'notifications',
+  NOTION_CONNECTIONS: 'notion_connections',
+  EXPORT_TEMPLATES: 'export_templates',
+  REPORT_THEMES: 'report_themes',
+  EXPORTS: 'exports'
 } as const;
 
 // Storage bucket names
@@ -0,0 +1,171 @@
+import { supabase, TABLES } from '@/lib/supabase';
+import KPIEngine, { EXPENSE_CONCEPTS } from '@/lib/kpi-engine';
+import {
+  FinancialConcept,
+  FinancialStatement,
+  PeriodGranularity,
+  TrendPoint,
+  TrendSeries
+} from '@/types';
+
+export interface TrendSource {
+  fileName: string;
+  uploadedAt?: string;
+  statements: FinancialStatement[];
+}
+
+export class TrendAnalysisService {
+  /**
+   * Line up statement periods across uploads and build a period-over-period
+   * series. Later uploads override earlier ones for the same period, so
+   * restated comparatives win over the originally reported figures. Within
+   * an upload the first line item for a concept is used, as in KPIEngine.
+   */
+  static buildTrend(sources: TrendSource[]): TrendSeries {
+    const ordered = [...sources].sort((a, b) =>
+      new Date(a.uploadedAt || 0).getTime() - new Date(b.uploadedAt || 0).getTime()
+    );
+
+    const buckets: Record<PeriodGranularity, Map<string, TrendPoint>> = {
+      annual: new Map(),
+      'half-year': new Map(),
+      quarterly: new Map()
+    };
+    let currency: string | undefined;
+
+    ordered.forEach(source => {
+      const taken = new Set<string>(); // "period|concept" already read from this upload
+
+      source.statements.forEach(statement => {
+        currency = currency || statement.currency;
+
+        statement.periods.forEach((periodLabel, columnIndex) => {
+          const period = KPIEngine.parsePeriod(periodLabel);
+          if (!period) return;
+
+          const bucket = buckets[period.granularity];
+          const point = bucket.get(period.label) || {
+            period: period.label,
+            sortKey: period.sortKey,
+            values: {},
+            sources: []
+          };
+
+          statement.lineItems.forEach(item => {
+            if (!item.concept || taken.has(`${period.label}|${item.concept}`)) return;
+            taken.add(`${period.label}|${item.concept}`);
+
+            const raw = item.values[columnIndex];
+            if (raw === null || raw === undefined) return;
+            const value = raw * statement.multiplier;
+            point.values[item.concept] = EXPENSE_CONCEPTS.includes(item.concept) ? Math.abs(value) : value;
+          });
+
+          if (!point.sources.includes(source.fileName)) {
+            point.sources.push(source.fileName);
+          }
+          bucket.set(period.label, point);
+        });
+      });
+    });
+
+    // Use the granularity with the most periods; annual wins ties
+    const granularity = (['annual', 'quarterly', 'half-year'] as PeriodGranularity[])
+      .reduce((best, candidate) => buckets[candidate].size > buckets[best].size ? candidate : best, 'annual');
+
+    const points = Array.from(buckets[granularity].values())
+      .filter(point => Object.keys(point.values).length > 0)
+      .sort((a, b) => a.sortKey - b.sortKey);
+
+    return { granularity, currency, points };
+  }
+
+  /**
+   * Growth of a concept between consecutive points, as a percentage
+   */
+  static getGrowth(series: TrendSeries, concept: FinancialConcept): (number | null)[] {
+    return series.points.map((point, index) => {
+      if (index === 0) return null;
+      const current = point.values[concept];
+      const previous = series.points[index - 1].values[concept];
+      if (current === undefined || previous === undefined || previous === 0) return null;
+      return ((current - previous) / Math.abs(previous)) * 100;
+    });
+  }
+
+  /**
+   * Load the trend for an analysis: across every analysed upload of the
+   * same company when the file belongs to one, otherwise from the
+   * analysis's own comparative columns
+   */
+  static async loadTrendForAnalysis(
+    analysis: { statements?: FinancialStatement[]; files?: { file_name?: string; upload_date?: string; company_id?: string | null } },
+    userId: string
+  ): Promise<TrendSeries> {
+    const companyId = analysis.files?.company_id;
+    if (companyId) {
+      return this.loadCompanyTrend(companyId, userId);
+    }
+
+    return this.buildTrend([{
+      fileName: analysis.files?.file_name || 'Current report',
+      uploadedAt: analysis.files?.upload_date,
+      statements: analysis.statements || []
+    }]);
+  }
+
+  /**
+   * Build the trend across all analysed uploads for a company
+   */
+  static async loadCompanyTrend(companyId: string, userId: string): Promise<TrendSeries> {
+    const { data: analyses, error } = await supabase
+      .from(TABLES.ANALYSES)
+      .select(`
+        statements,
+        files!inner(
+          file_name,
+          upload_date,
+          user_id,
+          company_id
+        )
+      `)
+      .eq('files.company_id', companyId)
+      .eq('files.user_id', userId);
+
+    if (error) {
+      console.error('Company trend query error:', error);
+      throw new Error('Failed to load company analyses');
+    }
+
+    return this.buildTrend((analyses || []).map((row: any) => ({
+      fileName: row.files.file_name,
+      uploadedAt: row.files.upload_date,
+      statements: row.statements || []
+    })));
+  }
+
+  /**
+   * Drop cached dashboards of a company's analyses so their trend charts are
+   * regenerated with the latest set of periods
+   */
+  static async invalidateCompanyDashboards(companyId: string): Promise<void> {
+    const { data: analyses } = await supabase
+      .from(TABLES.ANALYSES)
+      .select('id, files!inner(company_id)')
+      .eq('files.company_id', companyId);
+
+    const analysisIds = (analyses || []).map((row: any) => row.id);
+    if (analysisIds.length === 0) return;
+
+    const { error } = await supabase
+      .from(TABLES.DASHBOARDS)
+      .delete()
+      .in('analysis_id', analysisIds);
+
+    if (error) {
+      console.error('Dashboard invalidation error:', error);
+    }
+  }
+}
+
+export default TrendAnalysisService;
@@ -7,6 +7,8 @@ export interface User {
   role: 'user' | 'admin';
   subscriptionTier: 'free' | 'pro' | 'enterprise';
   uploadCount: number;
+  llmProvider?: 'gemini' | 'openai' | 'ollama'; // overrides the environment default
+  llmModel?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,6 +22,16 @@ export interface File {
   uploadDate: Date;
   analysisStatus: 'pending' | 'completed' | 'failed';
   supabaseStoragePath?: string;
+  companyId?: string;
+}
+
+// A company or reporting entity that groups uploads for trend analysis
+export interface Company {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface KPIs {
@@ -35,11 +47,89 @@ export interface KPIs {
   profitMargin?: string;
 }
 
+export type ComputedKPIKey =
+  | keyof KPIs
+  | 'grossMargin'
+  | 'operatingMargin'
+  | 'currentRatio'
+  | 'quickRatio'
+  | 'interestCoverage'
+  | 'daysSalesOutstanding'
+  | 'daysPayablesOutstanding';
+
+// A KPI calculated deterministically from parsed statement line items
+export interface ComputedKPI {
+  key: ComputedKPIKey;
+  label: string;
+  value: number;
+  unit: 'currency' | 'percent' | 'ratio' | 'days';
+  formatted: string;
+  formula: string;
+  period: string;
+  inputs: {
+    label: string;
+    concept: FinancialConcept;
+    value: number;
+    period: string;
+  }[];
+}
+
+export interface KPIDiscrepancy {
+  key: keyof KPIs;
+  aiValue: string;
+  computedValue: string;
+  differencePercent: number | null; // null when the AI value could not be parsed
+}
+
+// Part of a long document analyzed on its own before results are merged
+export interface AnalysisSection {
+  id: string; // "S1", "S2", ...
+  label: string; // e.g. "Pages 1-14" or "Sheets: P&L, Balance Sheet"
+  start: number; // character offsets into the parsed text
+  end: number;
+}
+
+// Section ids each finding was drawn from, index-aligned with the finding lists
+export interface FindingSources {
+  kpis: Partial<Record<keyof KPIs, string[]>>;
+  risks: string[][];
+  opportunities: string[][];
+  recommendations: string[][];
+}
+
+// Where a KPI or finding appears in the parsed document
+export interface Citation {
+  location: string; // e.g. "Page 12", "P&L!B14:D14" or "Row 37"
+  page?: number;
+  sheet?: string;
+  range?: string; // A1 range on the sheet
+  row?: number; // 1-based CSV row
+  excerpt: string; // matched text, shown highlighted between before and after
+  before: string;
+  after: string;
+}
+
+// Citations for each KPI and finding, index-aligned with the finding lists
+export interface AnalysisCitations {
+  kpis: Partial<Record<keyof KPIs, Citation[]>>;
+  risks: Citation[][];
+  opportunities: Citation[][];
+  recommendations: Citation[][];
+}
+
 export interface Analysis {
   id: string;
   fileId: string;
   summary: string;
   kpis: KPIs;
+  computedKpis?: ComputedKPI[];
+  kpiDiscrepancies?: KPIDiscrepancy[];
+  statements?: FinancialStatement[];
+  model?: string; // e.g. "gemini/gemini-1.5-flash"
+  sections?: AnalysisSection[];
+  findingSources?: FindingSources;
+  citations?: AnalysisCitations;
+  suggestedQuestions?: string[]; // chat starter questions, cached once generated
   risks: string[];
   opportunities: string[];
   recommendations: string[];
@@ -62,6 +152,7 @@ export interface ChartData {
   xAxisKey?: string;
   yAxisKey?: string;
   dataKey?: string;
+  series?: { dataKey: string; name: string }[]; // multi-series line/area charts
 }
 
 export interface Insight {
@@ -75,12 +166,134 @@ export interface Insight {
 export interface ChatMessage {
   id: string;
   userId: string;
+  conversationId?: string;
   analysisId?: string;
   message: string;
   response: string;
+  citations?: ChatCitation[];
+  toolCalls?: ChatToolCall[];
+  model?: string; // e.g. "gemini/gemini-1.5-flash"
+  promptVersion?: string;
+  feedback?: ChatFeedback;
   timestamp: Date;
 }
 
+// Report passage cited in a chat answer as [P1], [P2], ...
+export interface ChatCitation extends Citation {
+  id: string;
+}
+
+export type ChatFeedbackRating = 'up' | 'down';
+
+// A user's verdict on a chat answer
+export interface ChatFeedback {
+  rating: ChatFeedbackRating;
+  correction?: string; // what the answer should have said
+  createdAt: Date;
+}
+
+// Answer feedback for one chat prompt version and model
+export interface ChatFeedbackSummary {
+  promptVersion: string;
+  model: string;
+  answers: number;
+  rated: number;
+  up: number;
+  down: number;
+  corrections: number;
+  approvalRate: number | null; // up ÷ rated × 100
+}
+
+// Calculation run on the parsed statements while answering, cited as [T1], [T2], ...
+export interface ChatToolCall {
+  id: string;
+  tool: string; // as requested by the model; unknown tools are recorded with an error
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  summary?: string; // readable result, e.g. "Net income ÷ Revenue (FY 2024) = 12.5%"
+  error?: string;
+}
+
+export interface Conversation {
+  id: string;
+  userId: string;
+  analysisIds: string[];
+  title: string;
+  lastMessageAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Financial statement types
+export type StatementType = 'income_statement' | 'balance_sheet' | 'cash_flow' | 'other';
+
+export type StatementUnit = 'ones' | 'thousands' | 'millions' | 'billions';
+
+export type FinancialConcept =
+  | 'revenue'
+  | 'cost_of_sales'
+  | 'gross_profit'
+  | 'operating_expenses'
+  | 'total_expenses'
+  | 'operating_income'
+  | 'interest_expense'
+  | 'income_tax'
+  | 'net_income'
+  | 'cash'
+  | 'accounts_receivable'
+  | 'inventory'
+  | 'current_assets'
+  | 'total_assets'
+  | 'accounts_payable'
+  | 'current_liabilities'
+  | 'total_debt'
+  | 'total_liabilities'
+  | 'total_equity'
+  | 'operating_cash_flow'
+  | 'investing_cash_flow'
+  | 'financing_cash_flow';
+
+export interface StatementLineItem {
+  label: string;
+  concept?: FinancialConcept;
+  values: (number | null)[]; // aligned with FinancialStatement.periods, in the statement's unit
+  sign: 'positive' | 'negative' | 'mixed';
+  isTotal: boolean;
+  section?: string;
+  row?: number; // 1-based worksheet row, CSV row or table row
+}
+
+export interface FinancialStatement {
+  type: Exclude<StatementType, 'other'>;
+  title?: string;
+  periods: string[];
+  unit: StatementUnit;
+  multiplier: number;
+  currency?: string;
+  lineItems: StatementLineItem[];
+  source: {
+    fileType: 'pdf' | 'excel' | 'csv';
+    pageNumber?: number;
+    sheetName?: string;
+  };
+}
+
+// Trend analysis types
+export type PeriodGranularity = 'annual' | 'half-year' | 'quarterly';
+
+export interface TrendPoint {
+  period: string; // normalized label, e.g. "FY2023" or "Q1 2024"
+  sortKey: number;
+  values: Partial<Record<FinancialConcept, number>>; // base units
+  sources: string[]; // file names the values came from
+}
+
+export interface TrendSeries {
+  granularity: PeriodGranularity;
+  currency?: string;
+  points: TrendPoint[]; // oldest first
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -146,26 +359,155 @@ export interface AnalysisRequest {
 }
 
 export interface AnalysisResponse {
-  analysisId: string;
+  analysisId?: string; // set once the job has completed
+  jobId?: string;
   status: 'pending' | 'completed' | 'failed';
-  estimatedTime?: number;
+  stage?: AnalysisJobStage;
+  progress?: number; // 0-100
+  estimatedTime?: number; // seconds remaining
+  error?: string;
   message: string;
 }
 
+// Analysis job types
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AnalysisJobStage = 'queued' | 'downloading' | 'parsing' | 'analyzing' | 'saving' | 'completed';
+
+export interface AnalysisJob {
+  id: string;
+  userId: string;
+  fileId: string;
+  status: AnalysisJobStatus;
+  stage: AnalysisJobStage;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  analysisType: 'full' | 'quick' | 'custom';
+  customPrompt?: string;
+  analysisId?: string;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
 // Dashboard export types
 export interface ExportRequest {
   analysisId: string;
-  format: 'pdf' | 'word' | 'notion';
+  format: 'pdf' | 'word' | 'notion' | 'xlsx' | 'markdown' | 'html';
   sections?: string[];
+  notionParent?: Pick<NotionParent, 'id' | 'type'>; // overrides the connection's default parent
+  templateId?: string; // markdown and html exports; defaults to the user's default template
+  themeId?: string; // enterprise branding; defaults to the user's or organization's default theme
+}
+
+// User-editable Handlebars template for markdown and html exports. Templates
+// without an owner are shared across the organization and managed by admins.
+export interface ExportTemplate {
+  id: string;
+  userId: string | null;
+  name: string;
+  format: 'markdown' | 'html';
+  content: string;
+  sections: string[]; // sections included when the export request names none
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Branding applied to PDF, Word and HTML exports. Like export templates,
+// themes without an owner are shared across the organization.
+export type ReportThemeFont = 'sans' | 'serif' | 'mono';
+
+export interface ReportTheme {
+  id: string;
+  userId: string | null;
+  name: string;
+  logo?: string; // PNG or JPEG data URL
+  colors: {
+    primary: string; // cover band, heading rules and accents
+    text: string;
+    muted: string;
+    chart: string[]; // series colours, in order
+  };
+  fonts: {
+    heading: ReportThemeFont;
+    body: ReportThemeFont;
+  };
+  coverTitle?: string; // replaces the report title
+  coverText?: string;
+  footerDisclaimer?: string;
+  confidentialityLabel?: string; // e.g. "Confidential", shown on every page
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Report content shared by every export format; sections not requested are omitted
+export interface ExportData {
+  title: string;
+  theme?: ReportTheme;
+  summary?: string;
+  kpis?: KPIs;
+  computedKpis?: ComputedKPI[];
+  statements?: FinancialStatement[]; // parsed source line items
+  charts?: ChartData[];
+  insights?: Insight[];
+  risks?: string[];
+  opportunities?: string[];
+  recommendations?: string[];
+  metadata: {
+    generatedAt: string;
+    analysisId: string;
+    dashboardId: string;
+  };
 }
 
 export interface ExportResponse {
-  downloadUrl: string;
-  expiresAt: Date;
+  exportId?: string;
+  downloadUrl: string; // the created page for Notion exports
+  expiresAt?: Date; // Notion pages do not expire
   format: string;
   message: string;
 }
 
+// A past export; stored files are purged once fileExpiresAt has passed
+export interface ExportRecord {
+  id: string;
+  userId: string;
+  analysisId: string | null;
+  format: ExportRequest['format'];
+  sections: string[];
+  templateId?: string;
+  themeId?: string;
+  storagePath?: string; // object in the exported-reports bucket; absent for Notion
+  pageUrl?: string; // Notion page URL
+  fileSize?: number; // bytes
+  status: 'available' | 'expired';
+  fileExpiresAt?: Date;
+  purgedAt?: Date;
+  createdAt: Date;
+}
+
+// Notion integration types
+export interface NotionParent {
+  id: string;
+  type: 'page' | 'database';
+  title: string;
+  url?: string;
+}
+
+// A user's connected Notion workspace; the access token never leaves the server
+export interface NotionConnection {
+  workspaceId: string;
+  workspaceName?: string;
+  workspaceIcon?: string;
+  defaultParent?: NotionParent;
+  connectedAt: Date;
+}
+
 // Subscription and tier types
 export interface SubscriptionTier {
   name: 'free' | 'pro' | 'enterprise';
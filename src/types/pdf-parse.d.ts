@@ -0,0 +1,38 @@
+// Minimal typings for the pdf-parse entry point used by the file parser.
+// We import the library file directly because the package index runs a
+// debug self-test when it is bundled.
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface PDFTextItem {
+    str: string;
+    transform: number[];
+    width: number;
+    height: number;
+  }
+
+  interface PDFPageData {
+    pageIndex: number;
+    getTextContent(options?: {
+      normalizeWhitespace?: boolean;
+      disableCombineTextItems?: boolean;
+    }): Promise<{ items: PDFTextItem[] }>;
+  }
+
+  interface PDFParseOptions {
+    pagerender?: (pageData: PDFPageData) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  interface PDFParseResult {
+    numpages: number;
+    numrender: number;
+    info: any;
+    metadata: any;
+    text: string;
+    version: string | null;
+  }
+
+  function pdfParse(dataBuffer: Buffer | Uint8Array, options?: PDFParseOptions): Promise<PDFParseResult>;
+
+  export = pdfParse;
+}